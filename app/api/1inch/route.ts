@@ -1,16 +1,142 @@
 /**
  * Next.js API Route for 1inch API Proxy
- * 
- * Proxies requests to 1inch API to avoid CORS issues
+ *
+ * Proxies requests to 1inch API to avoid CORS issues and keep the API key (ONEINCH_API_KEY) server-side
+ * Only allowlisted endpoints with valid parameters are forwarded (see proxy-allowlist.ts)
+ * Set ONEINCH_API_URL to proxy to another instance (e.g. the local mock at /api/mock/1inch)
+ * Requests without an API key are rejected unless NEXT_PUBLIC_1INCH_REQUIRE_API_KEY is "false"
+ * POST requests forward a JSON body (e.g. limit order submission)
+ *
+ * Quotes and token lists are cached briefly (see proxy-cache.ts), requests forwarded to 1inch
+ * are rate limited per client (see proxy-rate-limit.ts), and rate-limited or failed upstream
+ * requests are retried with backoff (see fetch-retry.ts).
+ *
+ * Response headers:
+ * - X-Cache: HIT (served from cache), MISS (forwarded and cached) or BYPASS (not cacheable)
+ * - Age: Seconds since a cached response was fetched (HIT only)
+ * - X-RateLimit-Limit / X-RateLimit-Remaining: Client's limit and requests left in the window
+ * - Retry-After: Seconds until the client may retry (429 only)
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { getOneInchClientConfig } from "@/lib/1inch/1inch-service";
+import { fetchWithRetry } from "@/lib/1inch/fetch-retry";
+import { validateProxyRequest } from "@/lib/1inch/proxy-allowlist";
+import { getCachedProxyResponse, getProxyCacheKey, setCachedProxyResponse } from "@/lib/1inch/proxy-cache";
+import { checkProxyRateLimit, getProxyClientId } from "@/lib/1inch/proxy-rate-limit";
+
+/**
+ * Validate a request and forward it to the 1inch API (or serve it from cache)
+ */
+async function proxyRequest(
+  request: NextRequest,
+  method: "GET" | "POST",
+  endpoint: string,
+  params: Record<string, string>,
+  payload?: unknown
+): Promise<NextResponse> {
+  const { apiUrl, apiKey, requireApiKey } = getOneInchClientConfig();
+
+  const check = validateProxyRequest(method, endpoint, params, payload);
+  if (!check.success) {
+    return NextResponse.json({ error: check.error }, { status: check.status });
+  }
+
+  if (!apiKey && requireApiKey) {
+    return NextResponse.json(
+      {
+        error: "1inch API key is required. Set ONEINCH_API_KEY in .env.local",
+        help: "Get your API key from https://portal.1inch.dev/"
+      },
+      { status: 401 }
+    );
+  }
+
+  const cacheKey = check.cacheTtlMs ? getProxyCacheKey(endpoint, params) : null;
+  const cached = cacheKey ? getCachedProxyResponse(cacheKey) : null;
+  if (cached) {
+    return NextResponse.json(cached.body, {
+      headers: {
+        "X-Cache": "HIT",
+        "Age": String(Math.floor((Date.now() - cached.cachedAt) / 1000)),
+      },
+    });
+  }
+
+  const clientId = getProxyClientId(request.headers);
+  if (!clientId) {
+    return NextResponse.json({ error: "Client IP address unavailable" }, { status: 400 });
+  }
+
+  const rateLimit = checkProxyRateLimit(clientId);
+  const rateLimitHeaders: Record<string, string> = {
+    "X-Cache": cacheKey ? "MISS" : "BYPASS",
+    "X-RateLimit-Limit": String(rateLimit.limit),
+    "X-RateLimit-Remaining": String(rateLimit.remaining),
+  };
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: "Too many requests to the 1inch proxy" },
+      {
+        status: 429,
+        headers: {
+          ...rateLimitHeaders,
+          "Retry-After": String(Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000))),
+        },
+      }
+    );
+  }
+
+  // Build the full URL
+  const url = new URL(`${apiUrl}${endpoint}`);
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  // Make request to 1inch API
+  const headers: HeadersInit = {
+    "Accept": "application/json",
+  };
+  if (method === "POST") {
+    headers["Content-Type"] = "application/json";
+  }
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+
+  const { response } = await fetchWithRetry(url.toString(), {
+    method,
+    headers,
+    body: method === "POST" ? JSON.stringify(payload) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => response.statusText);
+    const retryAfter = response.headers.get("Retry-After");
+    return NextResponse.json(
+      { error: errorText || response.statusText },
+      {
+        status: response.status,
+        headers: retryAfter ? { ...rateLimitHeaders, "Retry-After": retryAfter } : rateLimitHeaders,
+      }
+    );
+  }
+
+  // Some endpoints (e.g. limit order submission) respond with an empty body
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : null;
+
+  if (cacheKey && check.cacheTtlMs) {
+    setCachedProxyResponse(cacheKey, data, check.cacheTtlMs);
+  }
+
+  return NextResponse.json(data, { headers: rateLimitHeaders });
+}
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const endpoint = searchParams.get("endpoint");
-    const apiKey = process.env.NEXT_PUBLIC_1INCH_API_KEY;
 
     if (!endpoint) {
       return NextResponse.json(
@@ -19,47 +145,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (!apiKey) {
-      return NextResponse.json(
-        { 
-          error: "1inch API key is required. Set NEXT_PUBLIC_1INCH_API_KEY in .env.local",
-          help: "Get your API key from https://portal.1inch.dev/"
-        },
-        { status: 401 }
-      );
-    }
-
-    // Build the full URL
-    const url = new URL(`https://api.1inch.dev${endpoint}`);
-    
-    // Copy all query parameters except 'endpoint'
+    const params: Record<string, string> = {};
     searchParams.forEach((value, key) => {
       if (key !== "endpoint") {
-        url.searchParams.append(key, value);
+        params[key] = value;
       }
     });
 
-    // Make request to 1inch API
-    const headers: HeadersInit = {
-      "Accept": "application/json",
-    };
-
-    if (apiKey) {
-      headers["Authorization"] = `Bearer ${apiKey}`;
-    }
-
-    const response = await fetch(url.toString(), { headers });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      return NextResponse.json(
-        { error: errorText || response.statusText },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
+    return await proxyRequest(request, "GET", endpoint, params);
   } catch (error: any) {
     console.error("1inch API proxy error:", error);
     return NextResponse.json(
@@ -72,61 +165,20 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { endpoint, params } = body;
-    const apiKey = process.env.NEXT_PUBLIC_1INCH_API_KEY;
+    const { endpoint, params, body: payload } = body;
 
-    if (!endpoint) {
+    if (!endpoint || typeof endpoint !== "string") {
       return NextResponse.json(
         { error: "Endpoint parameter is required" },
         { status: 400 }
       );
     }
 
-    if (!apiKey) {
-      return NextResponse.json(
-        { 
-          error: "1inch API key is required. Set NEXT_PUBLIC_1INCH_API_KEY in .env.local",
-          help: "Get your API key from https://portal.1inch.dev/"
-        },
-        { status: 401 }
-      );
-    }
-
-    // Build the full URL
-    const url = new URL(`https://api.1inch.dev${endpoint}`);
-    
-    // Add query parameters
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        url.searchParams.append(key, String(value));
-      });
-    }
-
-    // Make request to 1inch API
-    const headers: HeadersInit = {
-      "Accept": "application/json",
-      "Content-Type": "application/json",
-    };
-
-    if (apiKey) {
-      headers["Authorization"] = `Bearer ${apiKey}`;
-    }
-
-    const response = await fetch(url.toString(), {
-      method: "POST",
-      headers,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      return NextResponse.json(
-        { error: errorText || response.statusText },
-        { status: response.status }
-      );
-    }
+    const query: Record<string, string> = Object.fromEntries(
+      Object.entries(params ?? {}).map(([key, value]) => [key, String(value)])
+    );
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return await proxyRequest(request, "POST", endpoint, query, payload);
   } catch (error: any) {
     console.error("1inch API proxy error:", error);
     return NextResponse.json(
@@ -135,4 +187,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Hash, formatUnits, isAddressEqual, isHash } from "viem";
+import { getKeeperFromEnv } from "@/lib/agent/agent-keeper";
+import { validateMessageNonce, verifyAgentOwnerSignature } from "@/lib/agent/agent-ownership";
+import { getAgentRegistryAddress, TRADING_AGENT_REGISTRY_ABI } from "@/lib/agent/agent-registry";
+import { claimSignatureNonce, getAgentStrategy, updateAgentStrategy } from "@/lib/agent/agent-strategy-store";
+import {
+  applyDcaSettings,
+  getDcaMessage,
+  getRemainingBudget,
+  validateDcaSettings,
+  type DcaSettings,
+} from "@/lib/agent/dca-schedule";
+import {
+  DEFAULT_CHAIN_ID,
+  NATIVE_TOKEN_ADDRESS,
+  createChainPublicClient,
+  isSupportedChain,
+} from "@/lib/chains/chain-registry";
+import { getTokenDecimals } from "@/lib/tokens/token-registry";
+
+/**
+ * GET /api/agent/[agentId]/dca?chainId=...
+ *
+ * Returns an agent's DCA schedule, its remaining budget and the keeper address
+ * the owner approves to spend tokenIn for the swaps
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
+    const { agentId } = await params;
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    const strategy = await getAgentStrategy(chainId, agentId as Hash);
+
+    return NextResponse.json({
+      schedule: strategy?.dca ?? null,
+      remainingBudget: strategy?.dca ? getRemainingBudget(strategy.dca) : null,
+      keeper: getKeeperFromEnv()?.account?.address ?? null,
+    });
+  } catch (error: any) {
+    console.error("Error fetching DCA schedule:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch DCA schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agent/[agentId]/dca
+ *
+ * Sets an agent's DCA schedule (the first swap of a new schedule is due on the next cron run).
+ * Updating an existing schedule keeps what it has spent.
+ *
+ * Body:
+ * - chainId: Chain ID of the registry
+ * - settings: { intervalSeconds, budget, maxPrice? }
+ * - nonce: Signing time in milliseconds
+ * - signature: Owner's signature of getDcaMessage(agentId, settings, chainId, nonce)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { chainId = DEFAULT_CHAIN_ID, settings, nonce, signature } = body as {
+      chainId?: number;
+      settings?: DcaSettings;
+      nonce?: number;
+      signature?: `0x${string}`;
+    };
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    if (!settings || !signature) {
+      return NextResponse.json(
+        { error: "settings and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const nonceError = validateMessageNonce(nonce);
+    if (nonceError) {
+      return NextResponse.json({ error: nonceError }, { status: 400 });
+    }
+
+    const ownership = await verifyAgentOwnerSignature(
+      chainId,
+      agentId as Hash,
+      getDcaMessage(agentId, settings, chainId, nonce!),
+      signature
+    );
+    if (!ownership.success) {
+      return NextResponse.json({ error: ownership.error }, { status: ownership.status });
+    }
+
+    // Swaps spend the agent's on-chain amountIn of the owner's ERC-20 tokenIn
+    const agent = await createChainPublicClient(chainId).readContract({
+      address: getAgentRegistryAddress(chainId),
+      abi: TRADING_AGENT_REGISTRY_ABI,
+      functionName: "getAgent",
+      args: [agentId as Hash],
+    });
+    const { tokenIn, tokenOut, amountIn } = agent.strategy;
+    if (isAddressEqual(tokenIn, NATIVE_TOKEN_ADDRESS) || isAddressEqual(tokenOut, NATIVE_TOKEN_ADDRESS)) {
+      return NextResponse.json(
+        { error: "Recurring buys swap ERC-20 tokens; use the wrapped native token" },
+        { status: 400 }
+      );
+    }
+
+    const amountPerSwap = Number(formatUnits(amountIn, await getTokenDecimals(tokenIn, chainId)));
+    const validationError = validateDcaSettings(settings, amountPerSwap);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!(await claimSignatureNonce(chainId, agentId as Hash, nonce!))) {
+      return NextResponse.json({ error: "Signature already used" }, { status: 409 });
+    }
+
+    const existing = await getAgentStrategy(chainId, agentId as Hash);
+    const schedule = applyDcaSettings(existing?.dca, settings);
+    await updateAgentStrategy(chainId, agentId as Hash, { dca: schedule });
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error: any) {
+    console.error("Error updating DCA schedule:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update DCA schedule" },
+      { status: 500 }
+    );
+  }
+}
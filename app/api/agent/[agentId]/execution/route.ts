@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Address, Hash, isHash } from "viem";
+import { validateMessageNonce, verifyAgentOwnerSignature } from "@/lib/agent/agent-ownership";
+import { getAgentRegistryAddress, TRADING_AGENT_REGISTRY_ABI } from "@/lib/agent/agent-registry";
+import { claimSignatureNonce, getAgentStrategy, updateAgentStrategy } from "@/lib/agent/agent-strategy-store";
+import {
+  getExecutionModeMessage,
+  validateExecutionMode,
+  validateGasCostLimit,
+  validatePercentSetting,
+} from "@/lib/agent/execution-mode";
+import { hasTokenUsdPrice, type GasCostLimit } from "@/lib/agent/gas-cost";
+import type { SwapExecutionMode } from "@/lib/1inch/agent-swap-executor";
+import { isFusionSupported } from "@/lib/1inch/fusion-service";
+import { DEFAULT_MAX_PRICE_DEVIATION } from "@/lib/1inch/oracle-price";
+import { DEFAULT_CHAIN_ID, createChainPublicClient, isSupportedChain } from "@/lib/chains/chain-registry";
+
+/**
+ * Get the token an agent sells, whose Pyth price values its trades
+ * @returns Token address, or null if the agent doesn't exist
+ */
+async function getAgentTokenIn(chainId: number, agentId: Hash): Promise<Address | null> {
+  const agent = await createChainPublicClient(chainId).readContract({
+    address: getAgentRegistryAddress(chainId),
+    abi: TRADING_AGENT_REGISTRY_ABI,
+    functionName: "getAgent",
+    args: [agentId],
+  });
+  return agent.exists ? agent.strategy.tokenIn : null;
+}
+
+/**
+ * GET /api/agent/[agentId]/execution?chainId=...
+ *
+ * Returns an agent's swap execution settings, its recent Fusion orders and whether its trades
+ * can be valued for a percentage gas cap
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
+    const { agentId } = await params;
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    const [strategy, tokenIn] = await Promise.all([
+      getAgentStrategy(chainId, agentId as Hash),
+      getAgentTokenIn(chainId, agentId as Hash),
+    ]);
+
+    return NextResponse.json({
+      mode: strategy?.executionMode ?? "aggregation",
+      maxPriceDeviation: strategy?.maxPriceDeviation ?? DEFAULT_MAX_PRICE_DEVIATION,
+      oracleTolerance: strategy?.oracleTolerance ?? null,
+      maxGasCost: strategy?.maxGasCost ?? null,
+      percentGasCostSupported: tokenIn !== null && hasTokenUsdPrice(tokenIn, chainId),
+      fusionSupported: isFusionSupported(chainId),
+      fusionOrders: strategy?.fusionOrders ?? [],
+    });
+  } catch (error: any) {
+    console.error("Error fetching execution mode:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch execution mode" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agent/[agentId]/execution
+ *
+ * Sets how an agent's swaps are executed
+ *
+ * Body:
+ * - chainId: Chain ID of the registry
+ * - mode: "aggregation" (swap transaction) or "fusion" (gasless Fusion order)
+ * - maxPriceDeviation: Optional max deviation of quotes from the Pyth price, in percent
+ *   (unchanged if omitted)
+ * - oracleTolerance: Optional band below the Pyth price that bounds swap output, in percent
+ *   (unchanged if omitted; null to use the slippage tolerance again)
+ * - maxGasCost: Optional gas cap, { type: "usd", value } or { type: "percent", value } of the trade value;
+ *   executions costing more are deferred (unchanged if omitted; null to remove the cap). Percentage caps
+ *   need a Pyth feed for the agent's tokenIn
+ * - nonce: Signing time in milliseconds
+ * - signature: Owner's signature of getExecutionModeMessage(agentId, settings, chainId, nonce)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const {
+      chainId = DEFAULT_CHAIN_ID,
+      mode,
+      maxPriceDeviation,
+      oracleTolerance,
+      maxGasCost,
+      nonce,
+      signature,
+    } = body as {
+      chainId?: number;
+      mode?: SwapExecutionMode;
+      maxPriceDeviation?: number;
+      oracleTolerance?: number | null;
+      maxGasCost?: GasCostLimit | null;
+      nonce?: number;
+      signature?: `0x${string}`;
+    };
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    if (!mode || !signature) {
+      return NextResponse.json(
+        { error: "mode and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError =
+      validateExecutionMode(mode, chainId) ??
+      (maxPriceDeviation !== undefined ? validatePercentSetting("maxPriceDeviation", maxPriceDeviation) : null) ??
+      (oracleTolerance !== undefined && oracleTolerance !== null
+        ? validatePercentSetting("oracleTolerance", oracleTolerance)
+        : null) ??
+      (maxGasCost !== undefined && maxGasCost !== null ? validateGasCostLimit(maxGasCost) : null);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const nonceError = validateMessageNonce(nonce);
+    if (nonceError) {
+      return NextResponse.json({ error: nonceError }, { status: 400 });
+    }
+
+    const ownership = await verifyAgentOwnerSignature(
+      chainId,
+      agentId as Hash,
+      getExecutionModeMessage(agentId, { mode, maxPriceDeviation, oracleTolerance, maxGasCost }, chainId, nonce!),
+      signature
+    );
+    if (!ownership.success) {
+      return NextResponse.json({ error: ownership.error }, { status: ownership.status });
+    }
+
+    // A percentage cap can't be checked on trades that can't be valued
+    if (maxGasCost?.type === "percent") {
+      const tokenIn = await getAgentTokenIn(chainId, agentId as Hash);
+      if (!tokenIn || !hasTokenUsdPrice(tokenIn, chainId)) {
+        return NextResponse.json(
+          { error: "A percentage gas cap needs a Pyth price feed for the agent's tokenIn; use a USD cap" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!(await claimSignatureNonce(chainId, agentId as Hash, nonce!))) {
+      return NextResponse.json({ error: "Signature already used" }, { status: 409 });
+    }
+
+    const updated = await updateAgentStrategy(chainId, agentId as Hash, {
+      executionMode: mode,
+      ...(maxPriceDeviation !== undefined && { maxPriceDeviation }),
+      ...(oracleTolerance !== undefined && { oracleTolerance: oracleTolerance ?? undefined }),
+      ...(maxGasCost !== undefined && {
+        maxGasCost: maxGasCost ? { type: maxGasCost.type, value: maxGasCost.value } : undefined,
+      }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      mode,
+      maxPriceDeviation: updated.maxPriceDeviation ?? DEFAULT_MAX_PRICE_DEVIATION,
+      oracleTolerance: updated.oracleTolerance ?? null,
+      maxGasCost: updated.maxGasCost ?? null,
+    });
+  } catch (error: any) {
+    console.error("Error updating execution mode:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update execution mode" },
+      { status: 500 }
+    );
+  }
+}
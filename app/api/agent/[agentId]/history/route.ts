@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Hash, isHash } from "viem";
+import { getHistoryStore } from "@/lib/agent/agent-history-store";
+import {
+  MAX_HISTORY_LIMIT,
+  getHistoryEntryMessage,
+  type AgentHistoryEventType,
+} from "@/lib/agent/agent-history";
+import { validateMessageNonce, verifyAgentOwnerSignature } from "@/lib/agent/agent-ownership";
+import { claimSignatureNonce } from "@/lib/agent/agent-strategy-store";
+import { isSupportedChain } from "@/lib/chains/chain-registry";
+
+const HISTORY_TYPES: AgentHistoryEventType[] = ["check", "trigger", "execution", "swap"];
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * GET /api/agent/[agentId]/history?chainId=...&type=...&limit=...
+ *
+ * Returns recorded checks, triggers, executions and swaps for an agent (newest first)
+ * limit is clamped to 1..MAX_HISTORY_LIMIT (default: 50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { agentId } = await params;
+    const chainId = searchParams.get("chainId");
+    const type = searchParams.get("type") as AgentHistoryEventType | null;
+    const limitParam = searchParams.get("limit");
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (chainId && !isSupportedChain(parseInt(chainId))) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    if (type && !HISTORY_TYPES.includes(type)) {
+      return NextResponse.json({ error: `Invalid history type: ${type}` }, { status: 400 });
+    }
+
+    if (limitParam !== null && !/^-?\d+$/.test(limitParam)) {
+      return NextResponse.json({ error: `Invalid limit: ${limitParam}` }, { status: 400 });
+    }
+    const limit = limitParam === null ? DEFAULT_HISTORY_LIMIT : Number(limitParam);
+
+    const entries = await getHistoryStore().list(agentId as Hash, {
+      chainId: chainId ? parseInt(chainId) : undefined,
+      type: type || undefined,
+      limit: Math.min(Math.max(limit, 1), MAX_HISTORY_LIMIT),
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error: any) {
+    console.error("Error fetching agent history:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch agent history" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agent/[agentId]/history
+ *
+ * Records a swap executed outside the server (e.g. signed in the browser)
+ * Checks, triggers and executions are recorded by the monitor itself
+ *
+ * Body:
+ * - chainId, type ("swap"), success, txHash?, error?, details?
+ * - nonce: Signing time in milliseconds
+ * - signature: Owner's signature of getHistoryEntryMessage(entry, nonce)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!body || body.type !== "swap" || typeof body.chainId !== "number") {
+      return NextResponse.json(
+        { error: "Only swap entries with a chainId can be recorded" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSupportedChain(body.chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${body.chainId}` }, { status: 400 });
+    }
+
+    if (typeof body.signature !== "string") {
+      return NextResponse.json({ error: "signature is required" }, { status: 400 });
+    }
+
+    const nonceError = validateMessageNonce(body.nonce);
+    if (nonceError) {
+      return NextResponse.json({ error: nonceError }, { status: 400 });
+    }
+
+    const ownership = await verifyAgentOwnerSignature(
+      body.chainId,
+      agentId as Hash,
+      getHistoryEntryMessage({ ...body, agentId }, body.nonce),
+      body.signature
+    );
+    if (!ownership.success) {
+      return NextResponse.json({ error: ownership.error }, { status: ownership.status });
+    }
+
+    if (!(await claimSignatureNonce(body.chainId, agentId as Hash, body.nonce))) {
+      return NextResponse.json({ error: "Signature already used" }, { status: 409 });
+    }
+
+    const entry = await getHistoryStore().record({
+      agentId: agentId as Hash,
+      chainId: body.chainId,
+      type: "swap",
+      success: Boolean(body.success),
+      txHash: typeof body.txHash === "string" ? body.txHash : undefined,
+      error: typeof body.error === "string" ? body.error : undefined,
+      details: sanitizeDetails(body.details),
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error: any) {
+    console.error("Error recording agent history:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to record agent history" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Keep only primitive detail values from client-submitted entries
+ */
+function sanitizeDetails(
+  details: unknown
+): Record<string, string | number | boolean> | undefined {
+  if (!details || typeof details !== "object") return undefined;
+
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) =>
+      ["string", "number", "boolean"].includes(typeof value)
+    )
+  );
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Hash, isHash } from "viem";
+import { trackLimitOrder } from "@/lib/agent/agent-limit-orders";
+import { verifyAgentOwnerTypedData } from "@/lib/agent/agent-ownership";
+import { getAgentStrategy } from "@/lib/agent/agent-strategy-store";
+import { getSignedLimitOrder, type SignedLimitOrder } from "@/lib/1inch/limit-orders";
+import type { PermitTypedData } from "@/lib/1inch/permit";
+import { DEFAULT_CHAIN_ID, isSupportedChain } from "@/lib/chains/chain-registry";
+
+/**
+ * GET /api/agent/[agentId]/limit-orders?chainId=...
+ *
+ * Returns the limit orders placed from an agent's strategy
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
+    const { agentId } = await params;
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    const strategy = await getAgentStrategy(chainId, agentId as Hash);
+
+    return NextResponse.json({ limitOrders: strategy?.limitOrders ?? [] });
+  } catch (error: any) {
+    console.error("Error fetching limit orders:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch limit orders" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agent/[agentId]/limit-orders
+ *
+ * Tracks a limit order placed from an agent's strategy, so its fills are
+ * reconciled into agent history
+ *
+ * Body:
+ * - chainId: Chain ID of the registry
+ * - order: Signed order as submitted to the 1inch orderbook ({ data, extension, signature });
+ *   it must be made and signed by the agent owner
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { chainId = DEFAULT_CHAIN_ID, order } = body as {
+      chainId?: number;
+      order?: SignedLimitOrder;
+    };
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    if (!order?.data || !order.extension || !order.signature) {
+      return NextResponse.json(
+        { error: "order with data, extension and signature is required" },
+        { status: 400 }
+      );
+    }
+
+    let typedData: PermitTypedData;
+    try {
+      typedData = getSignedLimitOrder(chainId, order).typedData;
+    } catch (error: any) {
+      return NextResponse.json({ error: `Invalid order: ${error.message}` }, { status: 400 });
+    }
+
+    const ownership = await verifyAgentOwnerTypedData(
+      chainId,
+      agentId as Hash,
+      typedData,
+      order.signature
+    );
+    if (!ownership.success) {
+      return NextResponse.json({ error: ownership.error }, { status: ownership.status });
+    }
+
+    if (order.data.maker.toLowerCase() !== ownership.owner!.toLowerCase()) {
+      return NextResponse.json({ error: "Order maker must be the agent owner" }, { status: 403 });
+    }
+
+    const tracked = await trackLimitOrder(chainId, agentId as Hash, order);
+
+    return NextResponse.json({ success: true, order: tracked });
+  } catch (error: any) {
+    console.error("Error tracking limit order:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to track limit order" },
+      { status: 500 }
+    );
+  }
+}
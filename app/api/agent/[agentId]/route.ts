@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createPublicClient, http, Hash } from "viem";
-import { baseSepolia, base } from "viem/chains";
+import { Hash } from "viem";
 import { TRADING_AGENT_REGISTRY_ABI, getAgentRegistryAddress } from "@/lib/agent/agent-registry";
+import { DEFAULT_CHAIN_ID, createChainPublicClient, isSupportedChain } from "@/lib/chains/chain-registry";
 
 export async function GET(
   request: NextRequest,
@@ -9,16 +9,15 @@ export async function GET(
 ) {
   try {
     const { searchParams } = new URL(request.url);
-    const chainId = parseInt(searchParams.get("chainId") || "84532");
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
     const { agentId: agentIdParam } = await params;
     const agentId = agentIdParam as Hash;
 
-    // Get chain
-    const chain = chainId === 8453 ? base : baseSepolia;
-    const client = createPublicClient({
-      chain,
-      transport: http(),
-    });
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    const client = createChainPublicClient(chainId);
 
     // Get agent registry address
     const registryAddress = getAgentRegistryAddress(chainId);
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Address, Hash, isHash, recoverMessageAddress } from "viem";
+import { validateMessageNonce, verifyAgentOwnerSignature } from "@/lib/agent/agent-ownership";
+import { claimSignatureNonce, getAgentStrategy, updateAgentStrategy } from "@/lib/agent/agent-strategy-store";
+import { buildConditionContext } from "@/lib/agent/agent-monitor";
+import {
+  describeCondition,
+  getConditionsMessage,
+  getTriggerDistances,
+  validateCondition,
+  type StrategyCondition,
+} from "@/lib/agent/strategy-conditions";
+import { PRICE_FEED_SYMBOLS } from "@/lib/privy/pyth-contract";
+import { DEFAULT_CHAIN_ID, isSupportedChain } from "@/lib/chains/chain-registry";
+
+/**
+ * GET /api/agent/[agentId]/strategy?chainId=...
+ *
+ * Returns the off-chain strategy conditions attached to an agent, the current distance
+ * to each trigger and whether a one-shot condition (take-profit/stop-loss) already executed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
+    const { agentId } = await params;
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    const strategy = await getAgentStrategy(chainId, agentId as Hash);
+    if (!strategy?.condition) {
+      return NextResponse.json({ condition: null, description: null, distances: [], consumed: false });
+    }
+
+    // Read-only: price samples are only recorded by the monitor
+    const context = await buildConditionContext(strategy, { recordSamples: false }).catch((error) => {
+      console.error("Error fetching condition prices:", error);
+      return null;
+    });
+
+    return NextResponse.json({
+      condition: strategy.condition,
+      description: describeCondition(strategy.condition),
+      distances: context ? getTriggerDistances(strategy.condition, context) : [],
+      consumed: Boolean(strategy.conditionConsumedAt),
+    });
+  } catch (error: any) {
+    console.error("Error fetching agent strategy:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch agent strategy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/agent/[agentId]/strategy
+ *
+ * Attaches off-chain strategy conditions to an agent
+ *
+ * Conditions are stored before the agent is created, so an agent never runs with only its
+ * always-met on-chain trigger: until the agent exists the signer is recorded instead of
+ * checked, and the monitor only executes the agent once the signer matches its owner.
+ *
+ * Body:
+ * - chainId: Chain ID of the registry
+ * - condition: Strategy condition tree
+ * - nonce: Signing time in milliseconds
+ * - signature: Owner's signature of getConditionsMessage(agentId, condition, chainId, nonce)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> }
+) {
+  try {
+    const { agentId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { chainId = DEFAULT_CHAIN_ID, condition, nonce, signature } = body as {
+      chainId?: number;
+      condition?: StrategyCondition;
+      nonce?: number;
+      signature?: `0x${string}`;
+    };
+
+    if (!isHash(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json({ error: `Unsupported chain ID: ${chainId}` }, { status: 400 });
+    }
+
+    if (!condition || !signature) {
+      return NextResponse.json(
+        { error: "condition and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateCondition(condition, [...PRICE_FEED_SYMBOLS]) ?? validateMessageNonce(nonce);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Only the agent owner may change its conditions; before the agent is created the
+    // signer is recorded and checked against the owner by the monitor
+    const message = getConditionsMessage(agentId, condition, chainId, nonce!);
+    const ownership = await verifyAgentOwnerSignature(chainId, agentId as Hash, message, signature);
+    let conditionSigner: Address;
+    if (ownership.success) {
+      conditionSigner = ownership.owner!;
+    } else if (ownership.status === 404) {
+      conditionSigner = await recoverMessageAddress({ message, signature });
+    } else {
+      return NextResponse.json({ error: ownership.error }, { status: ownership.status });
+    }
+
+    if (!(await claimSignatureNonce(chainId, agentId as Hash, nonce!))) {
+      return NextResponse.json({ error: "Signature already used" }, { status: 409 });
+    }
+
+    // Reset crossing and trailing state so conditions start from the next check
+    await updateAgentStrategy(chainId, agentId as Hash, {
+      condition,
+      conditionSigner,
+      conditionConsumedAt: undefined,
+      lastPrices: undefined,
+      extremes: undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      description: describeCondition(condition),
+    });
+  } catch (error: any) {
+    console.error("Error updating agent strategy:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update agent strategy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parsePriceCsv,
+  runBacktest,
+  validateBacktestStrategy,
+  type BacktestStrategy,
+  type PriceSeries,
+} from "@/lib/agent/agent-backtest";
+import { getConditionFeeds } from "@/lib/agent/strategy-conditions";
+import { fetchHistoricalPrices, type BenchmarkResolution } from "@/lib/privy/pyth-benchmarks";
+import { PRICE_FEED_SYMBOLS } from "@/lib/privy/pyth-contract";
+
+// Longest period fetched from Pyth Benchmarks
+const MAX_BACKTEST_DAYS = 365;
+
+const RESOLUTIONS: BenchmarkResolution[] = ["1", "5", "15", "60", "240", "1D"];
+
+/**
+ * POST /api/backtest
+ *
+ * Replays an agent strategy against historical prices
+ *
+ * Body:
+ * - strategy: Strategy fields from the create page (feed, trigger, direction, tokens, amount, cooldown, conditions?)
+ * - days: Look-back period when using Pyth Benchmarks (default: 30)
+ * - resolution: Candle resolution ("1", "5", "15", "60", "240", "1D"; default: "60")
+ * - csv: Optional "timestamp,price" CSV for the strategy's feed (replaces Benchmarks data for that feed)
+ * - initialBalance: Optional starting tokenIn balance
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const {
+      strategy,
+      days = 30,
+      resolution = "60",
+      csv,
+      initialBalance,
+    } = body as {
+      strategy?: BacktestStrategy;
+      days?: number;
+      resolution?: BenchmarkResolution;
+      csv?: string;
+      initialBalance?: number;
+    };
+
+    if (!strategy || typeof strategy !== "object") {
+      return NextResponse.json({ success: false, error: "strategy is required" }, { status: 400 });
+    }
+
+    const strategyError = validateBacktestStrategy(strategy, [...PRICE_FEED_SYMBOLS]);
+    if (strategyError) {
+      return NextResponse.json({ success: false, error: strategyError }, { status: 400 });
+    }
+
+    if (!RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json({ success: false, error: `Invalid resolution: ${resolution}` }, { status: 400 });
+    }
+
+    if (typeof days !== "number" || !(days > 0) || days > MAX_BACKTEST_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_BACKTEST_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    if (initialBalance !== undefined && (typeof initialBalance !== "number" || !(initialBalance > 0))) {
+      return NextResponse.json(
+        { success: false, error: "initialBalance must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    if (csv !== undefined && typeof csv !== "string") {
+      return NextResponse.json({ success: false, error: "csv must be a string" }, { status: 400 });
+    }
+
+    const feed = strategy.priceFeedSymbol.toUpperCase();
+    const series: PriceSeries = {};
+    let to = Math.floor(Date.now() / 1000);
+    let from = to - days * 86400;
+
+    if (csv) {
+      const points = parsePriceCsv(csv);
+      if (points.length < 2) {
+        return NextResponse.json(
+          { success: false, error: "CSV must contain at least two timestamp,price rows" },
+          { status: 400 }
+        );
+      }
+      series[feed] = points;
+      from = points[0].timestamp;
+      to = points[points.length - 1].timestamp;
+    }
+
+    // Fetch every other feed the strategy needs over the same period
+    const feeds = new Set([feed, ...(strategy.conditions ? getConditionFeeds(strategy.conditions) : [])]);
+    for (const symbol of feeds) {
+      if (!series[symbol]) {
+        series[symbol] = await fetchHistoricalPrices(symbol, from, to, resolution);
+      }
+    }
+
+    const report = runBacktest(strategy, series, { initialBalance });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error: any) {
+    console.error("Error running backtest:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Backtest failed" },
+      { status: 500 }
+    );
+  }
+}
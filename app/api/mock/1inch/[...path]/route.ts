@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getMockOneInchState,
+  handleMockOneInchRequest,
+  injectMockOneInchFailure,
+  resetMockOneInch,
+  setMockOneInchAllowance,
+  type MockOneInchFailure,
+} from "@/lib/mocks/mock-1inch";
+
+/**
+ * Mock 1inch API (development and tests only)
+ *
+ * Point the proxy and server-side calls at it with ONEINCH_API_URL=http://localhost:3000/api/mock/1inch
+ * (ONEINCH_API_KEY must still be set; any value is accepted)
+ *
+ * Routes:
+ * - GET    /api/mock/1inch/swap/v6.0/<chain>/quote|swap                    Deterministic quotes and swap txs
+ * - GET    /api/mock/1inch/approve/v5.2/<chain>/allowance|approve/transaction
+ * - GET    /api/mock/1inch/config                                          Injected failures and allowance
+ * - POST   /api/mock/1inch/config  { failures?: MockOneInchFailure[], allowance?: string }
+ * - DELETE /api/mock/1inch/config                                          Clear failures, reset allowance
+ *
+ * Environment variables:
+ * - MOCK_1INCH_ENABLED: Must be "true" to serve the mock
+ */
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function isEnabled(): boolean {
+  return process.env.MOCK_1INCH_ENABLED === "true";
+}
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  const route = path.join("/");
+
+  if (route === "config") {
+    return NextResponse.json(getMockOneInchState());
+  }
+
+  const { status, body } = handleMockOneInchRequest(route, request.nextUrl.searchParams);
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  if (path.join("/") !== "config") return notFound();
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { failures, allowance } = body as {
+      failures?: MockOneInchFailure[];
+      allowance?: string;
+    };
+
+    for (const failure of failures || []) {
+      injectMockOneInchFailure(failure);
+    }
+    if (allowance !== undefined) {
+      setMockOneInchAllowance(allowance);
+    }
+
+    return NextResponse.json({ success: true, ...getMockOneInchState() });
+  } catch (error: any) {
+    console.error("Error updating mock 1inch config:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update mock 1inch config" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  if (path.join("/") !== "config") return notFound();
+
+  resetMockOneInch();
+  return NextResponse.json({ success: true, ...getMockOneInchState() });
+}
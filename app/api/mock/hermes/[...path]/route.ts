@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildMockPriceUpdate,
+  getMockPricePaths,
+  resetMockHermes,
+  setMockPricePath,
+  type MockPricePath,
+} from "@/lib/mocks/mock-hermes";
+
+/**
+ * Mock Hermes API (development and tests only)
+ *
+ * Point the app at it with HERMES_URL / NEXT_PUBLIC_HERMES_URL=http://localhost:3000/api/mock/hermes
+ *
+ * Routes:
+ * - GET  /api/mock/hermes/v2/updates/price/latest?ids[]=...      Latest prices (Hermes v2 format)
+ * - GET  /api/mock/hermes/v2/updates/price/<publishTime>?ids[]=... Prices at a time
+ * - GET  /api/mock/hermes/paths                                   Scripted price paths
+ * - POST /api/mock/hermes/paths  { feed, path } or { paths: { [feed]: path } }
+ * - DELETE /api/mock/hermes/paths                                 Restore default paths
+ *
+ * Environment variables:
+ * - MOCK_HERMES_ENABLED: Must be "true" to serve the mock
+ */
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function isEnabled(): boolean {
+  return process.env.MOCK_HERMES_ENABLED === "true";
+}
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  const route = path.join("/");
+
+  if (route === "paths") {
+    return NextResponse.json({ paths: getMockPricePaths() });
+  }
+
+  const match = route.match(/^v2\/updates\/price\/(latest|\d+)$/);
+  if (!match) return notFound();
+
+  const searchParams = request.nextUrl.searchParams;
+  const ids = [...searchParams.getAll("ids[]"), ...searchParams.getAll("ids")];
+  if (ids.length === 0) {
+    return NextResponse.json({ error: "At least one ids[] parameter is required" }, { status: 400 });
+  }
+
+  const encoding = searchParams.get("encoding") === "base64" ? "base64" : "hex";
+  const publishTime = match[1] === "latest" ? Math.floor(Date.now() / 1000) : parseInt(match[1]);
+
+  const { response, unknownIds } = buildMockPriceUpdate(ids, publishTime, {
+    encoding,
+    parsed: searchParams.get("parsed") !== "false",
+  });
+
+  if (!response) {
+    return NextResponse.json(
+      { error: `Price ids not found: ${unknownIds.join(", ")}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(response);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  if (path.join("/") !== "paths") return notFound();
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { feed, path: pricePath, paths } = body as {
+      feed?: string;
+      path?: MockPricePath;
+      paths?: Record<string, MockPricePath>;
+    };
+
+    const updates: Record<string, MockPricePath> = { ...paths };
+    if (feed && pricePath) {
+      updates[feed] = pricePath;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: "Provide feed and path, or paths" },
+        { status: 400 }
+      );
+    }
+
+    for (const [feedKey, feedPath] of Object.entries(updates)) {
+      setMockPricePath(feedKey, feedPath);
+    }
+
+    return NextResponse.json({ success: true, paths: getMockPricePaths() });
+  } catch (error: any) {
+    console.error("Error updating mock Hermes paths:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update mock price paths" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  if (!isEnabled()) return notFound();
+
+  const { path } = await params;
+  if (path.join("/") !== "paths") return notFound();
+
+  resetMockHermes();
+  return NextResponse.json({ success: true, paths: getMockPricePaths() });
+}
@@ -1,26 +1,72 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { monitorAgents, getUserAgentIds } from "@/lib/agent/agent-monitor";
+import { getKeeperFromEnv } from "@/lib/agent/agent-keeper";
+import { getIndexedAgentIds, syncRegistryIndex } from "@/lib/agent/agent-indexer";
+import { runDueDcaSchedules } from "@/lib/agent/agent-dca";
+import { refreshFusionOrders } from "@/lib/agent/agent-fusion-orders";
+import { reconcileLimitOrders } from "@/lib/agent/agent-limit-orders";
+import { DEFAULT_CHAIN_ID, isSupportedChain } from "@/lib/chains/chain-registry";
 import { Address, Hash } from "viem";
 
 /**
  * POST /api/monitor/cron
  * 
  * Dedicated endpoint for Vercel cron jobs
- * Monitors all active agents (or agents for configured addresses)
+ * Syncs the registry event index, monitors every active agent on the registry,
+ * executes triggered agents, runs due DCA schedules with the keeper wallet
+ * refreshes the status of open Fusion orders and reconciles limit order fills
  * 
  * Environment variables:
- * - MONITOR_USER_ADDRESSES: Comma-separated list of user addresses to monitor
- * - MONITOR_CHAIN_ID: Chain ID to monitor (default: 84532)
+ * - MONITOR_USER_ADDRESSES: Optional comma-separated list of extra user addresses to monitor
+ *   (used as the only source if the index can't be synced)
+ * - AGENT_REGISTRY_START_BLOCK: Block the index backfill starts from
+ * - MONITOR_CHAIN_ID: Chain ID to monitor (default: DEFAULT_CHAIN_ID, Base Sepolia)
  * - MONITOR_RPC_URL: Optional custom RPC URL
+ * - KEEPER_PRIVATE_KEY: Funded wallet used to execute triggered agents and DCA swaps
+ * - DCA_SLIPPAGE: Slippage tolerance for DCA swaps in percent (default: 1)
+ * - KEEPER_DRY_RUN: Set to "true" to report executions without sending them
+ * - CRON_SECRET: Requests must send "Authorization: Bearer <CRON_SECRET>". Required when
+ *   KEEPER_PRIVATE_KEY is set: the route spends keeper gas, Pyth fees and owner allowances
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const chainId = parseInt(process.env.MONITOR_CHAIN_ID || "84532");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret && process.env.KEEPER_PRIVATE_KEY) {
+      return NextResponse.json(
+        { success: false, error: "CRON_SECRET must be set when a keeper wallet is configured" },
+        { status: 503 }
+      );
+    }
+    if (cronSecret && request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const chainId = parseInt(process.env.MONITOR_CHAIN_ID || String(DEFAULT_CHAIN_ID));
     const rpcUrl = process.env.MONITOR_RPC_URL;
 
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported chain ID: ${chainId}` },
+        { status: 500 }
+      );
+    }
+
+    // Discover active agents from the registry event index
+    const agentIds: Hash[] = [];
+    let indexSync = null;
+
+    try {
+      indexSync = await syncRegistryIndex(chainId, rpcUrl);
+      agentIds.push(...(await getIndexedAgentIds(chainId, { activeOnly: true })));
+    } catch (error) {
+      console.error("Error syncing registry index:", error);
+    }
+
     // Get user addresses from environment variable
     const userAddressesEnv = process.env.MONITOR_USER_ADDRESSES;
-    let agentIds: Hash[] = [];
 
     if (userAddressesEnv) {
       // Get agents for all specified users
@@ -28,14 +74,43 @@ export async function POST() {
       
       for (const userAddress of userAddresses) {
         const userAgentIds = await getUserAgentIds(userAddress, chainId, rpcUrl);
-        agentIds.push(...userAgentIds);
+        agentIds.push(...userAgentIds.filter((agentId) => !agentIds.includes(agentId)));
       }
     }
 
+    // Run recurring buys that are due (independent of price triggers)
+    const keeper = getKeeperFromEnv();
+    let dca = null;
+    try {
+      dca = await runDueDcaSchedules(chainId, rpcUrl, keeper);
+    } catch (error) {
+      console.error("Error running DCA schedules:", error);
+    }
+
+    // Track Fusion orders placed by agents in "fusion" execution mode
+    let fusionOrders = null;
+    try {
+      fusionOrders = await refreshFusionOrders(chainId);
+    } catch (error) {
+      console.error("Error refreshing Fusion orders:", error);
+    }
+
+    // Record fills of limit orders placed from agent strategies
+    let limitOrders = null;
+    try {
+      limitOrders = await reconcileLimitOrders(chainId, rpcUrl);
+    } catch (error) {
+      console.error("Error reconciling limit orders:", error);
+    }
+
     if (agentIds.length === 0) {
       return NextResponse.json({
         success: true,
-        message: "No agents to monitor. Set MONITOR_USER_ADDRESSES environment variable.",
+        message: "No active agents found on the registry.",
+        indexSync,
+        dca,
+        fusionOrders,
+        limitOrders,
         stats: {
           totalAgents: 0,
           activeAgents: 0,
@@ -49,11 +124,23 @@ export async function POST() {
     }
 
     // Monitor all agents
-    const stats = await monitorAgents(agentIds, chainId, rpcUrl);
+    const stats = await monitorAgents(agentIds, chainId, rpcUrl, keeper, { persistState: true });
 
     return NextResponse.json({
       success: true,
-      stats,
+      dryRun: keeper?.dryRun ?? false,
+      indexSync,
+      dca,
+      fusionOrders,
+      limitOrders,
+      stats: {
+        ...stats,
+        results: stats.results.map((result) => ({
+          ...result,
+          currentPrice: result.currentPrice.toString(),
+          feePaid: result.feePaid?.toString(),
+        })),
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Address, Hash } from "viem";
 import { monitorAgent, monitorAgents, getUserAgentIds } from "@/lib/agent/agent-monitor";
+import { DEFAULT_CHAIN_ID, isSupportedChain } from "@/lib/chains/chain-registry";
 
 /**
  * POST /api/monitor
  * 
- * Monitor trading agents and execute trades when triggers are met
+ * Check trading agents' triggers (read-only: without a keeper nothing is executed, and
+ * history and condition state are only written by the cron route)
  * 
  * Body (optional):
  * - agentIds: Array of agent IDs to monitor (if not provided, monitors all)
  * - userAddress: User address to get agents for
- * - chainId: Chain ID (default: 84532 for Base Sepolia)
+ * - chainId: Chain ID (default: DEFAULT_CHAIN_ID, Base Sepolia)
  * - rpcUrl: Optional custom RPC URL
  */
 export async function POST(request: NextRequest) {
@@ -19,10 +21,17 @@ export async function POST(request: NextRequest) {
     const {
       agentIds,
       userAddress,
-      chainId = 84532,
+      chainId = DEFAULT_CHAIN_ID,
       rpcUrl,
     } = body;
 
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported chain ID: ${chainId}` },
+        { status: 400 }
+      );
+    }
+
     // Get agent IDs
     let agentIdsToMonitor: Hash[] = [];
 
@@ -80,13 +89,14 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/monitor?agentId=...&chainId=...
  * 
- * Monitor a single agent
+ * Monitor a single agent (read-only: reports the trigger without executing it or
+ * writing history and condition state)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const agentId = searchParams.get("agentId");
-    const chainId = parseInt(searchParams.get("chainId") || "84532");
+    const chainId = parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID));
     const rpcUrl = searchParams.get("rpcUrl") || undefined;
 
     if (!agentId) {
@@ -99,6 +109,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!isSupportedChain(chainId)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported chain ID: ${chainId}` },
+        { status: 400 }
+      );
+    }
+
     const result = await monitorAgent(agentId as Hash, chainId, rpcUrl);
 
     return NextResponse.json({
@@ -1,7 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import { useConnection, useChainId, useWriteContract } from "wagmi";
+import { erc20Abi, isAddressEqual, type Address } from "viem";
+import {
+  useConnection,
+  useChainId,
+  usePublicClient,
+  useSignMessage,
+  useWriteContract,
+} from "wagmi";
 import { useRouter } from "next/navigation";
 import { Navigation } from "@/components/navigation";
 import {
@@ -11,12 +18,60 @@ import {
   TRADING_AGENT_REGISTRY_ABI,
   type CreateAgentParams,
 } from "@/lib/agent/agent-registry";
+import {
+  describeCondition,
+  getConditionFeeds,
+  getConditionsMessage,
+  validateCondition,
+  type ConditionGroup,
+  type ConditionOperator,
+  type PercentChangeCondition,
+  type PriceCondition,
+  type RatioCondition,
+  type StrategyCondition,
+  type TakeProfitStopLossCondition,
+  type TrailingStopCondition,
+} from "@/lib/agent/strategy-conditions";
+import {
+  getDcaMessage,
+  validateDcaSettings,
+  type DcaSettings,
+} from "@/lib/agent/dca-schedule";
+import type { BacktestReport, BacktestStrategy } from "@/lib/agent/agent-backtest";
+import { parseTokenAmount } from "@/lib/1inch/1inch-service";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/chains/chain-registry";
+import { getTokenDecimals } from "@/lib/tokens/token-registry";
+import { PRICE_FEED_SYMBOLS } from "@/lib/privy/pyth-contract";
+
+type ConditionRow = PriceCondition | RatioCondition;
+
+type TriggerType =
+  | "threshold"
+  | "conditions"
+  | "percentChange"
+  | "trailingStop"
+  | "takeProfitStopLoss"
+  | "dca";
+
+const TRIGGER_TYPE_LABELS: Record<TriggerType, string> = {
+  threshold: "Price Threshold",
+  conditions: "Multi-Condition",
+  percentChange: "Percent Move",
+  trailingStop: "Trailing Stop",
+  takeProfitStopLoss: "TP / SL",
+  dca: "Recurring Buy",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 text-white placeholder-gray-500 backdrop-blur-sm transition-all duration-200 focus:border-indigo-500 focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
 
 export default function CreateAgentPage() {
   const { address } = useConnection();
   const chainId = useChainId();
   const router = useRouter();
+  const publicClient = usePublicClient();
   const { writeContractAsync, isPending } = useWriteContract();
+  const { signMessageAsync } = useSignMessage();
 
   const [formData, setFormData] = useState<CreateAgentParams>({
     agentName: "",
@@ -30,9 +85,130 @@ export default function CreateAgentPage() {
     cooldownPeriod: 3600,
   });
 
+  const [triggerType, setTriggerType] = useState<TriggerType>("threshold");
+  const [percentChange, setPercentChange] = useState<PercentChangeCondition>({
+    kind: "percentChange",
+    feed: "ETH",
+    direction: "down",
+    percent: 5,
+    windowSeconds: 86400,
+  });
+  const [trailingStop, setTrailingStop] = useState<TrailingStopCondition>({
+    kind: "trailingStop",
+    feed: "ETH",
+    side: "long",
+    trailPercent: 10,
+  });
+  const [takeProfitStopLoss, setTakeProfitStopLoss] = useState<TakeProfitStopLossCondition>({
+    kind: "takeProfitStopLoss",
+    feed: "ETH",
+    takeProfit: 3500,
+    stopLoss: 2500,
+  });
+  const [dcaSettings, setDcaSettings] = useState<DcaSettings>({
+    intervalSeconds: 86400,
+    budget: 1,
+  });
+  const [combinator, setCombinator] = useState<ConditionGroup["combinator"]>("and");
+  const [conditionRows, setConditionRows] = useState<ConditionRow[]>([
+    { kind: "price", feed: "ETH", operator: "below", value: 2800 },
+    { kind: "price", feed: "BTC", operator: "above", value: 60000 },
+  ]);
+
   const [error, setError] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
 
+  const [backtestDays, setBacktestDays] = useState(30);
+  const [backtestCsv, setBacktestCsv] = useState<{ name: string; content: string } | null>(null);
+  const [backtestReport, setBacktestReport] = useState<BacktestReport | null>(null);
+  const [backtesting, setBacktesting] = useState(false);
+
+  /**
+   * Build the agent parameters for the selected trigger type
+   * Throws if the off-chain conditions or DCA settings are invalid
+   */
+  const buildAgentParams = () => {
+    let params: CreateAgentParams = formData;
+    const conditions: StrategyCondition | undefined = {
+      threshold: undefined,
+      conditions: { kind: "group" as const, combinator, conditions: conditionRows },
+      percentChange,
+      trailingStop,
+      takeProfitStopLoss,
+      dca: undefined,
+    }[triggerType];
+
+    if (conditions) {
+      const validationError = validateCondition(conditions, [...PRICE_FEED_SYMBOLS]);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      // The on-chain strategy tracks the first condition's feed
+      params = {
+        ...formData,
+        priceFeedSymbol: getConditionFeeds(conditions)[0],
+        conditions,
+      };
+    }
+
+    const dca = triggerType === "dca" ? dcaSettings : undefined;
+    if (dca) {
+      if (!(formData.amountIn > 0)) {
+        throw new Error("Recurring buys need a fixed amount per swap");
+      }
+      const validationError = validateDcaSettings(dca, formData.amountIn);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      params = { ...formData, dca };
+    }
+
+    return { params, conditions, dca };
+  };
+
+  const handleBacktest = async () => {
+    setBacktesting(true);
+    setError(null);
+    setBacktestReport(null);
+
+    try {
+      const { params, dca } = buildAgentParams();
+
+      // Recurring buys replay as an interval "trigger" below the ceiling, limited by the budget
+      const strategy: BacktestStrategy = dca
+        ? {
+            ...params,
+            triggerPrice: dca.maxPrice ?? 0,
+            triggerAbove: dca.maxPrice === undefined,
+            cooldownPeriod: dca.intervalSeconds,
+          }
+        : params;
+
+      const res = await fetch("/api/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategy,
+          days: backtestDays,
+          csv: backtestCsv?.content,
+          initialBalance: dca?.budget,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Backtest failed");
+      }
+
+      setBacktestReport(data.report);
+    } catch (err: any) {
+      console.error("Error running backtest:", err);
+      setError(err.message || "Backtest failed");
+    } finally {
+      setBacktesting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!address) {
@@ -45,15 +221,53 @@ export default function CreateAgentPage() {
 
     try {
       const agentId = generateAgentId(formData.agentName);
-      const strategy = await prepareStrategy(formData, chainId);
 
-      await writeContractAsync({
+      const { params, conditions, dca } = buildAgentParams();
+      const strategy = await prepareStrategy(params, chainId);
+
+      // Recurring buys pull the owner's tokenIn through an ERC-20 allowance
+      if (dca && [strategy.tokenIn, strategy.tokenOut].some((token) => isAddressEqual(token, NATIVE_TOKEN_ADDRESS))) {
+        throw new Error("Recurring buys swap ERC-20 tokens; use the wrapped native token");
+      }
+
+      // Conditions are stored before the agent exists: its on-chain trigger is always met,
+      // so it must never be live without them
+      if (conditions) {
+        const nonce = Date.now();
+        const signature = await signMessageAsync({
+          message: getConditionsMessage(agentId, conditions, chainId, nonce),
+        });
+        await saveAgentSettings(agentId, "strategy", { chainId, condition: conditions, nonce, signature });
+      }
+
+      const hash = await writeContractAsync({
         address: getAgentRegistryAddress(chainId),
         abi: TRADING_AGENT_REGISTRY_ABI,
         functionName: "createAgent",
         args: [agentId, formData.ensLabel, strategy as any],
       });
 
+      if (dca) {
+        // DCA schedules are checked against the on-chain strategy, so they are stored once the agent exists
+        await publicClient?.waitForTransactionReceipt({ hash });
+        const nonce = Date.now();
+        const signature = await signMessageAsync({ message: getDcaMessage(agentId, dca, chainId, nonce) });
+        await saveAgentSettings(agentId, "dca", { chainId, settings: dca, nonce, signature });
+
+        // Swaps are funded from the owner's wallet: approve the keeper to spend the budget
+        const res = await fetch(`/api/agent/${agentId}/dca?chainId=${chainId}`);
+        const { keeper } = (await res.json().catch(() => ({}))) as { keeper?: Address | null };
+        if (keeper) {
+          const decimals = await getTokenDecimals(strategy.tokenIn, chainId);
+          await writeContractAsync({
+            address: strategy.tokenIn,
+            abi: erc20Abi,
+            functionName: "approve",
+            args: [keeper, BigInt(parseTokenAmount(dca.budget, decimals))],
+          });
+        }
+      }
+
       router.push("/dashboard");
     } catch (err: any) {
       console.error("Error creating agent:", err);
@@ -151,74 +365,124 @@ export default function CreateAgentPage() {
                 <h2 className="text-xl font-bold text-white">Trading Strategy</h2>
               </div>
               <div className="space-y-5">
-                <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
-                  <div>
-                    <label className="mb-2 block text-sm font-semibold text-gray-300">
-                      Price Feed
-                    </label>
-                    <select
-                      value={formData.priceFeedSymbol}
-                      onChange={(e) => setFormData({ ...formData, priceFeedSymbol: e.target.value })}
-                      className="w-full rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 text-white backdrop-blur-sm transition-all duration-200 focus:border-indigo-500 focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
-                    >
-                      <option value="ETH">ETH/USD</option>
-                      <option value="BTC">BTC/USD</option>
-                      <option value="USDC">USDC/USD</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="mb-2 block text-sm font-semibold text-gray-300">
-                      Trigger Price ($)
-                    </label>
-                    <input
-                      type="number"
-                      step="0.01"
-                      value={formData.triggerPrice}
-                      onChange={(e) => setFormData({ ...formData, triggerPrice: parseFloat(e.target.value) })}
-                      required
-                      className="w-full rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 text-white placeholder-gray-500 backdrop-blur-sm transition-all duration-200 focus:border-indigo-500 focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
-                    />
-                  </div>
-                </div>
-
                 <div>
                   <label className="mb-3 block text-sm font-semibold text-gray-300">
-                    Trigger Condition
+                    Trigger Type
                   </label>
-                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-                    <label className="group relative flex cursor-pointer items-center gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4 transition-all duration-200 hover:border-indigo-500/50 hover:bg-gray-800/50">
-                      <input
-                        type="radio"
-                        checked={formData.triggerAbove}
-                        onChange={() => setFormData({ ...formData, triggerAbove: true })}
-                        className="h-4 w-4 border-gray-600 bg-gray-700 text-indigo-600 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900"
-                      />
-                      <div className="flex-1">
-                        <div className="text-sm font-medium text-white">Execute Above</div>
-                        <div className="text-xs text-gray-400">When price exceeds trigger</div>
-                      </div>
-                      {formData.triggerAbove && (
-                        <div className="absolute right-4 h-2 w-2 rounded-full bg-indigo-500"></div>
-                      )}
-                    </label>
-                    <label className="group relative flex cursor-pointer items-center gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4 transition-all duration-200 hover:border-indigo-500/50 hover:bg-gray-800/50">
-                      <input
-                        type="radio"
-                        checked={!formData.triggerAbove}
-                        onChange={() => setFormData({ ...formData, triggerAbove: false })}
-                        className="h-4 w-4 border-gray-600 bg-gray-700 text-indigo-600 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900"
-                      />
-                      <div className="flex-1">
-                        <div className="text-sm font-medium text-white">Execute Below</div>
-                        <div className="text-xs text-gray-400">When price falls below trigger</div>
-                      </div>
-                      {!formData.triggerAbove && (
-                        <div className="absolute right-4 h-2 w-2 rounded-full bg-indigo-500"></div>
-                      )}
-                    </label>
+                  <div className="grid grid-cols-2 gap-3 rounded-xl bg-gray-800/30 p-1 sm:grid-cols-5">
+                    {(Object.keys(TRIGGER_TYPE_LABELS) as TriggerType[]).map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setTriggerType(value)}
+                        className={`rounded-lg px-4 py-2 text-sm font-semibold transition-all duration-200 ${
+                          triggerType === value
+                            ? "bg-indigo-500/20 text-indigo-300"
+                            : "text-gray-400 hover:text-white"
+                        }`}
+                      >
+                        {TRIGGER_TYPE_LABELS[value]}
+                      </button>
+                    ))}
                   </div>
                 </div>
 
+                {triggerType === "conditions" ? (
+                  <ConditionBuilder
+                    combinator={combinator}
+                    conditions={conditionRows}
+                    onCombinatorChange={setCombinator}
+                    onChange={setConditionRows}
+                  />
+                ) : triggerType === "percentChange" ? (
+                  <PercentChangeFields condition={percentChange} onChange={setPercentChange} />
+                ) : triggerType === "trailingStop" ? (
+                  <TrailingStopFields condition={trailingStop} onChange={setTrailingStop} />
+                ) : triggerType === "takeProfitStopLoss" ? (
+                  <TakeProfitStopLossFields
+                    condition={takeProfitStopLoss}
+                    onChange={setTakeProfitStopLoss}
+                  />
+                ) : triggerType === "dca" ? (
+                  <DcaFields
+                    settings={dcaSettings}
+                    priceFeedSymbol={formData.priceFeedSymbol}
+                    tokenIn={formData.tokenIn}
+                    onChange={setDcaSettings}
+                    onPriceFeedChange={(priceFeedSymbol) => setFormData({ ...formData, priceFeedSymbol })}
+                  />
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+                      <div>
+                        <label className="mb-2 block text-sm font-semibold text-gray-300">
+                          Price Feed
+                        </label>
+                        <select
+                          value={formData.priceFeedSymbol}
+                          onChange={(e) => setFormData({ ...formData, priceFeedSymbol: e.target.value })}
+                          className="w-full rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 text-white backdrop-blur-sm transition-all duration-200 focus:border-indigo-500 focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                        >
+                          <option value="ETH">ETH/USD</option>
+                          <option value="BTC">BTC/USD</option>
+                          <option value="USDC">USDC/USD</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="mb-2 block text-sm font-semibold text-gray-300">
+                          Trigger Price ($)
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={formData.triggerPrice}
+                          onChange={(e) => setFormData({ ...formData, triggerPrice: parseFloat(e.target.value) })}
+                          required
+                          className="w-full rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-3 text-white placeholder-gray-500 backdrop-blur-sm transition-all duration-200 focus:border-indigo-500 focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="mb-3 block text-sm font-semibold text-gray-300">
+                        Trigger Condition
+                      </label>
+                      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                        <label className="group relative flex cursor-pointer items-center gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4 transition-all duration-200 hover:border-indigo-500/50 hover:bg-gray-800/50">
+                          <input
+                            type="radio"
+                            checked={formData.triggerAbove}
+                            onChange={() => setFormData({ ...formData, triggerAbove: true })}
+                            className="h-4 w-4 border-gray-600 bg-gray-700 text-indigo-600 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900"
+                          />
+                          <div className="flex-1">
+                            <div className="text-sm font-medium text-white">Execute Above</div>
+                            <div className="text-xs text-gray-400">When price exceeds trigger</div>
+                          </div>
+                          {formData.triggerAbove && (
+                            <div className="absolute right-4 h-2 w-2 rounded-full bg-indigo-500"></div>
+                          )}
+                        </label>
+                        <label className="group relative flex cursor-pointer items-center gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4 transition-all duration-200 hover:border-indigo-500/50 hover:bg-gray-800/50">
+                          <input
+                            type="radio"
+                            checked={!formData.triggerAbove}
+                            onChange={() => setFormData({ ...formData, triggerAbove: false })}
+                            className="h-4 w-4 border-gray-600 bg-gray-700 text-indigo-600 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900"
+                          />
+                          <div className="flex-1">
+                            <div className="text-sm font-medium text-white">Execute Below</div>
+                            <div className="text-xs text-gray-400">When price falls below trigger</div>
+                          </div>
+                          {!formData.triggerAbove && (
+                            <div className="absolute right-4 h-2 w-2 rounded-full bg-indigo-500"></div>
+                          )}
+                        </label>
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
                   <div>
                     <label className="mb-2 block text-sm font-semibold text-gray-300">
@@ -283,6 +547,18 @@ export default function CreateAgentPage() {
             </div>
           </div>
 
+          <BacktestPanel
+            days={backtestDays}
+            csvName={backtestCsv?.name ?? null}
+            report={backtestReport}
+            running={backtesting}
+            tokenIn={formData.tokenIn}
+            tokenOut={formData.tokenOut}
+            onDaysChange={setBacktestDays}
+            onCsvChange={setBacktestCsv}
+            onRun={handleBacktest}
+          />
+
           {error && (
             <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4 backdrop-blur-sm">
               <div className="flex items-center gap-3">
@@ -330,3 +606,518 @@ export default function CreateAgentPage() {
     </div>
   );
 }
+
+/**
+ * Store an agent's signed off-chain settings (conditions or DCA schedule)
+ */
+async function saveAgentSettings(agentId: string, route: "strategy" | "dca", body: Record<string, unknown>) {
+  const res = await fetch(`/api/agent/${agentId}/${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save strategy settings");
+  }
+}
+
+function ConditionBuilder({
+  combinator,
+  conditions,
+  onCombinatorChange,
+  onChange,
+}: {
+  combinator: ConditionGroup["combinator"];
+  conditions: ConditionRow[];
+  onCombinatorChange: (combinator: ConditionGroup["combinator"]) => void;
+  onChange: (conditions: ConditionRow[]) => void;
+}) {
+  const updateRow = (index: number, row: ConditionRow) => {
+    onChange(conditions.map((existing, i) => (i === index ? row : existing)));
+  };
+
+  const changeKind = (index: number, kind: ConditionRow["kind"]) => {
+    const { operator, value } = conditions[index];
+    updateRow(
+      index,
+      kind === "price"
+        ? { kind, feed: "ETH", operator, value }
+        : { kind, baseFeed: "ETH", quoteFeed: "BTC", operator, value }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="text-sm font-semibold text-gray-300">Execute when</span>
+        <select
+          value={combinator}
+          onChange={(e) => onCombinatorChange(e.target.value as ConditionGroup["combinator"])}
+          className="rounded-xl border border-gray-700/50 bg-gray-800/50 px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none"
+        >
+          <option value="and">all conditions hold (AND)</option>
+          <option value="or">any condition holds (OR)</option>
+        </select>
+      </div>
+
+      {conditions.map((row, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-1 gap-3 rounded-xl border border-gray-700/50 bg-gray-800/30 p-4 sm:grid-cols-[auto_1fr_auto_1fr_auto]"
+        >
+          <select
+            value={row.kind}
+            onChange={(e) => changeKind(index, e.target.value as ConditionRow["kind"])}
+            className={inputClassName}
+          >
+            <option value="price">Price</option>
+            <option value="ratio">Ratio</option>
+          </select>
+
+          {row.kind === "price" ? (
+            <select
+              value={row.feed}
+              onChange={(e) => updateRow(index, { ...row, feed: e.target.value })}
+              className={inputClassName}
+            >
+              {PRICE_FEED_SYMBOLS.map((symbol) => (
+                <option key={symbol} value={symbol}>{symbol}/USD</option>
+              ))}
+            </select>
+          ) : (
+            <div className="flex gap-2">
+              <select
+                value={row.baseFeed}
+                onChange={(e) => updateRow(index, { ...row, baseFeed: e.target.value })}
+                className={inputClassName}
+              >
+                {PRICE_FEED_SYMBOLS.map((symbol) => (
+                  <option key={symbol} value={symbol}>{symbol}</option>
+                ))}
+              </select>
+              <span className="self-center text-gray-500">/</span>
+              <select
+                value={row.quoteFeed}
+                onChange={(e) => updateRow(index, { ...row, quoteFeed: e.target.value })}
+                className={inputClassName}
+              >
+                {PRICE_FEED_SYMBOLS.map((symbol) => (
+                  <option key={symbol} value={symbol}>{symbol}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <select
+            value={row.operator}
+            onChange={(e) => updateRow(index, { ...row, operator: e.target.value as ConditionOperator })}
+            className={inputClassName}
+          >
+            <option value="above">&gt;</option>
+            <option value="below">&lt;</option>
+            <option value="crossesAbove">crosses above</option>
+            <option value="crossesBelow">crosses below</option>
+          </select>
+
+          <input
+            type="number"
+            step="any"
+            value={row.value}
+            onChange={(e) => updateRow(index, { ...row, value: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+
+          <button
+            type="button"
+            onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+            disabled={conditions.length === 1}
+            className="rounded-xl border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm font-semibold text-red-400 transition-all duration-200 hover:bg-red-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...conditions, { kind: "price", feed: "ETH", operator: "above", value: 3000 }])}
+        className="rounded-xl border border-gray-700/50 bg-gray-800/50 px-4 py-2 text-sm font-semibold text-gray-300 transition-all duration-200 hover:border-indigo-500/50 hover:text-white"
+      >
+        + Add Condition
+      </button>
+
+      <p className="text-xs font-medium text-gray-500">
+        Strategy: <span className="text-indigo-400 font-mono">{describeCondition({ kind: "group", combinator, conditions })}</span>
+      </p>
+    </div>
+  );
+}
+
+function FeedSelect({ value, onChange }: { value: string; onChange: (feed: string) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+      {PRICE_FEED_SYMBOLS.map((symbol) => (
+        <option key={symbol} value={symbol}>{symbol}/USD</option>
+      ))}
+    </select>
+  );
+}
+
+function FieldLabel({ children }: { children: React.ReactNode }) {
+  return <label className="mb-2 block text-sm font-semibold text-gray-300">{children}</label>;
+}
+
+function ConditionSummary({ condition }: { condition: StrategyCondition }) {
+  return (
+    <p className="text-xs font-medium text-gray-500">
+      Strategy: <span className="text-indigo-400 font-mono">{describeCondition(condition)}</span>
+    </p>
+  );
+}
+
+function PercentChangeFields({
+  condition,
+  onChange,
+}: {
+  condition: PercentChangeCondition;
+  onChange: (condition: PercentChangeCondition) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div>
+          <FieldLabel>Price Feed</FieldLabel>
+          <FeedSelect value={condition.feed} onChange={(feed) => onChange({ ...condition, feed })} />
+        </div>
+        <div>
+          <FieldLabel>Direction</FieldLabel>
+          <select
+            value={condition.direction}
+            onChange={(e) => onChange({ ...condition, direction: e.target.value as PercentChangeCondition["direction"] })}
+            className={inputClassName}
+          >
+            <option value="down">Drops by</option>
+            <option value="up">Rises by</option>
+          </select>
+        </div>
+        <div>
+          <FieldLabel>Move (%)</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            value={condition.percent}
+            onChange={(e) => onChange({ ...condition, percent: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <FieldLabel>Within</FieldLabel>
+          <select
+            value={condition.windowSeconds}
+            onChange={(e) => onChange({ ...condition, windowSeconds: parseInt(e.target.value) })}
+            className={inputClassName}
+          >
+            <option value="3600">1 hour</option>
+            <option value="14400">4 hours</option>
+            <option value="86400">24 hours</option>
+            <option value="604800">7 days</option>
+          </select>
+        </div>
+      </div>
+      <ConditionSummary condition={condition} />
+    </div>
+  );
+}
+
+function TrailingStopFields({
+  condition,
+  onChange,
+}: {
+  condition: TrailingStopCondition;
+  onChange: (condition: TrailingStopCondition) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div>
+          <FieldLabel>Price Feed</FieldLabel>
+          <FeedSelect value={condition.feed} onChange={(feed) => onChange({ ...condition, feed })} />
+        </div>
+        <div>
+          <FieldLabel>Position</FieldLabel>
+          <select
+            value={condition.side}
+            onChange={(e) => onChange({ ...condition, side: e.target.value as TrailingStopCondition["side"] })}
+            className={inputClassName}
+          >
+            <option value="long">Long (trail the high)</option>
+            <option value="short">Short (trail the low)</option>
+          </select>
+        </div>
+        <div>
+          <FieldLabel>Trail (%)</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            value={condition.trailPercent}
+            onChange={(e) => onChange({ ...condition, trailPercent: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <ConditionSummary condition={condition} />
+    </div>
+  );
+}
+
+function TakeProfitStopLossFields({
+  condition,
+  onChange,
+}: {
+  condition: TakeProfitStopLossCondition;
+  onChange: (condition: TakeProfitStopLossCondition) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div>
+          <FieldLabel>Price Feed</FieldLabel>
+          <FeedSelect value={condition.feed} onChange={(feed) => onChange({ ...condition, feed })} />
+        </div>
+        <div>
+          <FieldLabel>Take Profit ($)</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            value={condition.takeProfit}
+            onChange={(e) => onChange({ ...condition, takeProfit: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <FieldLabel>Stop Loss ($)</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            value={condition.stopLoss}
+            onChange={(e) => onChange({ ...condition, stopLoss: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Executes when either price is reached. Set take profit below stop loss for short positions.
+      </p>
+      <ConditionSummary condition={condition} />
+    </div>
+  );
+}
+
+function DcaFields({
+  settings,
+  priceFeedSymbol,
+  tokenIn,
+  onChange,
+  onPriceFeedChange,
+}: {
+  settings: DcaSettings;
+  priceFeedSymbol: string;
+  tokenIn: string;
+  onChange: (settings: DcaSettings) => void;
+  onPriceFeedChange: (feed: string) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div>
+          <FieldLabel>Buy Every (hours)</FieldLabel>
+          <input
+            type="number"
+            min="1"
+            step="any"
+            value={settings.intervalSeconds / 3600}
+            onChange={(e) => onChange({ ...settings, intervalSeconds: Math.round(parseFloat(e.target.value) * 3600) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <FieldLabel>Total Budget ({tokenIn})</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            value={settings.budget}
+            onChange={(e) => onChange({ ...settings, budget: parseFloat(e.target.value) })}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <FieldLabel>Price Ceiling Feed</FieldLabel>
+          <FeedSelect value={priceFeedSymbol} onChange={onPriceFeedChange} />
+        </div>
+        <div>
+          <FieldLabel>Price Ceiling ($, optional)</FieldLabel>
+          <input
+            type="number"
+            step="any"
+            placeholder="No ceiling"
+            value={settings.maxPrice ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                maxPrice: e.target.value === "" ? undefined : parseFloat(e.target.value),
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Swaps the amount below every interval until the budget is spent, skipping runs while the price is above the ceiling.
+        Swaps are sent by the keeper wallet from your funds: you approve it to spend the budget of the token you sell,
+        and it sends what it buys back to you.
+      </p>
+    </div>
+  );
+}
+
+function BacktestPanel({
+  days,
+  csvName,
+  report,
+  running,
+  tokenIn,
+  tokenOut,
+  onDaysChange,
+  onCsvChange,
+  onRun,
+}: {
+  days: number;
+  csvName: string | null;
+  report: BacktestReport | null;
+  running: boolean;
+  tokenIn: string;
+  tokenOut: string;
+  onDaysChange: (days: number) => void;
+  onCsvChange: (csv: { name: string; content: string } | null) => void;
+  onRun: () => void;
+}) {
+  const handleFile = async (file: File | undefined) => {
+    onCsvChange(file ? { name: file.name, content: await file.text() } : null);
+  };
+
+  const formatPercent = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+  return (
+    <div className="rounded-2xl border border-gray-800/50 bg-gradient-to-br from-gray-900/80 to-gray-950/80 p-8 shadow-xl backdrop-blur-sm">
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Backtest</h2>
+          <p className="text-xs text-gray-500">Replay this strategy against historical Pyth prices before deploying it</p>
+        </div>
+        <button
+          type="button"
+          onClick={onRun}
+          disabled={running}
+          className="rounded-xl border border-indigo-500/30 bg-indigo-500/10 px-5 py-2.5 text-sm font-semibold text-indigo-300 transition-all duration-200 hover:bg-indigo-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {running ? "Running..." : "Backtest"}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div>
+          <FieldLabel>Period</FieldLabel>
+          <select
+            value={days}
+            onChange={(e) => onDaysChange(parseInt(e.target.value))}
+            disabled={csvName !== null}
+            className={inputClassName}
+          >
+            <option value="7">Last 7 days</option>
+            <option value="30">Last 30 days</option>
+            <option value="90">Last 90 days</option>
+            <option value="365">Last year</option>
+          </select>
+        </div>
+        <div>
+          <FieldLabel>Price CSV (optional)</FieldLabel>
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="w-full text-sm text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-800 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-gray-300"
+            />
+            {csvName && (
+              <button
+                type="button"
+                onClick={() => onCsvChange(null)}
+                className="text-xs font-semibold text-gray-400 hover:text-white"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">timestamp,price rows for the strategy&apos;s feed</p>
+        </div>
+      </div>
+
+      {report && (
+        <div className="mt-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {[
+              { label: "Fills", value: String(report.fills.length) },
+              { label: "Strategy PnL", value: formatPercent(report.pnlPercent) },
+              { label: "Hold PnL", value: formatPercent(report.holdPnlPercent) },
+              { label: "Max Drawdown", value: `-${report.maxDrawdownPercent.toFixed(2)}%` },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-xl border border-gray-700/50 bg-gray-800/50 p-3">
+                <p className="text-xs font-medium text-gray-500">{stat.label}</p>
+                <p className="text-lg font-semibold text-white">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {new Date(report.startTime * 1000).toLocaleDateString()} – {new Date(report.endTime * 1000).toLocaleDateString()}
+            {" · "}{report.points} prices · ${report.initialValue.toFixed(2)} → ${report.finalValue.toFixed(2)}
+            {" "}(hold: ${report.holdValue.toFixed(2)})
+          </p>
+
+          {report.fills.length > 0 && (
+            <div className="max-h-56 overflow-y-auto rounded-xl border border-gray-700/50">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-gray-800/50 text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Time</th>
+                    <th className="px-3 py-2 font-medium">Price</th>
+                    <th className="px-3 py-2 font-medium">{tokenIn} In</th>
+                    <th className="px-3 py-2 font-medium">{tokenOut} Out</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {report.fills.map((fill) => (
+                    <tr key={fill.timestamp} className="border-t border-gray-800/50">
+                      <td className="px-3 py-2">{new Date(fill.timestamp * 1000).toLocaleString()}</td>
+                      <td className="px-3 py-2">${fill.price.toFixed(2)}</td>
+                      <td className="px-3 py-2">{fill.amountIn.toFixed(4)}</td>
+                      <td className="px-3 py-2">{fill.amountOut.toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
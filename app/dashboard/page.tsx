@@ -1,7 +1,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useConnection, useChainId, useReadContract, useWriteContract } from "wagmi";
+import {
+  useConnection,
+  useChainId,
+  useReadContract,
+  useSendTransaction,
+  useSignMessage,
+  useWriteContract,
+} from "wagmi";
 import { Hash } from "viem";
 import { Navigation } from "@/components/navigation";
 import { 
@@ -9,6 +16,29 @@ import {
   TRADING_AGENT_REGISTRY_ABI,
   type Agent 
 } from "@/lib/agent/agent-registry";
+import type { AgentHistoryEntry } from "@/lib/agent/agent-history";
+import type { TriggerDistance } from "@/lib/agent/strategy-conditions";
+import type { DcaSchedule } from "@/lib/agent/dca-schedule";
+import { formatGasCostLimit, type GasCostLimit } from "@/lib/agent/gas-cost";
+import {
+  EXECUTION_MODE_LABELS,
+  MAX_GAS_COST_OPTIONS,
+  MAX_PRICE_DEVIATION_OPTIONS,
+  ORACLE_TOLERANCE_OPTIONS,
+  getExecutionModeMessage,
+  type ExecutionSettings,
+} from "@/lib/agent/execution-mode";
+import type { SwapExecutionMode } from "@/lib/1inch/agent-swap-executor";
+import type { TrackedFusionOrder } from "@/lib/1inch/fusion-service";
+import {
+  cancelLimitOrder,
+  createStrategyLimitOrder,
+  getStrategyLimitOrderTerms,
+  isLimitOrderFinal,
+  type LimitOrderTerms,
+  type TrackedLimitOrder,
+} from "@/lib/1inch/limit-orders";
+import { useAgentSigner } from "@/lib/privy/agent-signer";
 import Link from "next/link";
 
 export default function DashboardPage() {
@@ -193,6 +223,35 @@ function AgentCard({
   chainId: number;
   onDeactivate: (agentId: Hash) => void;
 }) {
+  const [tab, setTab] = useState<"overview" | "history">("overview");
+  const [conditionDescription, setConditionDescription] = useState<string | null>(null);
+  const [triggerDistances, setTriggerDistances] = useState<TriggerDistance[]>([]);
+
+  // Fetch off-chain strategy conditions and the distance to each trigger
+  useEffect(() => {
+    fetch(`/api/agent/${agentId}/strategy?chainId=${chainId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        setConditionDescription(data?.description ?? null);
+        setTriggerDistances(data?.distances ?? []);
+      })
+      .catch(() => setConditionDescription(null));
+  }, [agentId, chainId]);
+
+  const [dcaSchedule, setDcaSchedule] = useState<DcaSchedule | null>(null);
+  const [dcaRemaining, setDcaRemaining] = useState<number | null>(null);
+
+  // Fetch the recurring-buy schedule (DCA agents)
+  useEffect(() => {
+    fetch(`/api/agent/${agentId}/dca?chainId=${chainId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        setDcaSchedule(data?.schedule ?? null);
+        setDcaRemaining(data?.remainingBudget ?? null);
+      })
+      .catch(() => setDcaSchedule(null));
+  }, [agentId, chainId]);
+
   const { data: triggerData } = useReadContract({
     address: getAgentRegistryAddress(chainId),
     abi: TRADING_AGENT_REGISTRY_ABI,
@@ -233,55 +292,137 @@ function AgentCard({
           </span>
         </div>
 
-        {/* Price Info */}
-        <div className="mb-6 space-y-4">
-          <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
-            <p className="text-xs font-medium text-gray-500 mb-1.5">Current Price</p>
-            <p className="text-2xl font-bold text-white">
-              ${priceValue.toFixed(2)}
-            </p>
-            {priceDiff !== 0 && (
-              <p className={`text-xs font-medium mt-1 ${priceDiff > 0 ? "text-green-400" : "text-red-400"}`}>
-                {priceDiff > 0 ? "+" : ""}{priceDiffPercent.toFixed(2)}% from trigger
-              </p>
-            )}
-          </div>
+        {/* Tabs */}
+        <div className="mb-4 flex gap-2 rounded-xl bg-gray-800/30 p-1">
+          {(["overview", "history"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setTab(value)}
+              className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-semibold capitalize transition-all duration-200 ${
+                tab === value
+                  ? "bg-indigo-500/20 text-indigo-300"
+                  : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
 
-          <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
-            <p className="text-xs font-medium text-gray-500 mb-1.5">Trigger Price</p>
-            <div className="flex items-center justify-between">
-              <p className="text-lg font-semibold text-white">
-                ${triggerPrice.toFixed(2)}
-              </p>
-              <span className={`text-xs font-medium px-2 py-1 rounded-lg ${
-                agent.strategy.triggerAbove 
-                  ? "bg-blue-500/20 text-blue-400 border border-blue-500/30" 
-                  : "bg-orange-500/20 text-orange-400 border border-orange-500/30"
-              }`}>
-                {agent.strategy.triggerAbove ? "Above" : "Below"}
-              </span>
-            </div>
-          </div>
+        {tab === "history" ? (
+          <AgentHistory agentId={agentId} chainId={chainId} />
+        ) : (
+          <>
+            {/* Price Info */}
+            <div className="mb-6 space-y-4">
+              <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+                <p className="text-xs font-medium text-gray-500 mb-1.5">Current Price</p>
+                <p className="text-2xl font-bold text-white">
+                  ${priceValue.toFixed(2)}
+                </p>
+                {priceDiff !== 0 && !conditionDescription && !dcaSchedule && (
+                  <p className={`text-xs font-medium mt-1 ${priceDiff > 0 ? "text-green-400" : "text-red-400"}`}>
+                    {priceDiff > 0 ? "+" : ""}{priceDiffPercent.toFixed(2)}% from trigger
+                  </p>
+                )}
+              </div>
 
-          <div className="rounded-xl bg-gradient-to-br from-indigo-500/10 to-purple-500/10 p-4 border border-indigo-500/20">
-            <p className="text-xs font-medium text-gray-400 mb-1.5">Status</p>
-            <div className="flex items-center gap-2">
-              {triggerMet ? (
-                <>
-                  <svg className="h-5 w-5 text-green-400" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  <p className="text-sm font-semibold text-green-400">Trigger Met</p>
-                </>
+              {dcaSchedule ? (
+                <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+                  <p className="text-xs font-medium text-gray-500 mb-1.5">Recurring Buy</p>
+                  <p className="text-sm font-semibold text-white">
+                    Every {(dcaSchedule.intervalSeconds / 3600).toFixed(1)}h
+                    {dcaSchedule.maxPrice !== undefined && ` while ≤ $${dcaSchedule.maxPrice}`}
+                  </p>
+                  <div className="mt-3 grid grid-cols-2 gap-2 text-xs">
+                    <div>
+                      <p className="text-gray-500">Next Run</p>
+                      <p className="text-gray-300">{new Date(dcaSchedule.nextRunAt * 1000).toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Budget Left</p>
+                      <p className="text-gray-300">
+                        {(dcaRemaining ?? 0).toFixed(4)} / {dcaSchedule.budget}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Buys</p>
+                      <p className="text-gray-300">{dcaSchedule.executions}</p>
+                    </div>
+                    {dcaSchedule.lastRunAt && (
+                      <div>
+                        <p className="text-gray-500">Last Run</p>
+                        <p className="text-gray-300">{new Date(dcaSchedule.lastRunAt * 1000).toLocaleString()}</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : conditionDescription ? (
+                <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+                  <p className="text-xs font-medium text-gray-500 mb-1.5">Conditions</p>
+                  <p className="text-sm font-semibold text-white font-mono break-words">{conditionDescription}</p>
+                  {triggerDistances.length > 0 && (
+                    <ul className="mt-3 space-y-1.5">
+                      {triggerDistances.map((distance) => (
+                        <li key={distance.description} className="flex items-center justify-between gap-3 text-xs">
+                          <span className="text-gray-400 font-mono truncate">{distance.description}</span>
+                          <span className="text-gray-300 whitespace-nowrap">
+                            ${distance.target.toFixed(2)}{" "}
+                            <span className={distance.distancePercent >= 0 ? "text-green-400" : "text-red-400"}>
+                              ({distance.distancePercent > 0 ? "+" : ""}{distance.distancePercent.toFixed(2)}%)
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               ) : (
-                <>
-                  <div className="h-2 w-2 rounded-full bg-gray-400 animate-pulse"></div>
-                  <p className="text-sm font-medium text-gray-400">Waiting for trigger...</p>
-                </>
+                <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+                  <p className="text-xs font-medium text-gray-500 mb-1.5">Trigger Price</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-lg font-semibold text-white">
+                      ${triggerPrice.toFixed(2)}
+                    </p>
+                    <span className={`text-xs font-medium px-2 py-1 rounded-lg ${
+                      agent.strategy.triggerAbove 
+                        ? "bg-blue-500/20 text-blue-400 border border-blue-500/30" 
+                        : "bg-orange-500/20 text-orange-400 border border-orange-500/30"
+                    }`}>
+                      {agent.strategy.triggerAbove ? "Above" : "Below"}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="rounded-xl bg-gradient-to-br from-indigo-500/10 to-purple-500/10 p-4 border border-indigo-500/20">
+                <p className="text-xs font-medium text-gray-400 mb-1.5">Status</p>
+                <div className="flex items-center gap-2">
+                  {triggerMet ? (
+                    <>
+                      <svg className="h-5 w-5 text-green-400" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <p className="text-sm font-semibold text-green-400">Trigger Met</p>
+                    </>
+                  ) : (
+                    <>
+                      <div className="h-2 w-2 rounded-full bg-gray-400 animate-pulse"></div>
+                      <p className="text-sm font-medium text-gray-400">Waiting for trigger...</p>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <AgentExecution agentId={agentId} chainId={chainId} />
+
+              {!conditionDescription && !dcaSchedule && (
+                <AgentLimitOrders agentId={agentId} agent={agent} chainId={chainId} />
               )}
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Actions */}
         <div className="pt-4 border-t border-gray-800/50">
@@ -297,3 +438,417 @@ function AgentCard({
     </div>
   );
 }
+
+function AgentHistory({ agentId, chainId }: { agentId: Hash; chainId: number }) {
+  const [entries, setEntries] = useState<AgentHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const res = await fetch(`/api/agent/${agentId}/history?chainId=${chainId}&limit=20`);
+        if (!res.ok) return;
+        const data = await res.json();
+        setEntries(data.entries || []);
+      } catch (err) {
+        console.error("Error fetching agent history:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [agentId, chainId]);
+
+  if (loading) {
+    return (
+      <div className="mb-6 flex h-32 items-center justify-center">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-700 border-t-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="mb-6 rounded-xl bg-gray-800/50 p-4 border border-gray-700/50 text-center">
+        <p className="text-sm text-gray-400">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 max-h-72 space-y-2 overflow-y-auto">
+      {entries.map((entry) => (
+        <div key={entry.id} className="rounded-xl bg-gray-800/50 p-3 border border-gray-700/50">
+          <div className="flex items-center justify-between">
+            <span
+              className={`text-xs font-semibold uppercase ${
+                entry.error ? "text-red-400" : entry.type === "check" ? "text-gray-400" : "text-green-400"
+              }`}
+            >
+              {entry.type}
+              {entry.dryRun ? " (dry run)" : ""}
+            </span>
+            <span className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+          </div>
+          {entry.price && (
+            <p className="mt-1 text-xs text-gray-300">Price: ${(Number(entry.price) / 1e8).toFixed(2)}</p>
+          )}
+          {entry.txHash && (
+            <p className="mt-1 text-xs text-gray-400 font-mono">
+              TX: {entry.txHash.slice(0, 10)}...{entry.txHash.slice(-6)}
+            </p>
+          )}
+          {entry.gasUsed && <p className="mt-1 text-xs text-gray-500">Gas used: {entry.gasUsed}</p>}
+          {entry.error && <p className="mt-1 text-xs text-red-400 break-words">{entry.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AgentExecution({ agentId, chainId }: { agentId: Hash; chainId: number }) {
+  const { signMessageAsync } = useSignMessage();
+  const [mode, setMode] = useState<SwapExecutionMode>("aggregation");
+  const [maxPriceDeviation, setMaxPriceDeviation] = useState<number | null>(null);
+  const [oracleTolerance, setOracleTolerance] = useState<number | null>(null);
+  const [maxGasCost, setMaxGasCost] = useState<GasCostLimit | null>(null);
+  const [percentGasCostSupported, setPercentGasCostSupported] = useState(true);
+  const [fusionSupported, setFusionSupported] = useState(false);
+  const [orders, setOrders] = useState<TrackedFusionOrder[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Fetch the swap execution settings and recent Fusion orders
+  useEffect(() => {
+    fetch(`/api/agent/${agentId}/execution?chainId=${chainId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        setMode(data?.mode ?? "aggregation");
+        setMaxPriceDeviation(data?.maxPriceDeviation ?? null);
+        setOracleTolerance(data?.oracleTolerance ?? null);
+        setMaxGasCost(data?.maxGasCost ?? null);
+        setPercentGasCostSupported(data?.percentGasCostSupported ?? true);
+        setFusionSupported(data?.fusionSupported ?? false);
+        setOrders(data?.fusionOrders ?? []);
+      })
+      .catch(() => setOrders([]));
+  }, [agentId, chainId]);
+
+  const saveSettings = async (settings: ExecutionSettings) => {
+    try {
+      setSaving(true);
+      const nonce = Date.now();
+      const signature = await signMessageAsync({
+        message: getExecutionModeMessage(agentId, settings, chainId, nonce),
+      });
+      const res = await fetch(`/api/agent/${agentId}/execution`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chainId, ...settings, nonce, signature }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update execution settings");
+      }
+      setMode(data.mode);
+      setMaxPriceDeviation(data.maxPriceDeviation ?? null);
+      setOracleTolerance(data.oracleTolerance ?? null);
+      setMaxGasCost(data.maxGasCost ?? null);
+    } catch (err: any) {
+      console.error("Error updating execution settings:", err);
+      alert(`Failed to update execution settings: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleModeChange = (next: SwapExecutionMode) => {
+    if (next === mode) return;
+    saveSettings({ mode: next });
+  };
+
+  const handleDeviationChange = (next: number) => {
+    if (next === maxPriceDeviation) return;
+    saveSettings({ mode, maxPriceDeviation: next });
+  };
+
+  const handleToleranceChange = (next: number | null) => {
+    if (next === oracleTolerance) return;
+    saveSettings({ mode, oracleTolerance: next });
+  };
+
+  // Gas cost limits are encoded as "<type>:<value>" in the select
+  const encodeGasCost = (limit: GasCostLimit | null) => (limit ? `${limit.type}:${limit.value}` : "");
+  const gasCostOptions = [...MAX_GAS_COST_OPTIONS, ...(maxGasCost ? [maxGasCost] : [])]
+    .filter((limit, index, all) => all.findIndex((other) => encodeGasCost(other) === encodeGasCost(limit)) === index)
+    .sort((a, b) => a.type.localeCompare(b.type) || a.value - b.value);
+
+  const handleGasCostChange = (encoded: string) => {
+    if (encoded === encodeGasCost(maxGasCost)) return;
+    const [type, value] = encoded.split(":");
+    saveSettings({
+      mode,
+      maxGasCost: encoded ? { type: type as GasCostLimit["type"], value: parseFloat(value) } : null,
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-medium text-gray-500">Execution</p>
+        <div className="flex gap-1 rounded-lg bg-gray-900/50 p-0.5">
+          {(Object.keys(EXECUTION_MODE_LABELS) as SwapExecutionMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleModeChange(value)}
+              disabled={saving || (value === "fusion" && !fusionSupported)}
+              title={value === "fusion" && !fusionSupported ? "1inch Fusion is not available on this chain" : undefined}
+              className={`rounded-md px-2.5 py-1 text-xs font-semibold transition-all duration-200 disabled:cursor-not-allowed disabled:opacity-50 ${
+                mode === value ? "bg-indigo-500/20 text-indigo-300" : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {EXECUTION_MODE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === "aggregation" && maxPriceDeviation !== null && (
+        <div className="mt-3 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">Max deviation from oracle</p>
+          <select
+            value={maxPriceDeviation}
+            onChange={(e) => handleDeviationChange(parseFloat(e.target.value))}
+            disabled={saving}
+            className="rounded-md border border-gray-700/50 bg-gray-900/50 px-2 py-1 text-xs text-gray-300 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {[...new Set([...MAX_PRICE_DEVIATION_OPTIONS, maxPriceDeviation])]
+              .sort((a, b) => a - b)
+              .map((value) => (
+                <option key={value} value={value}>
+                  {value}%
+                </option>
+              ))}
+          </select>
+        </div>
+      )}
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">Min output</p>
+        <select
+          value={oracleTolerance ?? ""}
+          onChange={(e) => handleToleranceChange(e.target.value ? parseFloat(e.target.value) : null)}
+          disabled={saving}
+          className="rounded-md border border-gray-700/50 bg-gray-900/50 px-2 py-1 text-xs text-gray-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="">Quote - slippage</option>
+          {[...new Set([...ORACLE_TOLERANCE_OPTIONS, ...(oracleTolerance !== null ? [oracleTolerance] : [])])]
+            .sort((a, b) => a - b)
+            .map((value) => (
+              <option key={value} value={value}>
+                Oracle - {value}%
+              </option>
+            ))}
+        </select>
+      </div>
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">Max gas cost</p>
+        <select
+          value={encodeGasCost(maxGasCost)}
+          onChange={(e) => handleGasCostChange(e.target.value)}
+          disabled={saving}
+          className="rounded-md border border-gray-700/50 bg-gray-900/50 px-2 py-1 text-xs text-gray-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="">No limit</option>
+          {gasCostOptions.map((limit) => (
+            <option
+              key={encodeGasCost(limit)}
+              value={encodeGasCost(limit)}
+              disabled={limit.type === "percent" && !percentGasCostSupported}
+              title={
+                limit.type === "percent" && !percentGasCostSupported
+                  ? "This agent's token has no Pyth price feed; use a USD cap"
+                  : undefined
+              }
+            >
+              {formatGasCostLimit(limit)}
+            </option>
+          ))}
+        </select>
+      </div>
+      {orders.length > 0 && (
+        <ul className="mt-3 space-y-1.5">
+          {orders.slice(0, 3).map((order) => (
+            <li key={order.orderHash} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-gray-400 font-mono truncate">
+                {order.amount} {order.fromToken.startsWith("0x") ? `${order.fromToken.slice(0, 6)}...` : order.fromToken}
+                {" · "}
+                {order.orderHash.slice(0, 8)}...
+              </span>
+              <span
+                className={`whitespace-nowrap font-semibold ${
+                  order.status === "filled"
+                    ? "text-green-400"
+                    : order.status === "pending" || order.status === "partially-filled"
+                      ? "text-yellow-400"
+                      : "text-red-400"
+                }`}
+              >
+                {order.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function AgentLimitOrders({ agentId, agent, chainId }: { agentId: Hash; agent: Agent; chainId: number }) {
+  const { address } = useConnection();
+  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const { signPermit, canSignForAgent } = useAgentSigner();
+  const [terms, setTerms] = useState<LimitOrderTerms | null>(null);
+  const [termsError, setTermsError] = useState<string | null>(null);
+  const [orders, setOrders] = useState<TrackedLimitOrder[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // Derive the order from the strategy (only threshold strategies can be placed)
+  useEffect(() => {
+    getStrategyLimitOrderTerms(agent.strategy, chainId)
+      .then((result) => {
+        setTerms(result);
+        setTermsError(null);
+      })
+      .catch((err) => {
+        setTerms(null);
+        setTermsError(err.message);
+      });
+  }, [agent.strategy, chainId]);
+
+  // Fetch the orders placed from the strategy
+  useEffect(() => {
+    fetch(`/api/agent/${agentId}/limit-orders?chainId=${chainId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setOrders(data?.limitOrders ?? []))
+      .catch(() => setOrders([]));
+  }, [agentId, chainId]);
+
+  const openOrders = orders.filter((order) => !isLimitOrderFinal(order.status));
+  // Orders are signed by the Privy embedded wallet, so only when it owns the agent
+  const canSign = canSignForAgent(agent.owner);
+  // Only the maker can cancel its orders
+  const isOwner = address?.toLowerCase() === agent.owner.toLowerCase();
+
+  const handlePlace = async () => {
+    try {
+      setBusy(true);
+      const placed = await createStrategyLimitOrder({
+        strategy: agent.strategy,
+        chainId,
+        maker: agent.owner,
+        signTypedData: signPermit,
+        writeContract: sendTransaction,
+      });
+
+      const res = await fetch(`/api/agent/${agentId}/limit-orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chainId,
+          order: { data: placed.data, extension: placed.extension, signature: placed.signature },
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to track limit order");
+      }
+      setOrders((current) => [data.order, ...current]);
+    } catch (err: any) {
+      console.error("Error placing limit order:", err);
+      alert(`Failed to place limit order: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (order: TrackedLimitOrder) => {
+    try {
+      setBusy(true);
+      const result = await cancelLimitOrder(order, chainId, sendTransaction);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      // The cancellation is recorded in agent history on the next reconciliation
+      setOrders((current) =>
+        current.map((tracked) =>
+          tracked.orderHash === order.orderHash ? { ...tracked, status: "cancelled" } : tracked
+        )
+      );
+    } catch (err: any) {
+      console.error("Error cancelling limit order:", err);
+      alert(`Failed to cancel limit order: ${err.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!terms && openOrders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl bg-gray-800/50 p-4 border border-gray-700/50">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-medium text-gray-500">Limit Orders</p>
+          {terms && (
+            <p className="mt-0.5 text-xs text-gray-400">
+              {terms.side === "sell" ? "Sell" : "Buy"} at ${terms.limitPrice.toFixed(2)}
+            </p>
+          )}
+        </div>
+        {terms && (
+          <button
+            type="button"
+            onClick={handlePlace}
+            disabled={busy || !canSign || !agent.strategy.isActive || openOrders.length > 0}
+            title={
+              !canSign
+                ? "Connect the agent owner's embedded wallet to sign orders"
+                : openOrders.length > 0
+                  ? "The agent already has an open order"
+                  : undefined
+            }
+            className="rounded-md bg-indigo-500/20 px-2.5 py-1 text-xs font-semibold text-indigo-300 transition-all duration-200 hover:bg-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {busy ? "Working..." : "Place order"}
+          </button>
+        )}
+      </div>
+      {termsError && openOrders.length > 0 && <p className="mt-2 text-xs text-gray-500">{termsError}</p>}
+      {openOrders.length > 0 && (
+        <ul className="mt-3 space-y-1.5">
+          {openOrders.map((order) => (
+            <li key={order.orderHash} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-gray-400 font-mono truncate">
+                {order.orderHash.slice(0, 8)}...
+                {" · "}
+                {((Number(order.filledAmount) / Number(order.makingAmount)) * 100).toFixed(0)}% filled
+                {" · "}
+                expires {new Date(order.expiresAt * 1000).toLocaleDateString()}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleCancel(order)}
+                disabled={busy || !isOwner}
+                className="whitespace-nowrap font-semibold text-red-400 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
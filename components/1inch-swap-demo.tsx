@@ -1,20 +1,23 @@
 "use client";
 
 import { useState } from "react";
-import { useConnection, useChainId, useWriteContract } from "wagmi";
+import { useConnection, useChainId, useSendTransaction } from "wagmi";
 import {
   getSwapQuote,
   formatTokenAmount,
   parseTokenAmount,
-  ONEINCH_CHAINS,
 } from "@/lib/1inch/1inch-service";
-import { getTokenAddress } from "@/lib/1inch/1inch-contract";
+import { DEFAULT_CHAIN_ID } from "@/lib/chains/chain-registry";
+import { getTokenAddress, getTokenDecimals } from "@/lib/tokens/token-registry";
 import { executeAgentSwap, AgentSwapConfig } from "@/lib/1inch/agent-swap-executor";
+import { getSwapProvider } from "@/lib/swap";
+import { useAgentSigner } from "@/lib/privy/agent-signer";
 
 export function OneInchSwapDemo() {
   const { address } = useConnection();
   const chainId = useChainId();
-  const { writeContract } = useWriteContract();
+  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const { signPermit, canSignForAgent } = useAgentSigner();
 
   const [fromToken, setFromToken] = useState("WETH");
   const [toToken, setToToken] = useState("USDC");
@@ -25,7 +28,7 @@ export function OneInchSwapDemo() {
   const [executing, setExecuting] = useState(false);
   const [result, setResult] = useState<string>("");
 
-  const currentChainId = chainId || ONEINCH_CHAINS.BASE_SEPOLIA;
+  const currentChainId = chainId || DEFAULT_CHAIN_ID;
 
   const fetchQuote = async () => {
     if (!address) {
@@ -52,7 +55,8 @@ export function OneInchSwapDemo() {
         return;
       }
 
-      const amountWei = parseTokenAmount(parseFloat(amount), 18);
+      const fromDecimals = await getTokenDecimals(fromTokenAddress, currentChainId);
+      const amountWei = parseTokenAmount(parseFloat(amount), fromDecimals);
 
       const quoteData = await getSwapQuote({
         fromTokenAddress,
@@ -96,16 +100,28 @@ export function OneInchSwapDemo() {
         slippage,
         chainId: currentChainId,
         walletAddress: address,
+        // Permits are signed by the Privy embedded wallet, so only when it is the swap wallet
+        signTypedData: canSignForAgent(address) ? signPermit : undefined,
       };
 
-      const swapResult = await executeAgentSwap(config, writeContract);
+      const swapResult = await executeAgentSwap(config, sendTransaction);
 
       if (swapResult.success) {
+        const approval = swapResult.approvalTxHash
+          ? `\nApproval TX: ${swapResult.approvalTxHash}`
+          : swapResult.permitKind
+            ? `\nApproved with a ${swapResult.permitKind} permit`
+            : "";
+        const deviation =
+          swapResult.priceDeviation !== undefined
+            ? `\nDeviation from oracle: ${swapResult.priceDeviation.toFixed(2)}%`
+            : "";
+        const provider = swapResult.provider ? `\nRouted via ${getSwapProvider(swapResult.provider).name}` : "";
         setResult(
-          `Swap successful! TX: ${swapResult.txHash}\nOutput: ${formatTokenAmount(
+          `Swap successful! TX: ${swapResult.txHash}${approval}${provider}\nOutput: ${formatTokenAmount(
             swapResult.outputAmount || "0",
             quote.toToken.decimals
-          )} ${quote.toToken.symbol}`
+          )} ${quote.toToken.symbol}${deviation}`
         );
       } else {
         setResult(`Swap failed: ${swapResult.error}`);
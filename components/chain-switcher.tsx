@@ -2,9 +2,9 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useChainId, useSwitchChain, useChains } from "wagmi";
-import { baseSepolia, base, mainnet } from "wagmi/chains";
+import { CHAIN_IDS, CHAINS, DEFAULT_CHAIN_ID, getSupportedChains } from "@/lib/chains/chain-registry";
 
-const SUPPORTED_CHAINS = [baseSepolia, base, mainnet];
+const SUPPORTED_CHAINS = getSupportedChains();
 
 export function ChainSwitcher() {
   const chainId = useChainId();
@@ -13,7 +13,7 @@ export function ChainSwitcher() {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const currentChain = chains.find((c) => c.id === chainId) || baseSepolia;
+  const currentChain = chains.find((c) => c.id === chainId) || CHAINS[DEFAULT_CHAIN_ID].chain;
 
   const handleSwitchChain = (targetChainId: number) => {
     if (targetChainId !== chainId) {
@@ -118,11 +118,11 @@ export function ChainSwitcher() {
 
 function getChainColor(chainId: number): string {
   switch (chainId) {
-    case 84532: // Base Sepolia
+    case CHAIN_IDS.BASE_SEPOLIA:
       return "bg-yellow-400";
-    case 8453: // Base
+    case CHAIN_IDS.BASE:
       return "bg-blue-400";
-    case 1: // Mainnet
+    case CHAIN_IDS.ETHEREUM:
       return "bg-green-400";
     default:
       return "bg-gray-400";
@@ -130,15 +130,5 @@ function getChainColor(chainId: number): string {
 }
 
 function getChainShortName(chainId: number): string {
-  switch (chainId) {
-    case 84532:
-      return "Base Sepolia";
-    case 8453:
-      return "Base";
-    case 1:
-      return "Mainnet";
-    default:
-      return "Unknown";
-  }
+  return CHAINS[chainId]?.shortName ?? "Unknown";
 }
-
@@ -5,61 +5,14 @@
  */
 
 import { Address, parseAbi } from "viem";
-
-// Common token addresses
-export const TOKEN_ADDRESSES = {
-  // Base Sepolia
-  BASE_SEPOLIA: {
-    WETH: "0x4200000000000000000000000000000000000006",
-    USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    DAI: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
-  },
-  // Base Mainnet
-  BASE: {
-    WETH: "0x4200000000000000000000000000000000000006",
-    USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    DAI: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
-  },
-} as const;
-
-// 1inch Router addresses (v6)
-export const ONEINCH_ROUTER = {
-  BASE_SEPOLIA: "0x111111125421ca6dc452d289314280a0f8842a65", // Placeholder - check 1inch docs
-  BASE: "0x111111125421ca6dc452d289314280a0f8842a65", // Placeholder - check 1inch docs
-} as const;
+import { getChainConfig } from "@/lib/chains/chain-registry";
 
 /**
  * Get 1inch router address for a chain
+ * @returns Router address, or null if 1inch isn't configured on the chain
  */
 export function get1inchRouterAddress(chainId: number): Address | null {
-  switch (chainId) {
-    case 84532: // Base Sepolia
-      return ONEINCH_ROUTER.BASE_SEPOLIA as Address;
-    case 845845: // Base
-      return ONEINCH_ROUTER.BASE as Address;
-    default:
-      return null;
-  }
-}
-
-/**
- * Get token address by symbol
- */
-export function getTokenAddress(
-  symbol: string,
-  chainId: number
-): Address | null {
-  const chainTokens =
-    chainId === 84532
-      ? TOKEN_ADDRESSES.BASE_SEPOLIA
-      : chainId === 845845
-      ? TOKEN_ADDRESSES.BASE
-      : null;
-
-  if (!chainTokens) return null;
-
-  const upperSymbol = symbol.toUpperCase();
-  return (chainTokens[upperSymbol as keyof typeof chainTokens] as Address) || null;
+  return getChainConfig(chainId).oneInchRouter ?? null;
 }
 
 /**
@@ -8,14 +8,17 @@
  * 4. Balance and allowance checks
  * 
  * Uses 1inch Aggregation API v6 for optimal routing and best prices
+ *
+ * Environment variables:
+ * - ONEINCH_API_KEY: 1inch API key (https://portal.1inch.dev/); server-only, so browser requests
+ *   must go through the /api/1inch proxy to be authenticated
+ * - NEXT_PUBLIC_1INCH_REQUIRE_API_KEY: Set to "false" to send requests without a key (default: true)
+ * - NEXT_PUBLIC_1INCH_USE_PROXY: Set to "false" to call the 1inch API directly from the browser
+ *   instead of through /api/1inch (default: true)
+ * - ONEINCH_API_URL: Optional 1inch API base URL (default: https://api.1inch.dev)
  */
 
-// Supported chains mapping
-export const ONEINCH_CHAINS = {
-  BASE_SEPOLIA: 84532,
-  BASE: 845845,
-  ETHEREUM: 1,
-} as const;
+import { fetchWithRetry } from "./fetch-retry";
 
 export interface SwapQuote {
   fromToken: {
@@ -52,42 +55,85 @@ export interface SwapParams {
   fromAddress: string;
   slippage: number; // Percentage (e.g., 1 for 1%)
   chainId: number;
+  minReturn?: string; // Minimum output in wei; sent instead of slippage (swap only)
   disableEstimate?: boolean;
+  permit?: string; // Encoded EIP-2612 or Permit2 permit used instead of an approval (see permit.ts)
+  usePermit2?: boolean; // Pull the source token through Permit2
+}
+
+export const DEFAULT_ONEINCH_API_URL = "https://api.1inch.dev";
+
+/**
+ * Get the 1inch API base URL used by the proxy and server-side calls
+ * Set ONEINCH_API_URL to use another instance, e.g. the local mock at /api/mock/1inch
+ */
+export function getOneInchApiUrl(): string {
+  return (process.env.ONEINCH_API_URL || DEFAULT_ONEINCH_API_URL).replace(/\/+$/, "");
 }
 
 // 1inch API endpoints (for aggregation API v6)
 const ONEINCH_AGGREGATION_V6 = "/swap/v6.0";
 const ONEINCH_APPROVE_V5 = "/approve/v5.2";
 
+export interface OneInchClientConfig {
+  apiUrl: string; // Base URL for direct requests
+  apiKey: string | null; // Only available server-side
+  requireApiKey: boolean; // Fail before sending a request when no API key is set
+  useProxy: boolean; // Route browser requests through the /api/1inch proxy (avoids CORS issues)
+}
+
+/**
+ * Get the 1inch client configuration from the environment
+ */
+export function getOneInchClientConfig(): OneInchClientConfig {
+  return {
+    apiUrl: getOneInchApiUrl(),
+    apiKey: process.env.ONEINCH_API_KEY || null,
+    requireApiKey: process.env.NEXT_PUBLIC_1INCH_REQUIRE_API_KEY !== "false",
+    useProxy: process.env.NEXT_PUBLIC_1INCH_USE_PROXY !== "false",
+  };
+}
+
+/**
+ * Check whether requests from this context go through the /api/1inch proxy
+ * (relative URLs only resolve in the browser)
+ */
+export function isProxiedRequest(config: OneInchClientConfig): boolean {
+  return typeof window !== "undefined" && config.useProxy;
+}
+
 /**
- * Get API key from environment
- * API keys are now mandatory for 1inch API
+ * Get API key from the client configuration
  * Get your key from: https://portal.1inch.dev/
+ * @throws If no key is set and the configuration requires one
  */
-function getApiKey(): string {
-  const apiKey = process.env.NEXT_PUBLIC_1INCH_API_KEY;
-  if (!apiKey) {
+export function getApiKey(config: OneInchClientConfig): string | null {
+  if (!config.apiKey && config.requireApiKey) {
     throw new Error(
-      "1inch API key is required. Please set NEXT_PUBLIC_1INCH_API_KEY in your .env.local file. " +
+      "1inch API key is required. Please set ONEINCH_API_KEY in your .env.local file " +
+      "(browser requests need the /api/1inch proxy, which adds the key server-side). " +
       "Get your API key from https://portal.1inch.dev/"
     );
   }
-  return apiKey;
+  return config.apiKey;
 }
 
 /**
- * Make request to 1inch API via Next.js API proxy (avoids CORS issues)
- * API key is now mandatory - will throw error if not set
+ * Make request to 1inch API
+ * Browser requests go through the Next.js API proxy (avoids CORS issues) unless useProxy is off;
+ * server-side callers (e.g. the cron route) call the 1inch API directly
  */
 async function fetch1inchAPI(
   endpoint: string,
   params: Record<string, string | number>
 ): Promise<any> {
   try {
-    // Check for API key (will throw if missing)
-    getApiKey();
+    const config = getOneInchClientConfig();
+    // Proxy through Next.js API route, which adds the API key
+    const proxied = isProxiedRequest(config);
+    // Check for API key (throws if missing and required)
+    const apiKey = proxied ? null : getApiKey(config);
 
-    // Use Next.js API route as proxy to avoid CORS issues
     const queryString = new URLSearchParams(
       Object.entries(params).reduce((acc, [key, value]) => {
         acc[key] = String(value);
@@ -95,15 +141,21 @@ async function fetch1inchAPI(
       }, {} as Record<string, string>)
     ).toString();
 
-    // Proxy through Next.js API route
-    const proxyUrl = `/api/1inch?endpoint=${encodeURIComponent(endpoint)}&${queryString}`;
-    
-    const response = await fetch(proxyUrl, {
-      method: "GET",
-      headers: {
-        "Accept": "application/json",
-      },
-    });
+    const requestUrl = proxied
+      ? `/api/1inch?endpoint=${encodeURIComponent(endpoint)}&${queryString}`
+      : `${config.apiUrl}${endpoint}?${queryString}`;
+
+    const headers: HeadersInit = {
+      "Accept": "application/json",
+    };
+    if (apiKey) {
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    // The proxy retries on its side; direct requests (e.g. from the cron route) retry here
+    const response = proxied
+      ? await fetch(requestUrl, { method: "GET", headers })
+      : (await fetchWithRetry(requestUrl, { method: "GET", headers })).response;
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: response.statusText }));
@@ -112,7 +164,7 @@ async function fetch1inchAPI(
       if (response.status === 401) {
         throw new Error(
           "1inch API key is invalid or missing. " +
-          "Please check your NEXT_PUBLIC_1INCH_API_KEY in .env.local. " +
+          "Please check your ONEINCH_API_KEY in .env.local. " +
           "Get your API key from https://portal.1inch.dev/"
         );
       }
@@ -162,6 +214,9 @@ export async function getSwapQuote(
       from: fromAddress,
       slippage: slippage,
       disableEstimate: disableEstimate ? "true" : "false",
+      includeTokensInfo: "true",
+      includeProtocols: "true",
+      includeGas: "true",
     };
 
     const data = await fetch1inchAPI(
@@ -169,13 +224,14 @@ export async function getSwapQuote(
       quoteParams
     );
 
+    // v6 responses use src/dst naming (older versions used from/to)
     return {
-      fromToken: data.fromToken,
-      toToken: data.toToken,
-      toTokenAmount: data.toTokenAmount,
-      fromTokenAmount: data.fromTokenAmount,
+      fromToken: data.srcToken ?? data.fromToken,
+      toToken: data.dstToken ?? data.toToken,
+      toTokenAmount: data.dstAmount ?? data.toTokenAmount,
+      fromTokenAmount: data.fromTokenAmount ?? amount,
       protocols: data.protocols || [],
-      estimatedGas: parseInt(data.estimatedGas || "0", 16),
+      estimatedGas: Number(data.gas ?? data.estimatedGas ?? 0),
     };
   } catch (error) {
     console.error("Error getting swap quote from 1inch:", error);
@@ -199,7 +255,10 @@ export async function getSwapTx(
       fromAddress,
       slippage,
       chainId,
+      minReturn,
       disableEstimate = false,
+      permit,
+      usePermit2 = false,
     } = params;
 
     const swapParams: Record<string, string | number> = {
@@ -207,9 +266,20 @@ export async function getSwapTx(
       dst: toTokenAddress,
       amount: amount,
       from: fromAddress,
-      slippage: slippage,
       disableEstimate: disableEstimate ? "true" : "false",
     };
+    // An explicit minimum output replaces the slippage tolerance
+    if (minReturn) {
+      swapParams.minReturn = minReturn;
+    } else {
+      swapParams.slippage = slippage;
+    }
+    if (permit) {
+      swapParams.permit = permit;
+    }
+    if (usePermit2) {
+      swapParams.usePermit2 = "true";
+    }
 
     const data = await fetch1inchAPI(
       `${ONEINCH_AGGREGATION_V6}/${chainId}/swap`,
@@ -221,7 +291,7 @@ export async function getSwapTx(
       to: data.tx.to,
       data: data.tx.data,
       value: data.tx.value,
-      gas: parseInt(data.tx.gas || "0", 16),
+      gas: Number(data.tx.gas || 0),
       gasPrice: data.tx.gasPrice,
     };
   } catch (error) {
@@ -233,45 +303,29 @@ export async function getSwapTx(
 /**
  * Get token balance for an address
  * Uses viem public client to fetch balances from RPC
- * @param tokenAddress Token contract address (use NATIVE_ETH_ADDRESS for native ETH)
+ * @param tokenAddress Token contract address (use NATIVE_TOKEN_ADDRESS for native ETH)
  * @param walletAddress Wallet address to check
  * @param chainId Chain ID
+ * @param rpcUrl Optional RPC URL (defaults to the chain's public RPC)
  * @returns Token balance as string in wei/smallest unit
  */
 export async function getTokenBalance(
   tokenAddress: string,
   walletAddress: string,
-  chainId: number
+  chainId: number,
+  rpcUrl?: string
 ): Promise<string> {
   try {
     // Dynamic import to avoid SSR issues
-    const { createPublicClient, http, parseAbi } = await import("viem");
-    const { baseSepolia, base, mainnet } = await import("wagmi/chains");
-
-    // Map chain ID to chain config
-    const chainMap: Record<number, any> = {
-      84532: baseSepolia,
-      845845: base,
-      1: mainnet,
-    };
-
-    const chain = chainMap[chainId];
-    if (!chain) {
-      throw new Error(`Unsupported chain ID: ${chainId}`);
-    }
-
-    // Create public client for the chain
-    const publicClient = createPublicClient({
-      chain,
-      transport: http(),
-    });
+    const { parseAbi } = await import("viem");
+    const { createChainPublicClient, NATIVE_TOKEN_ADDRESS } = await import("@/lib/chains/chain-registry");
 
-    // Native ETH address constant
-    const NATIVE_ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeeEeE";
+    // Create public client for the chain (throws for unsupported chains)
+    const publicClient = createChainPublicClient(chainId, rpcUrl);
 
     // Handle native ETH
     if (
-      tokenAddress.toLowerCase() === NATIVE_ETH_ADDRESS.toLowerCase() ||
+      tokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase() ||
       tokenAddress === "0x0000000000000000000000000000000000000000"
     ) {
       const balance = await publicClient.getBalance({
@@ -355,7 +409,7 @@ export async function getApprovalTx(
       to: data.to,
       data: data.data,
       value: data.value || "0",
-      gas: parseInt(data.gas || "0", 16),
+      gas: Number(data.gas || 0),
       gasPrice: data.gasPrice || "0",
     };
   } catch (error) {
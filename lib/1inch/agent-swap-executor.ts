@@ -3,21 +3,59 @@
  * 
  * Handles swap execution for trading agents when price triggers are met
  * Integrates Pyth price feeds, 1inch swaps, and agent strategies
+ *
+ * Swaps are sent through the Aggregation API by default; in "fusion" mode the agent
+ * places a 1inch Fusion order instead (see fusion-service.ts)
+ *
+ * Aggregation quotes are checked against the Pyth price of the pair before swapping
+ * (see oracle-price.ts); the swap is aborted when the quote deviates by more than maxPriceDeviation.
+ * With oracleTolerance set, the minimum output is derived from the oracle price instead of
+ * the quote and slippage, and sent to 1inch as minReturn. Oracle prices older than maxOracleAge
+ * abort the swap.
+ *
+ * Aggregation-mode swaps are quoted by every available swap provider (1inch, Uniswap v3; see
+ * lib/swap) and sent through the one with the best output net of gas.
+ * With maxGasCost set, a swap whose estimated gas costs more is deferred (see gas-cost.ts);
+ * Fusion orders are gasless for the agent and aren't checked.
+ *
+ * Swap transactions are simulated (eth_call) before they are sent; reverts are returned as
+ * structured errors (errorCode) without spending gas (see lib/agent/execution-errors.ts).
  */
 
-import { Address } from "viem";
+import { Address, Hash, erc20Abi, parseAbi } from "viem";
 import {
-  getSwapQuote,
-  getSwapTx,
   getTokenBalance,
-  getTokenAllowance,
   getApprovalTx,
   validateSwapQuote,
   formatTokenAmount,
   parseTokenAmount,
   SwapQuote,
+  SwapTx,
 } from "./1inch-service";
-import { get1inchRouterAddress, getTokenAddress } from "./1inch-contract";
+import { createSwapPermit, type PermitKind, type PermitSigner, type SwapPermit } from "./permit";
+import { isFusionSupported, placeFusionOrder, type FusionOrderStatus } from "./fusion-service";
+import {
+  DEFAULT_MAX_ORACLE_AGE,
+  DEFAULT_MAX_PRICE_DEVIATION,
+  getOracleMinReturn,
+  getOraclePairPrice,
+  getOraclePriceAge,
+  getPriceDeviation,
+  getQuotePrice,
+  type OraclePairPrice,
+} from "./oracle-price";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import type { NewAgentHistoryEntry } from "@/lib/agent/agent-history";
+import { checkGasCost, getTokenUsdPrice, type GasCostCheck, type GasCostLimit } from "@/lib/agent/gas-cost";
+import { decodeExecutionError, type ExecutionErrorCode } from "@/lib/agent/execution-errors";
+import { getSwapProvider, getSwapProviders, type SwapProvider, type SwapProviderId } from "@/lib/swap/swap-provider";
+import { getBestSwapQuote } from "@/lib/swap/quote-routing";
+import {
+  NATIVE_TOKEN_ADDRESS,
+  getTokenAddress,
+  getTokenDecimals,
+  getTokens,
+} from "@/lib/tokens/token-registry";
 
 export interface AgentSwapConfig {
   agentId: string;
@@ -27,23 +65,114 @@ export interface AgentSwapConfig {
   slippage: number; // Slippage tolerance in percentage (e.g., 1 for 1%)
   chainId: number;
   walletAddress: Address;
+  // Recipient of a Fusion order's output (default: walletAddress); aggregation swaps always pay walletAddress
+  receiver?: Address;
+  allowPartialFills?: boolean; // Whether a Fusion order can fill in parts (default: the Fusion preset)
   minExpectedOutput?: string; // Minimum output amount in wei (optional)
+  rpcUrl?: string; // RPC URL for balance and allowance checks (optional, defaults to the chain's public RPC)
+  approvalAmount?: ApprovalAmount; // Router approval sent when allowance is insufficient (default: "exact")
+  mode?: SwapExecutionMode; // How the swap is executed (default: "aggregation")
+  // Maximum deviation of the quote from the Pyth pair price, in percent (default: DEFAULT_MAX_PRICE_DEVIATION)
+  maxPriceDeviation?: number;
+  // Bound the output by the oracle price instead of the quote: minReturn = amount × oracle price × (1 - oracleTolerance%)
+  oracleTolerance?: number;
+  // Pyth pair price captured when the swap was triggered (e.g. by the DCA runner); fetched at swap time when omitted
+  oracle?: OraclePairPrice;
+  maxOracleAge?: number; // Reject Pyth prices older than this, in seconds (default: DEFAULT_MAX_ORACLE_AGE)
+  // Providers to quote in "aggregation" mode (default: every provider available on the chain);
+  // the swap goes through the best output net of gas. "fusion" mode always uses 1inch.
+  providers?: SwapProviderId[];
+  maxGasCost?: GasCostLimit; // Defer the swap when its estimated gas costs more (default: no cap)
+  // Signs EIP-2612 / Permit2 permits so the router is approved without a separate transaction
+  // (e.g. useAgentSigner().signPermit); falls back to an approval transaction when unavailable
+  signTypedData?: PermitSigner;
+  // Optional history recorder (e.g. postAgentHistory in the browser, a history store on the server)
+  recordHistory?: (entry: NewAgentHistoryEntry) => Promise<unknown>;
 }
 
+// Custom errors swaps revert with (OpenZeppelin v5 ERC20, 1inch Aggregation Router v6);
+// require messages and panics are decoded without an ABI
+const SWAP_ERRORS_ABI = parseAbi([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ReturnAmountIsNotEnough(uint256 result, uint256 minReturn)",
+]);
+
+// "exact" approves only the swap amount; "unlimited" approves the maximum so later swaps skip approval
+export type ApprovalAmount = "exact" | "unlimited";
+
+// "aggregation" sends a swap transaction; "fusion" places a gasless Fusion order that resolvers fill
+export type SwapExecutionMode = "aggregation" | "fusion";
+
 export interface SwapExecutionResult {
   success: boolean;
-  txHash?: string;
+  txHash?: string; // Swap transaction
+  approvalTxHash?: string; // Approval sent before the swap (if allowance was insufficient)
+  permitKind?: PermitKind; // Permit passed with the swap instead of an approval transaction
+  orderHash?: string; // Fusion order placed instead of a swap transaction ("fusion" mode)
+  orderStatus?: FusionOrderStatus;
   error?: string;
+  errorCode?: ExecutionErrorCode; // Why the swap failed or would revert (see execution-errors.ts)
   quote?: SwapQuote;
+  provider?: SwapProviderId; // Provider the swap was quoted and sent through
   outputAmount?: string;
+  oraclePrice?: number; // Pyth pair price the quote was checked against (toToken per fromToken)
+  oracleAge?: number; // Age of that price when the swap was checked, in seconds
+  priceDeviation?: number; // Deviation of the quote from the oracle price, in percent
+  minReturnAmount?: string; // Oracle-derived minimum output sent with the swap, in wei (oracleTolerance)
+  deferred?: boolean; // Not sent because gas cost exceeded maxGasCost (error has the reason); retry later
+  gasCostUsd?: number; // Estimated gas cost checked against maxGasCost
+  gasCheckSkipped?: string; // Why maxGasCost couldn't be checked (the swap went ahead)
 }
 
 /**
  * Execute a swap for an agent when trigger conditions are met
+ * The outcome is recorded in agent history when a recorder is configured
  */
 export async function executeAgentSwap(
   config: AgentSwapConfig,
   writeContract: any
+): Promise<SwapExecutionResult> {
+  const result = await performAgentSwap(config, writeContract);
+
+  if (config.recordHistory && config.agentId.startsWith("0x")) {
+    try {
+      await config.recordHistory({
+        agentId: config.agentId as Hash,
+        chainId: config.chainId,
+        type: "swap",
+        success: result.success,
+        txHash: result.txHash,
+        error: result.error,
+        details: {
+          fromToken: config.fromToken,
+          toToken: config.toToken,
+          amount: config.amount,
+          outputAmount: result.outputAmount || "0",
+          ...(result.provider && { provider: result.provider }),
+          ...(result.approvalTxHash && { approvalTxHash: result.approvalTxHash }),
+          ...(result.permitKind && { permitKind: result.permitKind }),
+          ...(result.orderHash && { orderHash: result.orderHash, orderStatus: result.orderStatus ?? "pending" }),
+          ...(result.priceDeviation !== undefined && { priceDeviation: result.priceDeviation }),
+          ...(result.oracleAge !== undefined && { oracleAge: result.oracleAge }),
+          ...(result.minReturnAmount && { minReturnAmount: result.minReturnAmount }),
+          ...(result.deferred && { deferred: true }),
+          ...(result.gasCostUsd !== undefined && { gasCostUsd: result.gasCostUsd }),
+          ...(result.gasCheckSkipped && { gasCheckSkipped: result.gasCheckSkipped }),
+          ...(result.errorCode && { errorCode: result.errorCode }),
+        },
+      });
+    } catch (error) {
+      console.error("Error recording swap history:", error);
+    }
+  }
+
+  return result;
+}
+
+async function performAgentSwap(
+  config: AgentSwapConfig,
+  writeContract: any
 ): Promise<SwapExecutionResult> {
   try {
     const {
@@ -54,8 +183,18 @@ export async function executeAgentSwap(
       chainId,
       walletAddress,
       minExpectedOutput,
+      rpcUrl,
+      approvalAmount = "exact",
+      mode = "aggregation",
+      maxPriceDeviation = DEFAULT_MAX_PRICE_DEVIATION,
+      maxOracleAge = DEFAULT_MAX_ORACLE_AGE,
+      oracleTolerance,
+      signTypedData,
     } = config;
 
+    // Fusion orders are settled by the 1inch router; aggregation swaps go through the best quote
+    let provider: SwapProvider = getSwapProvider("1inch");
+
     // Resolve token addresses
     // Handle native ETH tokens
     const isNativeETH = (token: string) => {
@@ -63,14 +202,11 @@ export async function executeAgentSwap(
       return upper === "ETH" || upper === "NATIVE";
     };
 
-    // Native ETH uses special address in 1inch API
-    const NATIVE_ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeeEeE";
-
     let fromTokenAddress: string | null = null;
     if (fromToken.startsWith("0x") && fromToken.length === 42) {
       fromTokenAddress = fromToken;
     } else if (isNativeETH(fromToken)) {
-      fromTokenAddress = NATIVE_ETH_ADDRESS;
+      fromTokenAddress = NATIVE_TOKEN_ADDRESS;
     } else {
       fromTokenAddress = getTokenAddress(fromToken, chainId);
     }
@@ -79,7 +215,7 @@ export async function executeAgentSwap(
     if (toToken.startsWith("0x") && toToken.length === 42) {
       toTokenAddress = toToken;
     } else if (isNativeETH(toToken)) {
-      toTokenAddress = NATIVE_ETH_ADDRESS;
+      toTokenAddress = NATIVE_TOKEN_ADDRESS;
     } else {
       toTokenAddress = getTokenAddress(toToken, chainId);
     }
@@ -92,97 +228,343 @@ export async function executeAgentSwap(
       chainId,
     });
 
+    const supportedTokens = getTokens(chainId).map((token) => token.symbol).join(", ");
+
     if (!fromTokenAddress) {
       return {
         success: false,
-        error: `Invalid from token: "${fromToken}". Supported tokens: ETH, WETH, USDC, DAI, or a valid 0x address. Chain ID: ${chainId}`,
+        error: `Invalid from token: "${fromToken}". Supported tokens: ${supportedTokens}, or a valid 0x address. Chain ID: ${chainId}`,
       };
     }
 
     if (!toTokenAddress) {
       return {
         success: false,
-        error: `Invalid to token: "${toToken}". Supported tokens: ETH, WETH, USDC, DAI, or a valid 0x address. Chain ID: ${chainId}`,
+        error: `Invalid to token: "${toToken}". Supported tokens: ${supportedTokens}, or a valid 0x address. Chain ID: ${chainId}`,
       };
     }
 
+    if (mode === "fusion") {
+      if (!isFusionSupported(chainId)) {
+        return { success: false, error: `1inch Fusion is not available on chain ${chainId}` };
+      }
+      if (fromTokenAddress === NATIVE_TOKEN_ADDRESS) {
+        return { success: false, error: "Fusion orders can't sell the native token; use the wrapped token instead" };
+      }
+      if (!signTypedData) {
+        return { success: false, error: "Fusion orders must be signed; set signTypedData" };
+      }
+    }
+
     // Check balance
     const balance = await getTokenBalance(
       fromTokenAddress,
       walletAddress,
-      chainId
+      chainId,
+      rpcUrl
     );
 
-    const amountWei = parseTokenAmount(amount, 18); // Assuming 18 decimals for now
+    const fromDecimals = await getTokenDecimals(fromTokenAddress, chainId, rpcUrl);
+    const amountWei = parseTokenAmount(amount, fromDecimals);
     if (BigInt(balance) < BigInt(amountWei)) {
       return {
         success: false,
-        error: `Insufficient balance. Have: ${formatTokenAmount(balance, 18)}, Need: ${amount}`,
+        error: `Insufficient balance. Have: ${formatTokenAmount(balance, fromDecimals)}, Need: ${amount}`,
+        errorCode: "insufficient-balance",
       };
     }
 
-    // Get swap quote
-    const quote = await getSwapQuote({
-      fromTokenAddress,
-      toTokenAddress,
-      amount: amountWei,
-      fromAddress: walletAddress,
-      slippage,
-      chainId,
-    });
+    if (oracleTolerance !== undefined && !(oracleTolerance >= 0 && oracleTolerance < 100)) {
+      return { success: false, error: "oracleTolerance must be a percentage between 0 and 100" };
+    }
+
+    // Pyth pair price: checks aggregation quotes and bounds the output when oracleTolerance is set
+    // (pairs without Pyth feeds aren't checked)
+    let oracle: OraclePairPrice | null = config.oracle ?? null;
+    if (!oracle && (mode === "aggregation" || oracleTolerance !== undefined)) {
+      try {
+        oracle = await getOraclePairPrice(fromTokenAddress, toTokenAddress, chainId);
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Oracle price unavailable: ${error.message || "Unknown error"}`,
+        };
+      }
+    }
 
-    // Validate quote if minimum expected output is specified
-    if (minExpectedOutput && !validateSwapQuote(quote, minExpectedOutput)) {
+    // A stale price can't vouch for the quote or bound the output
+    const oracleAge = oracle ? getOraclePriceAge(oracle) : undefined;
+    if (oracleAge !== undefined && oracleAge > maxOracleAge) {
       return {
         success: false,
-        error: "Quote does not meet minimum output requirements",
-        quote,
+        error: `Oracle price is ${oracleAge}s old (max ${maxOracleAge}s)`,
+        oraclePrice: oracle?.price,
+        oracleAge,
       };
     }
 
-    // Check allowance for non-native tokens
-    if (fromTokenAddress !== NATIVE_ETH_ADDRESS) {
-      const routerAddress = get1inchRouterAddress(chainId);
+    // Minimum output: the oracle price minus the tolerance band (or minExpectedOutput, if higher)
+    let minReturnAmount = minExpectedOutput;
+    let oracleMinReturn: string | undefined;
+    if (oracleTolerance !== undefined) {
+      const referencePrice = oracle?.price;
+      if (!referencePrice) {
+        return {
+          success: false,
+          error: "No oracle price for this pair; the minimum output can't be derived from the oracle",
+        };
+      }
+
+      const toDecimals = await getTokenDecimals(toTokenAddress, chainId, rpcUrl);
+      const minReturn = getOracleMinReturn(
+        BigInt(amountWei),
+        fromDecimals,
+        toDecimals,
+        referencePrice,
+        oracleTolerance
+      );
+      oracleMinReturn =
+        minExpectedOutput && BigInt(minExpectedOutput) > minReturn ? minExpectedOutput : minReturn.toString();
+      minReturnAmount = oracleMinReturn;
+    }
+
+    // Get swap quotes and pick the best provider (Fusion orders are quoted when they are placed)
+    let quote: SwapQuote | undefined;
+    let priceDeviation: number | undefined;
+    let gasCostUsd: number | undefined;
+    let gasCheckSkipped: string | undefined;
+    const oraclePrice = oracle?.price;
+    if (mode === "aggregation") {
+      const providers = getSwapProviders(chainId, config.providers);
+      if (providers.length === 0) {
+        return { success: false, error: `No swap provider available on chain ${chainId}` };
+      }
+
+      const routing = await getBestSwapQuote(
+        {
+          fromTokenAddress,
+          toTokenAddress,
+          amount: amountWei,
+          fromAddress: walletAddress,
+          slippage,
+          chainId,
+          rpcUrl,
+        },
+        providers
+      );
+      provider = routing.best.provider;
+      quote = routing.best.quote;
+
+      // Validate quote if a minimum output is specified (a quote below it would revert on-chain)
+      if (minReturnAmount && !validateSwapQuote(quote, minReturnAmount)) {
+        return {
+          success: false,
+          error: "Quote does not meet minimum output requirements",
+          quote,
+          provider: provider.id,
+          oraclePrice,
+          oracleAge,
+          minReturnAmount: oracleMinReturn,
+        };
+      }
+
+      if (oracle) {
+        priceDeviation = getPriceDeviation(getQuotePrice(quote), oracle.price);
+
+        if (Math.abs(priceDeviation) > maxPriceDeviation) {
+          return {
+            success: false,
+            error: `Quote price deviates ${priceDeviation.toFixed(2)}% from the oracle price (max ${maxPriceDeviation}%)`,
+            quote,
+            provider: provider.id,
+            oraclePrice,
+            oracleAge,
+            priceDeviation,
+          };
+        }
+      }
+
+      // Quotes without a gas estimate can't be checked
+      if (config.maxGasCost && quote.estimatedGas > 0) {
+        let gasCheck: GasCostCheck;
+        try {
+          const fromPriceUsd = oracle?.fromPriceUsd ?? (await getTokenUsdPrice(fromTokenAddress, chainId));
+          gasCheck = await checkGasCost({
+            gasUnits: BigInt(quote.estimatedGas),
+            notionalUsd: fromPriceUsd === null ? null : amount * fromPriceUsd,
+            limit: config.maxGasCost,
+            chainId,
+            rpcUrl,
+          });
+        } catch (error: any) {
+          return {
+            success: false,
+            deferred: true,
+            error: `Gas cost unavailable: ${error.message || "Unknown error"}; deferred to the next run`,
+            quote,
+            provider: provider.id,
+            oraclePrice,
+            oracleAge,
+            priceDeviation,
+          };
+        }
+
+        if (!gasCheck.allowed) {
+          return {
+            success: false,
+            deferred: true,
+            error: gasCheck.reason,
+            quote,
+            provider: provider.id,
+            oraclePrice,
+            oracleAge,
+            priceDeviation,
+            gasCostUsd: gasCheck.gasCostUsd,
+          };
+        }
+        gasCostUsd = gasCheck.gasCostUsd;
+        gasCheckSkipped = gasCheck.skipped;
+      } else if (config.maxGasCost) {
+        gasCheckSkipped = "Gas cost not checked: the quote has no gas estimate";
+      }
+    }
+
+    // Check allowance for non-native tokens and approve the provider's router if needed
+    // (the Aggregation Router v6 is also the Limit Order Protocol contract that settles Fusion orders)
+    let approvalTxHash: string | undefined;
+    let permit: SwapPermit | null = null;
+    if (fromTokenAddress !== NATIVE_TOKEN_ADDRESS) {
+      const routerAddress = provider.getSpender(chainId);
       if (!routerAddress) {
         return {
           success: false,
-          error: "1inch router not found for this chain",
+          error: `${provider.name} router not found for this chain`,
         };
       }
 
-      const allowance = await getTokenAllowance(
+      const allowance = await provider.getAllowance(
         fromTokenAddress,
         walletAddress,
-        chainId
+        chainId,
+        rpcUrl
       );
 
-      if (BigInt(allowance) < BigInt(amountWei)) {
-        // Need approval
-        await getApprovalTx(
-          fromTokenAddress,
-          "unlimited",
-          chainId
-        );
+      if (BigInt(allowance) < BigInt(amountWei) && signTypedData && provider.supportsPermit) {
+        permit = await createSwapPermit({
+          token: fromTokenAddress as Address,
+          owner: walletAddress,
+          spender: routerAddress,
+          amount: BigInt(amountWei),
+          chainId,
+          rpcUrl,
+          signTypedData,
+        }).catch((error) => {
+          console.error("Error signing swap permit, falling back to approval:", error);
+          return null;
+        });
+      }
+
+      if (BigInt(allowance) < BigInt(amountWei) && !permit) {
+        const approval = await approveRouter({
+          tokenAddress: fromTokenAddress as Address,
+          routerAddress,
+          walletAddress,
+          amountWei,
+          approvalAmount,
+          chainId,
+          rpcUrl,
+          writeContract,
+          getApprovalTx: provider.getApprovalTx,
+        });
+
+        approvalTxHash = approval.txHash;
+        if (!approval.success) {
+          return {
+            success: false,
+            error: approval.error,
+            quote,
+            provider: provider.id,
+            approvalTxHash,
+          };
+        }
+      }
+    }
+
+    if (mode === "fusion") {
+      try {
+        const order = await placeFusionOrder({
+          fromTokenAddress: fromTokenAddress as Address,
+          toTokenAddress: toTokenAddress as Address,
+          amount: amountWei,
+          walletAddress,
+          receiver: config.receiver,
+          allowPartialFills: config.allowPartialFills,
+          chainId,
+          signTypedData: signTypedData!,
+          slippage,
+          minReturnAmount,
+          permit,
+          rpcUrl,
+        });
 
-        // Execute approval (this would need to be handled by the caller)
+        return {
+          success: true,
+          orderHash: order.orderHash,
+          orderStatus: "pending",
+          approvalTxHash,
+          permitKind: permit?.kind,
+          outputAmount: order.takingAmount,
+          minReturnAmount: oracleMinReturn,
+        };
+      } catch (error: any) {
         return {
           success: false,
-          error: "Token approval required",
-          quote,
+          error: error.message || "Fusion order failed",
+          approvalTxHash,
         };
       }
     }
 
     // Get swap transaction
-    const swapTx = await getSwapTx({
+    const swapTx = await provider.getSwapTx({
       fromTokenAddress,
       toTokenAddress,
       amount: amountWei,
       fromAddress: walletAddress,
       slippage,
       chainId,
+      rpcUrl,
+      quote: quote!,
+      minReturn: oracleMinReturn,
+      permit: permit?.permit,
+      usePermit2: permit?.kind === "permit2",
     });
 
+    // Simulate the swap so one that would revert (slippage, balance, allowance) doesn't spend gas
+    try {
+      await createChainPublicClient(chainId, rpcUrl).call({
+        account: walletAddress,
+        to: swapTx.to as Address,
+        data: swapTx.data as `0x${string}`,
+        value: BigInt(swapTx.value),
+      });
+    } catch (error) {
+      const simulationError = decodeExecutionError(error, SWAP_ERRORS_ABI);
+      return {
+        success: false,
+        error: simulationError.message,
+        errorCode: simulationError.code,
+        quote,
+        provider: provider.id,
+        approvalTxHash,
+        permitKind: permit?.kind,
+        oraclePrice,
+        oracleAge,
+        priceDeviation,
+        minReturnAmount: oracleMinReturn,
+      };
+    }
+
     // Execute swap
     try {
       const txHash = await writeContract({
@@ -195,14 +577,28 @@ export async function executeAgentSwap(
       return {
         success: true,
         txHash,
+        approvalTxHash,
+        permitKind: permit?.kind,
         quote,
-        outputAmount: quote.toTokenAmount,
+        provider: provider.id,
+        outputAmount: quote?.toTokenAmount,
+        oraclePrice,
+        oracleAge,
+        priceDeviation,
+        minReturnAmount: oracleMinReturn,
+        gasCostUsd,
+        gasCheckSkipped,
       };
     } catch (error: any) {
       return {
         success: false,
         error: error.message || "Swap execution failed",
         quote,
+        provider: provider.id,
+        approvalTxHash,
+        oraclePrice,
+        oracleAge,
+        priceDeviation,
       };
     }
   } catch (error: any) {
@@ -214,6 +610,71 @@ export async function executeAgentSwap(
   }
 }
 
+export interface RouterApprovalParams {
+  tokenAddress: Address;
+  routerAddress: Address;
+  walletAddress: Address;
+  amountWei: string;
+  approvalAmount: ApprovalAmount;
+  chainId: number;
+  rpcUrl?: string;
+  writeContract: any;
+  // Builds the approval transaction (default: the 1inch approve API, for the 1inch router)
+  getApprovalTx?: (tokenAddress: string, amount: string, chainId: number) => Promise<SwapTx>;
+}
+
+/**
+ * Approve a router (the 1inch router by default) to spend a token
+ * Sends the approval, waits for it to be mined and re-checks the allowance on-chain
+ */
+export async function approveRouter(
+  params: RouterApprovalParams
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  const { tokenAddress, routerAddress, walletAddress, amountWei, chainId, rpcUrl } = params;
+
+  const approvalTx = await (params.getApprovalTx ?? getApprovalTx)(
+    tokenAddress,
+    params.approvalAmount === "unlimited" ? "unlimited" : amountWei,
+    chainId
+  );
+
+  let txHash: string;
+  try {
+    txHash = await params.writeContract({
+      to: approvalTx.to as Address,
+      data: approvalTx.data as `0x${string}`,
+      value: BigInt(approvalTx.value),
+      // The approve endpoint doesn't always estimate gas; let the wallet do it then
+      ...(approvalTx.gas > 0 && { gas: BigInt(approvalTx.gas) }),
+    });
+  } catch (error: any) {
+    return { success: false, error: `Token approval failed: ${error.message || "Unknown error"}` };
+  }
+
+  if (!txHash) {
+    return { success: false, error: "Token approval failed: no transaction hash returned" };
+  }
+
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash as Hash });
+  if (receipt.status !== "success") {
+    return { success: false, txHash, error: `Token approval reverted (${txHash})` };
+  }
+
+  // Allowance APIs (e.g. 1inch) can lag behind the chain, so re-check on-chain
+  const allowance = await publicClient.readContract({
+    address: tokenAddress,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [walletAddress, routerAddress],
+  });
+  if (allowance < BigInt(amountWei)) {
+    return { success: false, txHash, error: "Token approval did not raise the router allowance" };
+  }
+
+  return { success: true, txHash };
+}
+
 /**
  * Check if swap is profitable based on price difference
  */
@@ -222,16 +683,7 @@ export function isSwapProfitable(
   expectedPrice: number, // Expected price ratio
   tolerance: number = 0.01 // 1% tolerance
 ): boolean {
-  const fromAmount = formatTokenAmount(
-    quote.fromTokenAmount,
-    quote.fromToken.decimals
-  );
-  const toAmount = formatTokenAmount(
-    quote.toTokenAmount,
-    quote.toToken.decimals
-  );
-
-  const actualPrice = toAmount / fromAmount;
+  const actualPrice = getQuotePrice(quote);
   const minPrice = expectedPrice * (1 - tolerance);
 
   return actualPrice >= minPrice;
@@ -241,8 +693,11 @@ export function isSwapProfitable(
  * Format swap result for display
  */
 export function formatSwapResult(result: SwapExecutionResult): string {
-  if (result.success) {
-    return `Swap successful! TX: ${result.txHash?.slice(0, 10)}...`;
+  if (result.success && result.orderHash) {
+    return `Fusion order placed! Order: ${result.orderHash.slice(0, 10)}... (${result.orderStatus ?? "pending"})`;
+  } else if (result.success) {
+    const approval = result.approvalTxHash ? ` (approval TX: ${result.approvalTxHash.slice(0, 10)}...)` : "";
+    return `Swap successful! TX: ${result.txHash?.slice(0, 10)}...${approval}`;
   } else {
     return `Swap failed: ${result.error}`;
   }
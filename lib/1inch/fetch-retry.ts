@@ -0,0 +1,88 @@
+/**
+ * 1inch Request Retry
+ *
+ * Retries 1inch API requests that fail with a rate limit (429), a server error (5xx) or a
+ * network error, with exponential backoff. A 429 response's Retry-After header takes
+ * precedence over the backoff delay.
+ *
+ * Only GET requests are retried on server and network errors; other methods are retried on
+ * 429 only, since the request was rejected before it was processed.
+ */
+
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first request
+  baseDelayMs?: number; // Delay before the first retry; doubles on each retry
+  maxDelayMs?: number; // Cap on any single delay, including Retry-After
+}
+
+export interface RetryResponse {
+  response: Response;
+  retries: number; // Retries made before this response
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 4000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number, method: string): boolean {
+  return status === 429 || (method === "GET" && status >= 500);
+}
+
+/**
+ * Fetch with retries on rate limits and transient failures
+ * @returns The final response (which may still be an error response) and the retries made
+ * @throws The last network error if every attempt failed to connect
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<RetryResponse> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const method = (init.method ?? "GET").toUpperCase();
+
+  for (let attempt = 1; ; attempt++) {
+    const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+
+    try {
+      const response = await fetch(url, init);
+      if (attempt >= maxAttempts || !isRetryableStatus(response.status, method)) {
+        return { response, retries: attempt - 1 };
+      }
+
+      const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get("Retry-After")) : null;
+      // Discard the body so the connection can be reused
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(Math.min(retryAfter ?? backoff, maxDelayMs));
+    } catch (error) {
+      if (attempt >= maxAttempts || method !== "GET") {
+        throw error;
+      }
+      await sleep(backoff);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * 1inch Fusion Orders
+ *
+ * Intent-based swap mode: instead of sending a swap transaction, the wallet signs a
+ * Fusion order that resolvers fill through a Dutch auction (gasless for the maker and
+ * MEV-protected). Orders are placed with @1inch/fusion-sdk and tracked by hash until
+ * they reach a final state.
+ *
+ * The maker must approve the Limit Order Protocol v4 contract (the same address as the
+ * Aggregation Router v6), or pass a signed permit (see permit.ts).
+ *
+ * Requests use the 1inch client configuration (API key; see getOneInchClientConfig). The /api/1inch
+ * proxy doesn't forward Fusion endpoints, so orders are placed and tracked server-side.
+ */
+
+import {
+  FusionSDK,
+  NetworkEnum,
+  type BlockchainProviderConnector,
+  type OrderStatus,
+} from "@1inch/fusion-sdk";
+import { Address, Hex } from "viem";
+import type { PermitSigner, SwapPermit } from "./permit";
+import { createSdkHttpConnector, getSdkBaseUrl, toSignerTypedData } from "./sdk-connector";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+
+// Fusion API prefix on the 1inch API host
+const FUSION_API_PATH = "/fusion";
+
+export type FusionOrderStatus = `${OrderStatus}`;
+
+export interface FusionOrderParams {
+  fromTokenAddress: Address;
+  toTokenAddress: Address;
+  amount: string; // fromToken amount in wei
+  walletAddress: Address; // Order maker
+  receiver?: Address; // Recipient of the output (default: the maker)
+  allowPartialFills?: boolean; // Let resolvers fill the order in parts (default: the Fusion preset)
+  chainId: number;
+  signTypedData: PermitSigner; // Signs the order as the maker
+  slippage?: number; // Percentage (e.g., 1 for 1%); defaults to the Fusion preset
+  minReturnAmount?: string; // Minimum output in wei (optional)
+  permit?: SwapPermit | null; // Permit for the Limit Order Protocol (instead of an approval)
+  rpcUrl?: string; // RPC URL for the SDK's contract reads (optional)
+}
+
+export interface PlacedFusionOrder {
+  orderHash: string;
+  makingAmount: string; // fromToken amount in wei
+  takingAmount: string; // Minimum output in wei (auction end amount)
+}
+
+export interface FusionOrderState {
+  status: FusionOrderStatus;
+  fillTxHashes: string[];
+  filledAmount: string; // fromToken amount filled so far, in wei
+}
+
+// An order placed for an agent, as tracked between status checks
+export interface TrackedFusionOrder {
+  orderHash: string;
+  fromToken: string;
+  toToken: string;
+  amount: number; // fromToken amount (human-readable)
+  status: FusionOrderStatus;
+  placedAt: number; // Unix timestamp (seconds)
+  updatedAt: number; // Last status check (Unix timestamp, seconds)
+  fillTxHash?: string; // Latest fill transaction
+}
+
+/**
+ * Check whether 1inch Fusion is available on a chain
+ */
+export function isFusionSupported(chainId: number): boolean {
+  return Object.values(NetworkEnum).includes(chainId as NetworkEnum);
+}
+
+/**
+ * Check whether an order can no longer be filled (filled, expired, cancelled, ...)
+ */
+export function isFusionOrderFinal(status: FusionOrderStatus): boolean {
+  return status !== "pending" && status !== "partially-filled";
+}
+
+/**
+ * Blockchain connector for the SDK: orders are signed with the swap wallet's typed-data signer
+ */
+function createBlockchainConnector(
+  chainId: number,
+  signTypedData: PermitSigner,
+  rpcUrl?: string
+): BlockchainProviderConnector {
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+
+  return {
+    signTypedData: (_walletAddress, typedData) => signTypedData(toSignerTypedData(typedData)),
+    ethCall: async (contractAddress, callData) => {
+      const { data } = await publicClient.call({ to: contractAddress as Address, data: callData as Hex });
+      return data ?? "0x";
+    },
+  };
+}
+
+/**
+ * Create a Fusion SDK client for a chain
+ * @param signer Order signer (only needed to place orders)
+ * @throws If Fusion isn't available on the chain
+ */
+function createFusionSDK(chainId: number, signer?: { signTypedData: PermitSigner; rpcUrl?: string }): FusionSDK {
+  if (!isFusionSupported(chainId)) {
+    throw new Error(`1inch Fusion is not available on chain ${chainId}`);
+  }
+
+  return new FusionSDK({
+    url: getSdkBaseUrl(FUSION_API_PATH),
+    network: chainId as NetworkEnum,
+    httpProvider: createSdkHttpConnector(),
+    blockchainProvider: signer
+      ? createBlockchainConnector(chainId, signer.signTypedData, signer.rpcUrl)
+      : undefined,
+  });
+}
+
+/**
+ * Place a Fusion order
+ * The order is quoted, checked against minReturnAmount, signed and submitted to the relayer
+ * @returns Placed order (its status starts as "pending")
+ */
+export async function placeFusionOrder(params: FusionOrderParams): Promise<PlacedFusionOrder> {
+  const { chainId, permit, minReturnAmount } = params;
+  const sdk = createFusionSDK(chainId, { signTypedData: params.signTypedData, rpcUrl: params.rpcUrl });
+
+  const prepared = await sdk.createOrder({
+    fromTokenAddress: params.fromTokenAddress,
+    toTokenAddress: params.toTokenAddress,
+    amount: params.amount,
+    walletAddress: params.walletAddress,
+    receiver: params.receiver,
+    allowPartialFills: params.allowPartialFills,
+    slippage: params.slippage,
+    permit: permit?.permit,
+    isPermit2: permit?.kind === "permit2",
+  });
+
+  if (minReturnAmount && prepared.order.takingAmount < BigInt(minReturnAmount)) {
+    throw new Error("Fusion order does not meet minimum output requirements");
+  }
+
+  const info = await sdk.submitOrder(prepared.order, prepared.quoteId);
+
+  return {
+    orderHash: info.orderHash,
+    makingAmount: prepared.order.makingAmount.toString(),
+    takingAmount: prepared.order.takingAmount.toString(),
+  };
+}
+
+/**
+ * Get the current status of a Fusion order
+ */
+export async function getFusionOrderStatus(orderHash: string, chainId: number): Promise<FusionOrderState> {
+  const response = await createFusionSDK(chainId).getOrderStatus(orderHash);
+
+  return {
+    status: response.status,
+    fillTxHashes: response.fills.map((fill) => fill.txHash),
+    filledAmount: response.fills
+      .reduce((total, fill) => total + BigInt(fill.filledMakerAmount), BigInt(0))
+      .toString(),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * 1inch Swap Subsystem
+ *
+ * Public API of lib/1inch: Aggregation API client (quotes, swaps, allowances),
+ * router helpers, swap permits, oracle price checks, Fusion orders, limit orders and
+ * the agent swap executor.
+ * Client behavior (API key requirement, browser proxy) is configured through
+ * the environment; see getOneInchClientConfig.
+ */
+
+export {
+  DEFAULT_ONEINCH_API_URL,
+  getOneInchApiUrl,
+  getOneInchClientConfig,
+  getSwapQuote,
+  getSwapTx,
+  getTokenBalance,
+  getTokenAllowance,
+  getApprovalTx,
+  validateSwapQuote,
+  formatTokenAmount,
+  parseTokenAmount,
+  type OneInchClientConfig,
+  type SwapQuote,
+  type SwapTx,
+  type SwapParams,
+} from "./1inch-service";
+export { get1inchRouterAddress, encodeSwapTx, ERC20_ABI } from "./1inch-contract";
+export {
+  PERMIT2_ADDRESS,
+  createSwapPermit,
+  getEip2612Domain,
+  type PermitKind,
+  type PermitSigner,
+  type PermitTypedData,
+  type SwapPermit,
+  type SwapPermitParams,
+} from "./permit";
+export {
+  isFusionSupported,
+  isFusionOrderFinal,
+  placeFusionOrder,
+  getFusionOrderStatus,
+  type FusionOrderParams,
+  type FusionOrderState,
+  type FusionOrderStatus,
+  type PlacedFusionOrder,
+  type TrackedFusionOrder,
+} from "./fusion-service";
+export {
+  DEFAULT_MAX_PRICE_DEVIATION,
+  getOraclePairPrice,
+  getQuotePrice,
+  getPriceDeviation,
+  getOracleMinReturn,
+  type OraclePairPrice,
+} from "./oracle-price";
+export {
+  isLimitOrderFinal,
+  getStrategyLimitOrderTerms,
+  createStrategyLimitOrder,
+  getSignedLimitOrder,
+  getCancelLimitOrderTx,
+  cancelLimitOrder,
+  getLimitOrderEvents,
+  applyLimitOrderEvents,
+  type CreateLimitOrderParams,
+  type LimitOrderEvent,
+  type LimitOrderFill,
+  type LimitOrderSide,
+  type LimitOrderStatus,
+  type LimitOrderTerms,
+  type LimitOrderTransactionSender,
+  type PlacedLimitOrder,
+  type SignedLimitOrder,
+  type TrackedLimitOrder,
+} from "./limit-orders";
+export {
+  executeAgentSwap,
+  isSwapProfitable,
+  formatSwapResult,
+  type AgentSwapConfig,
+  type ApprovalAmount,
+  type SwapExecutionMode,
+  type SwapExecutionResult,
+} from "./agent-swap-executor";
@@ -0,0 +1,471 @@
+/**
+ * 1inch Limit Orders
+ *
+ * Native alternative to price triggers: a threshold strategy ("sell ETH for USDC above
+ * $4000") is expressed as a resting 1inch Limit Order Protocol v4 order at the trigger
+ * price, instead of polling Pyth and swapping once the threshold is crossed.
+ * Orders are built and submitted to the 1inch orderbook with @1inch/limit-order-sdk,
+ * signed with the agent signer, and filled on-chain by takers.
+ *
+ * The maker must approve the Limit Order Protocol v4 contract (the same address as the
+ * Aggregation Router v6) for the order amount; the approval has to outlive the order,
+ * so a signed permit can't be used here.
+ *
+ * Fills and cancellations are reconciled from the protocol's OrderFilled and
+ * OrderCancelled events (see getLimitOrderEvents and applyLimitOrderEvents).
+ */
+
+import {
+  Address as SdkAddress,
+  Extension,
+  LimitOrder,
+  MakerTraits,
+  Sdk,
+  type LimitOrderV4Struct,
+} from "@1inch/limit-order-sdk";
+import { Address, Hash, Hex, encodeFunctionData, parseAbi, type SendTransactionParameters } from "viem";
+import { getTokenAllowance } from "./1inch-service";
+import { get1inchRouterAddress } from "./1inch-contract";
+import { approveRouter } from "./agent-swap-executor";
+import type { PermitSigner, PermitTypedData } from "./permit";
+import { createSdkHttpConnector, getSdkBaseUrl, toSignerTypedData } from "./sdk-connector";
+import type { TradingStrategy } from "@/lib/agent/agent-registry";
+import { NATIVE_TOKEN_ADDRESS, createChainPublicClient } from "@/lib/chains/chain-registry";
+import { getPriceFeedSymbol } from "@/lib/privy/pyth-contract";
+import { getToken, getTokenDecimals } from "@/lib/tokens/token-registry";
+
+// Orderbook API prefix on the 1inch API host
+const ORDERBOOK_API_PATH = "/orderbook/v4.1";
+
+// How long an order rests in the orderbook unless cancelled
+const DEFAULT_ORDER_LIFETIME_SECONDS = 7 * 24 * 60 * 60;
+
+// Maximum block range per getLogs request (most RPC providers cap this)
+const LOG_BLOCK_RANGE = BigInt(10000);
+
+// Pyth prices are scaled by 1e8 (same as TradingStrategy.triggerPrice)
+const PRICE_SCALE = BigInt(10) ** BigInt(8);
+
+const LIMIT_ORDER_PROTOCOL_ABI = parseAbi([
+  "event OrderFilled(bytes32 orderHash, uint256 remainingAmount)",
+  "event OrderCancelled(bytes32 orderHash)",
+  "function cancelOrder(uint256 makerTraits, bytes32 orderHash)",
+]);
+
+export type LimitOrderStatus = "open" | "partially-filled" | "filled" | "cancelled" | "expired";
+
+export type LimitOrderSide = "sell" | "buy";
+
+// Order amounts derived from a strategy
+export interface LimitOrderTerms {
+  side: LimitOrderSide; // "sell" the priced asset above the trigger, or "buy" it below
+  makerAsset: Address; // strategy.tokenIn
+  takerAsset: Address; // strategy.tokenOut
+  makingAmount: bigint; // strategy.amountIn
+  takingAmount: bigint; // Output at the trigger price
+  limitPrice: number; // Trigger price (USD)
+}
+
+// A signed order as submitted to the orderbook
+export interface SignedLimitOrder {
+  data: LimitOrderV4Struct;
+  extension: Hex;
+  signature: Hex;
+}
+
+// Sends a transaction from the maker (e.g. wagmi's sendTransaction) and returns its hash
+export type LimitOrderTransactionSender = (
+  tx: Pick<SendTransactionParameters, "to" | "data" | "value" | "gas">
+) => Promise<Hash>;
+
+export interface CreateLimitOrderParams {
+  strategy: TradingStrategy;
+  chainId: number;
+  maker: Address; // Agent owner (signs the order and holds strategy.tokenIn)
+  signTypedData: PermitSigner; // Signs the order as the maker
+  writeContract?: LimitOrderTransactionSender; // Sends the router approval when the allowance is insufficient
+  expiresInSeconds?: number; // Order lifetime (default: 7 days)
+  rpcUrl?: string;
+}
+
+export interface PlacedLimitOrder extends SignedLimitOrder {
+  orderHash: Hash;
+  expiresAt: number; // Unix timestamp (seconds)
+  approvalTxHash?: string; // Approval sent before placing the order
+}
+
+// An order placed for an agent, as tracked between reconciliations
+export interface TrackedLimitOrder {
+  orderHash: Hash;
+  maker: Address;
+  makerTraits: string;
+  makerAsset: Address;
+  takerAsset: Address;
+  makingAmount: string; // In wei
+  takingAmount: string; // In wei
+  filledAmount: string; // makerAsset amount filled so far, in wei
+  status: LimitOrderStatus;
+  expiresAt: number; // Unix timestamp (seconds)
+  placedAt: number; // Unix timestamp (seconds)
+  checkedBlock: string; // Last block scanned for the order's events
+  lastFillTxHash?: string;
+}
+
+export interface LimitOrderEvent {
+  orderHash: Hash;
+  type: "fill" | "cancel";
+  remainingAmount?: bigint; // makerAsset amount left after a fill
+  txHash: Hash;
+  blockNumber: bigint;
+}
+
+export interface LimitOrderFill {
+  orderHash: Hash;
+  txHash: Hash;
+  makingAmount: bigint; // makerAsset amount sold in the fill
+  takingAmount: bigint; // takerAsset amount received (at the order rate)
+}
+
+/**
+ * Check whether an order can no longer be filled
+ */
+export function isLimitOrderFinal(status: LimitOrderStatus): boolean {
+  return status !== "open" && status !== "partially-filled";
+}
+
+/**
+ * Check whether a token is priced in USD (a stablecoin on the USDC feed)
+ */
+function isUsdToken(token: Address, chainId: number): boolean {
+  return getToken(token, chainId)?.priceFeed === "USDC";
+}
+
+/**
+ * Derive limit order amounts from a threshold strategy
+ * Supported shapes:
+ * - Sell: triggerAbove, tokenIn priced by the strategy feed, tokenOut a USD stablecoin
+ * - Buy: trigger below, tokenOut priced by the strategy feed, tokenIn a USD stablecoin
+ * @throws If the strategy can't be expressed as a limit order
+ */
+export async function getStrategyLimitOrderTerms(
+  strategy: TradingStrategy,
+  chainId: number,
+  rpcUrl?: string
+): Promise<LimitOrderTerms> {
+  const { tokenIn, tokenOut, amountIn, triggerPrice } = strategy;
+
+  if (triggerPrice === BigInt(0)) {
+    throw new Error("Strategy has no trigger price");
+  }
+  if (tokenIn === NATIVE_TOKEN_ADDRESS || tokenOut === NATIVE_TOKEN_ADDRESS) {
+    throw new Error("Limit orders trade ERC20 tokens only (use WETH instead of ETH)");
+  }
+
+  const feedSymbol = getPriceFeedSymbol(strategy.priceFeedId);
+  const pricedByFeed = (token: Address) =>
+    feedSymbol !== null && getToken(token, chainId)?.priceFeed === feedSymbol;
+
+  const side: LimitOrderSide | null =
+    strategy.triggerAbove && pricedByFeed(tokenIn) && isUsdToken(tokenOut, chainId)
+      ? "sell"
+      : !strategy.triggerAbove && pricedByFeed(tokenOut) && isUsdToken(tokenIn, chainId)
+        ? "buy"
+        : null;
+
+  if (!side) {
+    throw new Error(
+      "Only strategies that sell the priced token above the trigger or buy it below the trigger " +
+        "with a USD stablecoin can be placed as limit orders"
+    );
+  }
+
+  const [decimalsIn, decimalsOut] = await Promise.all([
+    getTokenDecimals(tokenIn, chainId, rpcUrl),
+    getTokenDecimals(tokenOut, chainId, rpcUrl),
+  ]);
+  const scaleIn = BigInt(10) ** BigInt(decimalsIn);
+  const scaleOut = BigInt(10) ** BigInt(decimalsOut);
+
+  const takingAmount =
+    side === "sell"
+      ? (amountIn * triggerPrice * scaleOut) / (PRICE_SCALE * scaleIn)
+      : (amountIn * PRICE_SCALE * scaleOut) / (triggerPrice * scaleIn);
+
+  if (takingAmount === BigInt(0)) {
+    throw new Error("Order amount is too small");
+  }
+
+  return {
+    side,
+    makerAsset: tokenIn,
+    takerAsset: tokenOut,
+    makingAmount: amountIn,
+    takingAmount,
+    limitPrice: Number(triggerPrice) / Number(PRICE_SCALE),
+  };
+}
+
+/**
+ * Create an orderbook SDK client for a chain
+ * The API key is added by the HTTP connector, so no auth key is passed here
+ */
+function createOrderbookSDK(chainId: number): Sdk {
+  return new Sdk({
+    authKey: "",
+    networkId: chainId,
+    httpConnector: createSdkHttpConnector(),
+    baseUrl: getSdkBaseUrl(ORDERBOOK_API_PATH),
+  });
+}
+
+/**
+ * Create, sign and submit a limit order for a strategy
+ * Approves the Limit Order Protocol for strategy.amountIn first if the allowance is short
+ */
+export async function createStrategyLimitOrder(params: CreateLimitOrderParams): Promise<PlacedLimitOrder> {
+  const { strategy, chainId, maker, rpcUrl } = params;
+  const terms = await getStrategyLimitOrderTerms(strategy, chainId, rpcUrl);
+
+  const routerAddress = get1inchRouterAddress(chainId);
+  if (!routerAddress) {
+    throw new Error("1inch router not found for this chain");
+  }
+
+  let approvalTxHash: string | undefined;
+  const allowance = await getTokenAllowance(terms.makerAsset, maker, chainId);
+  if (BigInt(allowance) < terms.makingAmount) {
+    if (!params.writeContract) {
+      throw new Error("Insufficient allowance for the Limit Order Protocol");
+    }
+
+    const approval = await approveRouter({
+      tokenAddress: terms.makerAsset,
+      routerAddress,
+      walletAddress: maker,
+      amountWei: terms.makingAmount.toString(),
+      approvalAmount: "exact",
+      chainId,
+      rpcUrl,
+      writeContract: params.writeContract,
+    });
+    if (!approval.success) {
+      throw new Error(approval.error || "Token approval failed");
+    }
+    approvalTxHash = approval.txHash;
+  }
+
+  const expiresAt =
+    Math.floor(Date.now() / 1000) + (params.expiresInSeconds ?? DEFAULT_ORDER_LIFETIME_SECONDS);
+  const makerTraits = MakerTraits.default()
+    .withExpiration(BigInt(expiresAt))
+    .allowPartialFills()
+    .allowMultipleFills();
+
+  const sdk = createOrderbookSDK(chainId);
+  const order = await sdk.createOrder(
+    {
+      makerAsset: new SdkAddress(terms.makerAsset),
+      takerAsset: new SdkAddress(terms.takerAsset),
+      makingAmount: terms.makingAmount,
+      takingAmount: terms.takingAmount,
+      maker: new SdkAddress(maker),
+    },
+    makerTraits
+  );
+
+  const signature = await params.signTypedData(toSignerTypedData(order.getTypedData(chainId)));
+  await sdk.submitOrder(order, signature);
+
+  return {
+    data: order.build(),
+    extension: order.extension.encode() as Hex,
+    signature,
+    orderHash: order.getOrderHash(chainId) as Hash,
+    expiresAt,
+    approvalTxHash,
+  };
+}
+
+/**
+ * Rebuild a signed order to check it and derive its hash and typed data
+ */
+export function getSignedLimitOrder(
+  chainId: number,
+  signed: SignedLimitOrder
+): { order: LimitOrder; orderHash: Hash; typedData: PermitTypedData } {
+  const order = LimitOrder.fromDataAndExtension(signed.data, Extension.decode(signed.extension));
+
+  return {
+    order,
+    orderHash: order.getOrderHash(chainId) as Hash,
+    typedData: toSignerTypedData(order.getTypedData(chainId)),
+  };
+}
+
+/**
+ * Build the transaction that cancels an order (sent by the maker)
+ */
+export function getCancelLimitOrderTx(
+  order: Pick<TrackedLimitOrder, "orderHash" | "makerTraits">,
+  chainId: number
+): { to: Address; data: Hex; value: bigint } {
+  const routerAddress = get1inchRouterAddress(chainId);
+  if (!routerAddress) {
+    throw new Error("1inch router not found for this chain");
+  }
+
+  return {
+    to: routerAddress,
+    data: encodeFunctionData({
+      abi: LIMIT_ORDER_PROTOCOL_ABI,
+      functionName: "cancelOrder",
+      args: [BigInt(order.makerTraits), order.orderHash],
+    }),
+    value: BigInt(0),
+  };
+}
+
+/**
+ * Cancel an order on-chain and wait for the transaction to be mined
+ */
+export async function cancelLimitOrder(
+  order: Pick<TrackedLimitOrder, "orderHash" | "makerTraits">,
+  chainId: number,
+  writeContract: LimitOrderTransactionSender,
+  rpcUrl?: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const txHash = await writeContract(getCancelLimitOrderTx(order, chainId));
+    if (!txHash) {
+      return { success: false, error: "Cancellation failed: no transaction hash returned" };
+    }
+
+    const publicClient = createChainPublicClient(chainId, rpcUrl);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== "success") {
+      return { success: false, txHash, error: `Cancellation reverted (${txHash})` };
+    }
+
+    return { success: true, txHash };
+  } catch (error: any) {
+    console.error("Error cancelling limit order:", error);
+    return { success: false, error: error.message || "Unknown error" };
+  }
+}
+
+/**
+ * Read fills and cancellations from the Limit Order Protocol
+ * Order hashes aren't indexed in the events, so every event in the range is returned
+ * @returns Events in chain order and the last block scanned
+ */
+export async function getLimitOrderEvents(
+  chainId: number,
+  fromBlock: bigint,
+  rpcUrl?: string
+): Promise<{ events: LimitOrderEvent[]; toBlock: bigint }> {
+  const routerAddress = get1inchRouterAddress(chainId);
+  if (!routerAddress) {
+    throw new Error("1inch router not found for this chain");
+  }
+
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const latestBlock = await publicClient.getBlockNumber();
+  const events: LimitOrderEvent[] = [];
+
+  for (let start = fromBlock; start <= latestBlock; start += LOG_BLOCK_RANGE) {
+    const end =
+      start + LOG_BLOCK_RANGE - BigInt(1) < latestBlock ? start + LOG_BLOCK_RANGE - BigInt(1) : latestBlock;
+
+    const logs = await publicClient.getContractEvents({
+      address: routerAddress,
+      abi: LIMIT_ORDER_PROTOCOL_ABI,
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const log of logs) {
+      events.push(
+        log.eventName === "OrderFilled"
+          ? {
+              orderHash: log.args.orderHash!,
+              type: "fill",
+              remainingAmount: log.args.remainingAmount!,
+              txHash: log.transactionHash,
+              blockNumber: log.blockNumber,
+            }
+          : {
+              orderHash: log.args.orderHash!,
+              type: "cancel",
+              txHash: log.transactionHash,
+              blockNumber: log.blockNumber,
+            }
+      );
+    }
+  }
+
+  return { events, toBlock: latestBlock };
+}
+
+/**
+ * Apply protocol events to a tracked order
+ * @param checkedBlock Last block covered by the events
+ * @returns The updated order and its new fills
+ */
+export function applyLimitOrderEvents(
+  order: TrackedLimitOrder,
+  events: LimitOrderEvent[],
+  checkedBlock: bigint,
+  now = Math.floor(Date.now() / 1000)
+): { order: TrackedLimitOrder; fills: LimitOrderFill[] } {
+  const makingAmount = BigInt(order.makingAmount);
+  const takingAmount = BigInt(order.takingAmount);
+  const fills: LimitOrderFill[] = [];
+  let filledAmount = BigInt(order.filledAmount);
+  let status = order.status;
+  let lastFillTxHash = order.lastFillTxHash;
+
+  for (const event of events) {
+    if (event.orderHash.toLowerCase() !== order.orderHash.toLowerCase() || isLimitOrderFinal(status)) {
+      continue;
+    }
+    if (BigInt(order.checkedBlock) >= event.blockNumber) {
+      continue;
+    }
+
+    if (event.type === "cancel") {
+      status = "cancelled";
+      continue;
+    }
+
+    const filled = makingAmount - event.remainingAmount!;
+    const fillAmount = filled - filledAmount;
+    if (fillAmount <= BigInt(0)) {
+      continue;
+    }
+
+    fills.push({
+      orderHash: order.orderHash,
+      txHash: event.txHash,
+      makingAmount: fillAmount,
+      takingAmount: (fillAmount * takingAmount) / makingAmount,
+    });
+    filledAmount = filled;
+    lastFillTxHash = event.txHash;
+    status = event.remainingAmount === BigInt(0) ? "filled" : "partially-filled";
+  }
+
+  if (!isLimitOrderFinal(status) && order.expiresAt <= now) {
+    status = "expired";
+  }
+
+  return {
+    order: {
+      ...order,
+      filledAmount: filledAmount.toString(),
+      status,
+      checkedBlock: checkedBlock.toString(),
+      lastFillTxHash,
+    },
+    fills,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Oracle Price Checks
+ *
+ * Pyth reference prices for swap pairs, used to sanity-check 1inch quotes before an
+ * agent swaps: a quote whose implied price strays too far from the oracle points to a
+ * bad route or a manipulated pool.
+ *
+ * The same price can bound the swap output instead of the quote: with an oracle tolerance,
+ * the minimum output is the oracle price minus the tolerance band (see getOracleMinReturn).
+ *
+ * Tokens are priced through their registry feed (e.g. WETH -> ETH/USD), so only pairs
+ * where both tokens have a Pyth feed can be checked.
+ */
+
+import { formatTokenAmount, type SwapQuote } from "./1inch-service";
+import { getPriceFeedId } from "@/lib/privy/pyth-contract";
+import { fetchPriceUpdatesFromHermes, formatPrice } from "@/lib/privy/pyth-service";
+import { getToken } from "@/lib/tokens/token-registry";
+
+// Maximum deviation between the quote and the oracle price, in percent
+export const DEFAULT_MAX_PRICE_DEVIATION = 3;
+
+// Oldest oracle price a swap is checked against, in seconds
+export const DEFAULT_MAX_ORACLE_AGE = 60;
+
+export interface OraclePairPrice {
+  price: number; // toToken per fromToken
+  fromPriceUsd: number;
+  toPriceUsd: number;
+  publishTime: number; // Oldest publish time of the two feeds (Unix timestamp, seconds)
+}
+
+/**
+ * Get the Pyth price of a token pair
+ * @returns Pair price, or null if either token has no price feed
+ * @throws If Hermes doesn't return a price for a feed
+ */
+export async function getOraclePairPrice(
+  fromToken: string,
+  toToken: string,
+  chainId: number
+): Promise<OraclePairPrice | null> {
+  const fromFeed = getToken(fromToken, chainId)?.priceFeed;
+  const toFeed = getToken(toToken, chainId)?.priceFeed;
+  if (!fromFeed || !toFeed) {
+    return null;
+  }
+
+  const feedIds = [...new Set([getPriceFeedId(fromFeed), getPriceFeedId(toFeed)])];
+  const updates = await fetchPriceUpdatesFromHermes(feedIds);
+
+  const getUpdate = (feed: string) => {
+    const feedId = getPriceFeedId(feed).replace(/^0x/, "").toLowerCase();
+    const update = updates.find((u) => u.priceId.replace(/^0x/, "").toLowerCase() === feedId);
+    if (!update) {
+      throw new Error(`No oracle price for ${feed}`);
+    }
+    return update;
+  };
+
+  const fromUpdate = getUpdate(fromFeed);
+  const toUpdate = getUpdate(toFeed);
+  const fromPriceUsd = formatPrice(fromUpdate.price, fromUpdate.expo);
+  const toPriceUsd = formatPrice(toUpdate.price, toUpdate.expo);
+
+  if (toPriceUsd <= 0) {
+    throw new Error(`Invalid oracle price for ${toFeed}`);
+  }
+
+  return {
+    price: fromPriceUsd / toPriceUsd,
+    fromPriceUsd,
+    toPriceUsd,
+    publishTime: Math.min(fromUpdate.publishTime, toUpdate.publishTime),
+  };
+}
+
+/**
+ * Get the age of an oracle price
+ * @returns Seconds since the price was published
+ */
+export function getOraclePriceAge(price: OraclePairPrice, now: number = Math.floor(Date.now() / 1000)): number {
+  return Math.max(now - price.publishTime, 0);
+}
+
+/**
+ * Get the price implied by a quote (toToken per fromToken)
+ */
+export function getQuotePrice(quote: SwapQuote): number {
+  const fromAmount = formatTokenAmount(quote.fromTokenAmount, quote.fromToken.decimals);
+  const toAmount = formatTokenAmount(quote.toTokenAmount, quote.toToken.decimals);
+  return toAmount / fromAmount;
+}
+
+/**
+ * Get the deviation of a price from the oracle price
+ * @returns Deviation in percent (negative when the price is below the oracle)
+ */
+export function getPriceDeviation(price: number, oraclePrice: number): number {
+  return ((price - oraclePrice) / oraclePrice) * 100;
+}
+
+/**
+ * Get the minimum output of a swap from the oracle price minus a tolerance band
+ * @param oraclePrice Pair price (toToken per fromToken)
+ * @param tolerance Band below the oracle price, in percent
+ * @returns Minimum output in toToken wei
+ */
+export function getOracleMinReturn(
+  amountWei: bigint,
+  fromDecimals: number,
+  toDecimals: number,
+  oraclePrice: number,
+  tolerance: number
+): bigint {
+  const priceScale = BigInt(10) ** BigInt(18);
+  const price = BigInt(Math.floor(oraclePrice * 1e18));
+  const toleranceBps = BigInt(Math.round(tolerance * 100));
+
+  return (
+    (amountWei * price * BigInt(10) ** BigInt(toDecimals) * (BigInt(10000) - toleranceBps)) /
+    (priceScale * BigInt(10) ** BigInt(fromDecimals) * BigInt(10000))
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * Swap Permits
+ *
+ * Gasless router approvals for agent swaps:
+ * - EIP-2612 tokens (e.g. USDC) are approved with a signed permit()
+ * - Other tokens use Permit2 when the owner has already approved the Permit2 contract
+ *
+ * The encoded permit is passed to the 1inch swap request, which wraps the swap in
+ * permitAndCall, so an agent's first swap is a single transaction.
+ */
+
+import {
+  Address,
+  Hex,
+  TypedData,
+  TypedDataDefinition,
+  TypedDataDomain,
+  domainSeparator,
+  encodeAbiParameters,
+  erc20Abi,
+  parseAbi,
+  parseAbiParameters,
+  parseSignature,
+  serializeCompactSignature,
+  signatureToCompactSignature,
+  zeroAddress,
+} from "viem";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+
+// Permit2 is deployed at the same address on every chain
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as Address;
+
+// How long a signed permit stays valid
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+export type PermitKind = "eip2612" | "permit2";
+
+// Typed data whose shape is only known at runtime (permits, 1inch orders), as viem's signers take it
+export type PermitTypedData = TypedDataDefinition<TypedData, string>;
+
+// Signs EIP-712 typed data as the swap wallet (e.g. useAgentSigner().signPermit or a keeper wallet)
+export type PermitSigner = (typedData: PermitTypedData) => Promise<Hex>;
+
+export interface SwapPermitParams {
+  token: Address;
+  owner: Address;
+  spender: Address; // 1inch router
+  amount: bigint;
+  chainId: number;
+  rpcUrl?: string;
+  signTypedData: PermitSigner;
+}
+
+export interface SwapPermit {
+  kind: PermitKind;
+  permit: Hex; // Value for the 1inch swap `permit` parameter
+  deadline: bigint;
+}
+
+const EIP2612_ABI = parseAbi([
+  "function nonces(address owner) external view returns (uint256)",
+  "function DOMAIN_SEPARATOR() external view returns (bytes32)",
+  "function version() external view returns (string)",
+]);
+
+const PERMIT2_ABI = parseAbi([
+  "function allowance(address user, address token, address spender) external view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+]);
+
+const EIP2612_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PERMIT2_TYPES = {
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+};
+
+// permit(owner, spender, value, deadline, v, r, s) arguments
+const EIP2612_PERMIT_PARAMS = parseAbiParameters(
+  "address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s"
+);
+
+// Permit2 permit(owner, PermitSingle, signature) arguments
+const PERMIT2_PERMIT_PARAMS = parseAbiParameters([
+  "address owner, PermitSingle permitSingle, bytes signature",
+  "struct PermitSingle { PermitDetails details; address spender; uint256 sigDeadline; }",
+  "struct PermitDetails { address token; uint160 amount; uint48 expiration; uint48 nonce; }",
+]);
+
+type ChainPublicClient = ReturnType<typeof createChainPublicClient>;
+
+async function tryRead<T>(read: () => Promise<T>): Promise<T | null> {
+  try {
+    return await read();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the EIP-712 domain of a token's EIP-2612 permit
+ * The domain is rebuilt from name()/version() and checked against DOMAIN_SEPARATOR(),
+ * so tokens with non-standard permits (e.g. mainnet DAI) are not matched
+ * @returns Domain, or null if the token has no standard permit
+ */
+export async function getEip2612Domain(
+  token: Address,
+  chainId: number,
+  publicClient: ChainPublicClient
+): Promise<TypedDataDomain | null> {
+  const [separator, nonce, name, version] = await Promise.all([
+    tryRead(() => publicClient.readContract({ address: token, abi: EIP2612_ABI, functionName: "DOMAIN_SEPARATOR" })),
+    tryRead(() =>
+      publicClient.readContract({ address: token, abi: EIP2612_ABI, functionName: "nonces", args: [zeroAddress] })
+    ),
+    tryRead(() => publicClient.readContract({ address: token, abi: erc20Abi, functionName: "name" })),
+    tryRead(() => publicClient.readContract({ address: token, abi: EIP2612_ABI, functionName: "version" })),
+  ]);
+
+  if (!separator || nonce === null || name === null) {
+    return null;
+  }
+
+  // Tokens without version() usually sign with "1"
+  const versions = version !== null ? [version] : ["1", "2"];
+  for (const candidate of versions) {
+    const domain = { name, version: candidate, chainId, verifyingContract: token };
+    if (domainSeparator({ domain }).toLowerCase() === separator.toLowerCase()) {
+      return domain;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sign an EIP-2612 permit for the router
+ */
+async function signEip2612Permit(
+  params: SwapPermitParams,
+  domain: TypedDataDomain,
+  deadline: bigint,
+  publicClient: ChainPublicClient
+): Promise<SwapPermit> {
+  const { token, owner, spender, amount } = params;
+  const nonce = await publicClient.readContract({
+    address: token,
+    abi: EIP2612_ABI,
+    functionName: "nonces",
+    args: [owner],
+  });
+
+  const signature = await params.signTypedData({
+    domain,
+    types: EIP2612_TYPES,
+    primaryType: "Permit",
+    message: { owner, spender, value: amount, nonce, deadline },
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+  return {
+    kind: "eip2612",
+    deadline,
+    permit: encodeAbiParameters(EIP2612_PERMIT_PARAMS, [
+      owner,
+      spender,
+      amount,
+      deadline,
+      Number(v ?? BigInt(yParity + 27)),
+      r,
+      s,
+    ]),
+  };
+}
+
+/**
+ * Sign a Permit2 allowance for the router
+ */
+async function signPermit2Permit(
+  params: SwapPermitParams,
+  deadline: bigint,
+  publicClient: ChainPublicClient
+): Promise<SwapPermit> {
+  const { token, owner, spender, amount, chainId } = params;
+  const [, , nonce] = await publicClient.readContract({
+    address: PERMIT2_ADDRESS,
+    abi: PERMIT2_ABI,
+    functionName: "allowance",
+    args: [owner, token, spender],
+  });
+
+  // The Permit2 allowance expires with the signature
+  const permitSingle = {
+    details: { token, amount, expiration: Number(deadline), nonce },
+    spender,
+    sigDeadline: deadline,
+  };
+
+  const signature = await params.signTypedData({
+    domain: { name: "Permit2", chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: PERMIT2_TYPES,
+    primaryType: "PermitSingle",
+    message: permitSingle,
+  });
+
+  // The 1inch router expects Permit2 permits with a compact (64-byte) signature
+  const compactSignature = serializeCompactSignature(signatureToCompactSignature(parseSignature(signature)));
+  return {
+    kind: "permit2",
+    deadline,
+    permit: encodeAbiParameters(PERMIT2_PERMIT_PARAMS, [owner, permitSingle, compactSignature]),
+  };
+}
+
+/**
+ * Create a signed permit that lets the 1inch router spend a token without an approval transaction
+ * @returns Permit, or null if the token supports neither EIP-2612 nor an existing Permit2 approval
+ */
+export async function createSwapPermit(params: SwapPermitParams): Promise<SwapPermit | null> {
+  const { token, owner, amount, chainId, rpcUrl } = params;
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+
+  const domain = await getEip2612Domain(token, chainId, publicClient);
+  if (domain) {
+    return signEip2612Permit(params, domain, deadline, publicClient);
+  }
+
+  // Permit2 only helps once the owner has approved the Permit2 contract itself
+  const permit2Allowance = await tryRead(() =>
+    publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [owner, PERMIT2_ADDRESS],
+    })
+  );
+  if (permit2Allowance !== null && permit2Allowance >= amount) {
+    return signPermit2Permit(params, deadline, publicClient);
+  }
+
+  return null;
+}
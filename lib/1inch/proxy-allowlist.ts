@@ -0,0 +1,171 @@
+/**
+ * 1inch Proxy Allowlist
+ *
+ * The /api/1inch proxy adds the server's API key to every request it forwards, so it only
+ * accepts the endpoints the app calls from the browser, with validated parameters:
+ * - Swap API: quote, swap, tokens
+ * - Approve API: allowance, approve/transaction, spender
+ * - Orderbook API: fee-info and order submission (placing limit orders from the dashboard)
+ *
+ * Fusion is not allowlisted: Fusion orders are placed and tracked server-side only.
+ *
+ * Endpoints whose responses can be shared between clients (quotes, token lists) also set how
+ * long the proxy may cache them (see proxy-cache.ts).
+ */
+
+import { isAddress, isHex } from "viem";
+import { isSupportedChain } from "@/lib/chains/chain-registry";
+
+type ProxyMethod = "GET" | "POST";
+
+interface ParamRule {
+  validate: (value: string) => boolean;
+  required?: boolean;
+}
+
+interface ProxyEndpoint {
+  method: ProxyMethod;
+  path: RegExp; // Captures the chain ID
+  params: Record<string, ParamRule>;
+  validateBody?: (body: unknown) => boolean;
+  cacheTtlMs?: number; // Cache responses for this long (omit to never cache)
+}
+
+// Maximum slippage accepted by the 1inch Swap API, in percent
+const MAX_SLIPPAGE = 50;
+
+// Quotes go stale with every block; token lists rarely change
+const QUOTE_CACHE_TTL_MS = 5_000;
+const TOKENS_CACHE_TTL_MS = 5 * 60_000;
+
+const address: ParamRule = { validate: (value) => isAddress(value) };
+const requiredAddress: ParamRule = { ...address, required: true };
+const requiredAmount: ParamRule = { validate: (value) => /^\d+$/.test(value), required: true };
+const flag: ParamRule = { validate: (value) => value === "true" || value === "false" };
+const slippage: ParamRule = {
+  validate: (value) => /^\d+(\.\d+)?$/.test(value) && Number(value) <= MAX_SLIPPAGE,
+};
+
+const quoteParams: Record<string, ParamRule> = {
+  src: requiredAddress,
+  dst: requiredAddress,
+  amount: requiredAmount,
+  from: address,
+  slippage,
+  disableEstimate: flag,
+  includeTokensInfo: flag,
+  includeProtocols: flag,
+  includeGas: flag,
+};
+
+const ENDPOINTS: ProxyEndpoint[] = [
+  { method: "GET", path: /^\/swap\/v6\.0\/(\d+)\/quote$/, params: quoteParams, cacheTtlMs: QUOTE_CACHE_TTL_MS },
+  {
+    method: "GET",
+    path: /^\/swap\/v6\.0\/(\d+)\/swap$/,
+    params: {
+      ...quoteParams,
+      from: requiredAddress,
+      minReturn: { validate: (value) => /^\d+$/.test(value) },
+      permit: { validate: (value) => isHex(value) },
+      usePermit2: flag,
+    },
+  },
+  { method: "GET", path: /^\/swap\/v6\.0\/(\d+)\/tokens$/, params: {}, cacheTtlMs: TOKENS_CACHE_TTL_MS },
+  {
+    method: "GET",
+    path: /^\/approve\/v5\.2\/(\d+)\/allowance$/,
+    params: { tokenAddress: requiredAddress, walletAddress: requiredAddress },
+  },
+  {
+    method: "GET",
+    path: /^\/approve\/v5\.2\/(\d+)\/approve\/transaction$/,
+    params: {
+      tokenAddress: requiredAddress,
+      amount: { validate: (value) => value === "unlimited" || /^\d+$/.test(value) },
+    },
+  },
+  { method: "GET", path: /^\/approve\/v5\.2\/(\d+)\/spender$/, params: {} },
+  {
+    method: "GET",
+    path: /^\/orderbook\/v4\.1\/(\d+)\/fee-info$/,
+    params: {
+      makerAsset: requiredAddress,
+      takerAsset: requiredAddress,
+      makerAmount: requiredAmount,
+      takerAmount: requiredAmount,
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/orderbook\/v4\.1\/(\d+)\/?$/,
+    params: {},
+    validateBody: (body) => {
+      const order = body as { orderHash?: unknown; signature?: unknown; data?: unknown } | null;
+      return (
+        typeof order?.orderHash === "string" &&
+        isHex(order.orderHash) &&
+        typeof order.signature === "string" &&
+        isHex(order.signature) &&
+        typeof order.data === "object" &&
+        order.data !== null
+      );
+    },
+  },
+];
+
+export interface ProxyRequestCheck {
+  success: boolean;
+  status?: number; // HTTP status for the rejection (403 endpoint not allowed, 400 invalid request)
+  error?: string;
+  cacheTtlMs?: number; // Set when the response may be cached
+}
+
+/**
+ * Validate a request to the 1inch proxy against the allowlist
+ */
+export function validateProxyRequest(
+  method: ProxyMethod,
+  endpoint: string,
+  params: Record<string, string>,
+  body?: unknown
+): ProxyRequestCheck {
+  const invalid = (error: string): ProxyRequestCheck => ({ success: false, status: 400, error });
+
+  const match = ENDPOINTS.find(
+    (candidate) => candidate.method === method && candidate.path.test(endpoint)
+  );
+  if (!match) {
+    return { success: false, status: 403, error: `Endpoint not allowed: ${method} ${endpoint}` };
+  }
+
+  const chainId = Number(match.path.exec(endpoint)![1]);
+  if (!isSupportedChain(chainId)) {
+    return invalid(`Unsupported chain ID: ${chainId}`);
+  }
+
+  for (const [name, value] of Object.entries(params)) {
+    const rule = match.params[name];
+    if (!rule) {
+      return invalid(`Parameter not allowed: ${name}`);
+    }
+    if (!rule.validate(value)) {
+      return invalid(`Invalid parameter: ${name}`);
+    }
+  }
+
+  for (const [name, rule] of Object.entries(match.params)) {
+    if (rule.required && params[name] === undefined) {
+      return invalid(`Missing parameter: ${name}`);
+    }
+  }
+
+  if (match.validateBody && !match.validateBody(body)) {
+    return invalid("Invalid request body");
+  }
+  if (!match.validateBody && body !== undefined) {
+    return invalid("Request body not allowed");
+  }
+
+  return { success: true, cacheTtlMs: match.cacheTtlMs };
+}
@@ -0,0 +1,64 @@
+/**
+ * 1inch Proxy Response Cache (server only)
+ *
+ * Short-lived in-memory cache for /api/1inch responses that are safe to share between
+ * clients (quotes and token lists; TTLs are set per endpoint in proxy-allowlist.ts).
+ * Entries are keyed by endpoint and normalized parameters, so the same quote requested with
+ * differently ordered or cased parameters hits the same entry.
+ *
+ * The cache is per server instance and is lost on restart.
+ */
+
+export interface CachedProxyResponse {
+  body: unknown;
+  cachedAt: number; // Unix timestamp (milliseconds)
+  expiresAt: number; // Unix timestamp (milliseconds)
+}
+
+// Oldest entries are evicted beyond this size
+const MAX_CACHE_ENTRIES = 500;
+
+const responseCache = new Map<string, CachedProxyResponse>();
+
+/**
+ * Get the cache key of a request
+ * Parameters are sorted and lowercased (addresses are case-insensitive)
+ */
+export function getProxyCacheKey(endpoint: string, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key].toLowerCase()}`)
+    .join("&");
+  return `${endpoint.toLowerCase()}?${query}`;
+}
+
+/**
+ * Get a cached response
+ * @returns The response, or null if it isn't cached or has expired
+ */
+export function getCachedProxyResponse(key: string, now = Date.now()): CachedProxyResponse | null {
+  const cached = responseCache.get(key);
+  if (!cached) {
+    return null;
+  }
+  if (cached.expiresAt <= now) {
+    responseCache.delete(key);
+    return null;
+  }
+  return cached;
+}
+
+/**
+ * Cache a successful response
+ */
+export function setCachedProxyResponse(key: string, body: unknown, ttlMs: number, now = Date.now()): void {
+  // Re-insert so the entry moves to the end of the eviction order
+  responseCache.delete(key);
+  responseCache.set(key, { body, cachedAt: now, expiresAt: now + ttlMs });
+
+  while (responseCache.size > MAX_CACHE_ENTRIES) {
+    const oldest = responseCache.keys().next().value;
+    if (oldest === undefined) break;
+    responseCache.delete(oldest);
+  }
+}
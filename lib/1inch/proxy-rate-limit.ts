@@ -0,0 +1,111 @@
+/**
+ * 1inch Proxy Rate Limiting (server only)
+ *
+ * Fixed-window, per-client limit on /api/1inch requests forwarded to 1inch, so one client
+ * (e.g. a swap demo polling quotes) can't use up the API key's rate limit for everyone.
+ * Cached responses don't count against the limit.
+ *
+ * Clients are identified by the IP address reported by a trusted proxy, and windows are
+ * tracked per server instance. Client-supplied x-forwarded-for entries are ignored: the client
+ * IP is the entry appended by the outermost trusted proxy, or a header the platform sets
+ * (e.g. x-real-ip on Vercel, cf-connecting-ip on Cloudflare). Requests without a client IP
+ * are rejected rather than sharing one limit.
+ *
+ * Environment variables:
+ * - ONEINCH_PROXY_RATE_LIMIT: Requests per client per minute (default: 60)
+ * - ONEINCH_PROXY_CLIENT_IP_HEADER: Header the platform sets to the client IP (takes precedence)
+ * - ONEINCH_PROXY_TRUSTED_HOPS: Trusted proxies appending to x-forwarded-for (default: 1)
+ */
+
+import { isIP } from "node:net";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // End of the current window (Unix timestamp, milliseconds)
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+const DEFAULT_RATE_LIMIT = 60;
+const DEFAULT_TRUSTED_HOPS = 1;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// Expired windows are pruned once this many clients are tracked
+const PRUNE_THRESHOLD = 1000;
+
+const windows = new Map<string, RateLimitWindow>();
+
+/**
+ * Get the per-client request limit from the environment
+ */
+export function getProxyRateLimit(): number {
+  const limit = Number(process.env.ONEINCH_PROXY_RATE_LIMIT);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Get the number of trusted proxies in front of the server from the environment
+ */
+function getTrustedHops(): number {
+  const hops = Number(process.env.ONEINCH_PROXY_TRUSTED_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : DEFAULT_TRUSTED_HOPS;
+}
+
+/**
+ * Identify the client of a request by the IP address a trusted proxy reported
+ * @returns Client IP, or null if no trusted proxy reported one
+ */
+export function getProxyClientId(headers: Headers): string | null {
+  const ipHeader = process.env.ONEINCH_PROXY_CLIENT_IP_HEADER;
+  if (ipHeader) {
+    const ip = headers.get(ipHeader)?.trim();
+    return ip && isIP(ip) ? ip : null;
+  }
+
+  // Each proxy appends the address it received the request from, so entries before
+  // the trusted hops are whatever the client sent
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const ip = hops.at(-getTrustedHops());
+  return ip && isIP(ip) ? ip : null;
+}
+
+function pruneWindows(now: number): void {
+  for (const [clientId, entry] of windows) {
+    if (entry.resetAt <= now) {
+      windows.delete(clientId);
+    }
+  }
+}
+
+/**
+ * Count a request against a client's limit
+ * Rejected requests are not counted
+ */
+export function checkProxyRateLimit(clientId: string, now = Date.now()): RateLimitResult {
+  const limit = getProxyRateLimit();
+
+  if (windows.size >= PRUNE_THRESHOLD) {
+    pruneWindows(now);
+  }
+
+  let entry = windows.get(clientId);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + RATE_LIMIT_WINDOW_MS };
+    windows.set(clientId, entry);
+  }
+
+  if (entry.count >= limit) {
+    return { allowed: false, limit, remaining: 0, resetAt: entry.resetAt };
+  }
+
+  entry.count++;
+  return { allowed: true, limit, remaining: limit - entry.count, resetAt: entry.resetAt };
+}
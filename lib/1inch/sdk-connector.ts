@@ -0,0 +1,109 @@
+/**
+ * 1inch SDK Connectors
+ *
+ * Adapters that let the 1inch SDKs (@1inch/fusion-sdk, @1inch/limit-order-sdk) run on the
+ * app's 1inch client configuration and signers:
+ * - HTTP requests follow getOneInchClientConfig (API key, /api/1inch proxy in the browser);
+ *   direct requests are retried on rate limits (see fetch-retry.ts)
+ * - EIP-712 orders are signed with a PermitSigner (e.g. useAgentSigner().signPermit or a keeper wallet)
+ */
+
+import { TypedData, TypedDataDomain } from "viem";
+import { getApiKey, getOneInchClientConfig, isProxiedRequest } from "./1inch-service";
+import { fetchWithRetry } from "./fetch-retry";
+import type { PermitTypedData } from "./permit";
+
+// Structural match for the HttpProviderConnector interfaces of both SDKs
+export interface SdkHttpConnector {
+  get<T>(url: string, headers?: Record<string, string>): Promise<T>;
+  post<T>(url: string, data: unknown, headers?: Record<string, string>): Promise<T>;
+}
+
+// EIP-712 typed data as built by the SDKs (includes the EIP712Domain type)
+export interface SdkTypedData {
+  domain: Record<string, unknown>;
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Get the base URL an SDK should use for a 1inch API (e.g. "/fusion")
+ * Proxied browser requests use the bare path, which the connector forwards to /api/1inch
+ */
+export function getSdkBaseUrl(apiPath: string): string {
+  return isProxiedRequest(getOneInchClientConfig()) ? apiPath : `${getOneInchClientConfig().apiUrl}${apiPath}`;
+}
+
+/**
+ * Create an HTTP connector for the 1inch SDKs
+ * The API key is added here (headers passed by the SDKs are ignored), so it never
+ * leaves the server when requests are proxied
+ */
+export function createSdkHttpConnector(): SdkHttpConnector {
+  const config = getOneInchClientConfig();
+  const proxied = isProxiedRequest(config);
+  const apiKey = proxied ? null : getApiKey(config);
+
+  const request = async (url: string, body?: unknown) => {
+    let response: Response;
+
+    if (proxied) {
+      const [endpoint, query = ""] = url.split("?");
+      response =
+        body === undefined
+          ? await fetch(`/api/1inch?endpoint=${encodeURIComponent(endpoint)}${query && `&${query}`}`, {
+              headers: { "Accept": "application/json" },
+            })
+          : await fetch("/api/1inch", {
+              method: "POST",
+              headers: { "Accept": "application/json", "Content-Type": "application/json" },
+              body: JSON.stringify({ endpoint, params: Object.fromEntries(new URLSearchParams(query)), body }),
+            });
+    } else {
+      const headers: HeadersInit = { "Accept": "application/json" };
+      if (apiKey) {
+        headers["Authorization"] = `Bearer ${apiKey}`;
+      }
+      if (body !== undefined) {
+        headers["Content-Type"] = "application/json";
+      }
+      ({ response } = await fetchWithRetry(url, {
+        method: body === undefined ? "GET" : "POST",
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }));
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(
+        `1inch API error (${response.status}): ${errorData.error || errorData.description || response.statusText}`
+      );
+    }
+
+    // Order submission endpoints respond with an empty body
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  };
+
+  return {
+    get: (url) => request(url),
+    post: (url, data) => request(url, data),
+  };
+}
+
+/**
+ * Convert SDK typed data for a PermitSigner
+ * Signers derive the domain type from the domain itself
+ */
+export function toSignerTypedData(typedData: SdkTypedData): PermitTypedData {
+  const { EIP712Domain: _domainType, ...types } = typedData.types;
+  return {
+    domain: typedData.domain as TypedDataDomain,
+    // The SDK types EIP-712 fields as plain strings; viem checks them when signing
+    types: types as unknown as TypedData,
+    primaryType: typedData.primaryType,
+    message: typedData.message,
+  };
+}
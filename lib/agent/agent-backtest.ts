@@ -0,0 +1,300 @@
+/**
+ * Agent Backtesting Engine
+ *
+ * Replays an agent strategy (trigger, direction, cooldown, amount, optional
+ * off-chain conditions) against historical price series and reports fills,
+ * PnL versus holding and maximum drawdown.
+ * Prices come from Pyth Benchmarks (see pyth-benchmarks) or a CSV file.
+ */
+
+import type { CreateAgentParams } from "./agent-registry";
+import {
+  evaluateCondition,
+  getConditionFeeds,
+  getLeafConditions,
+  getWindowKey,
+  updateExtremes,
+  validateCondition,
+  type PercentChangeCondition,
+  type PriceExtremes,
+  type PriceMap,
+} from "./strategy-conditions";
+import { getTokenPriceFeed } from "@/lib/tokens/token-registry";
+
+export type BacktestStrategy = Pick<
+  CreateAgentParams,
+  | "priceFeedSymbol"
+  | "triggerPrice"
+  | "triggerAbove"
+  | "tokenIn"
+  | "tokenOut"
+  | "amountIn"
+  | "cooldownPeriod"
+  | "conditions"
+>;
+
+export interface PricePoint {
+  timestamp: number; // Unix timestamp (seconds)
+  price: number; // USD price
+}
+
+// Price series keyed by feed symbol, oldest first
+export type PriceSeries = Record<string, PricePoint[]>;
+
+export interface BacktestOptions {
+  initialBalance?: number; // Starting tokenIn balance (default: ten swaps' worth, or 1 when amountIn is 0)
+}
+
+export interface BacktestFill {
+  timestamp: number;
+  price: number;
+  amountIn: number; // tokenIn spent
+  amountOut: number; // tokenOut received
+}
+
+export interface BacktestReport {
+  feed: string;
+  side: "buy" | "sell"; // Whether fills buy or sell the feed's asset
+  startTime: number;
+  endTime: number;
+  points: number;
+  fills: BacktestFill[];
+  initialValue: number; // Portfolio value in USD
+  finalValue: number;
+  holdValue: number; // Final value of the untouched starting portfolio
+  pnl: number;
+  pnlPercent: number;
+  holdPnlPercent: number;
+  maxDrawdownPercent: number;
+}
+
+/**
+ * Determine whether a strategy buys or sells its feed's asset
+ * The other side is assumed to be a USD stablecoin
+ */
+export function getBacktestSide(strategy: BacktestStrategy): "buy" | "sell" {
+  const feed = strategy.priceFeedSymbol.toUpperCase();
+  if (getTokenPriceFeed(strategy.tokenIn) === feed) return "sell";
+  if (getTokenPriceFeed(strategy.tokenOut) === feed) return "buy";
+  throw new Error(
+    `Backtests need tokenIn or tokenOut to match the ${feed} price feed (got ${strategy.tokenIn} -> ${strategy.tokenOut})`
+  );
+}
+
+/**
+ * Validate a strategy before fetching prices for it
+ * @param feeds Supported price feed symbols
+ * @returns Error message, or null if valid
+ */
+export function validateBacktestStrategy(strategy: BacktestStrategy, feeds: string[]): string | null {
+  if (typeof strategy.priceFeedSymbol !== "string" || !feeds.includes(strategy.priceFeedSymbol.toUpperCase())) {
+    return `Unsupported price feed: ${strategy.priceFeedSymbol}`;
+  }
+  if (typeof strategy.tokenIn !== "string" || typeof strategy.tokenOut !== "string") {
+    return "tokenIn and tokenOut are required";
+  }
+  if (!Number.isFinite(strategy.triggerPrice) || strategy.triggerPrice < 0) {
+    return "Trigger price must be a non-negative number";
+  }
+  if (typeof strategy.triggerAbove !== "boolean") {
+    return "triggerAbove must be a boolean";
+  }
+  if (!Number.isFinite(strategy.amountIn) || strategy.amountIn < 0) {
+    return "Amount must be a non-negative number";
+  }
+  if (!Number.isFinite(strategy.cooldownPeriod) || strategy.cooldownPeriod < 0) {
+    return "Cooldown must be a non-negative number of seconds";
+  }
+  if (strategy.conditions) {
+    const conditionError = validateCondition(strategy.conditions, feeds);
+    if (conditionError) return conditionError;
+  }
+
+  try {
+    getBacktestSide(strategy);
+  } catch (error: any) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Get the latest price at or before a time
+ * @returns Price, or undefined if the series starts after the time
+ */
+function getPriceAtOrBefore(points: PricePoint[], timestamp: number): number | undefined {
+  let low = 0;
+  let high = points.length - 1;
+  let found: number | undefined;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].timestamp <= timestamp) {
+      found = points[mid].price;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Parse a price CSV with "timestamp,price" rows
+ * Timestamps may be Unix seconds, Unix milliseconds or ISO dates; a header row is skipped
+ */
+export function parsePriceCsv(csv: string): PricePoint[] {
+  const points: PricePoint[] = [];
+
+  for (const line of csv.split(/\r?\n/)) {
+    const [rawTime, rawPrice] = line.split(",").map((cell) => cell.trim());
+    if (!rawTime || !rawPrice) continue;
+
+    const price = parseFloat(rawPrice);
+    let timestamp = Number(rawTime);
+    if (Number.isNaN(timestamp)) {
+      timestamp = Date.parse(rawTime) / 1000;
+    } else if (timestamp > 1e12) {
+      timestamp = timestamp / 1000;
+    }
+
+    // Skips the header and malformed rows
+    if (!Number.isFinite(timestamp) || !Number.isFinite(price)) continue;
+    points.push({ timestamp: Math.floor(timestamp), price });
+  }
+
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Replay a strategy over historical prices
+ * @param strategy Strategy to test (as entered on the create page)
+ * @param series Price series per feed; must include the strategy's feed and every condition feed
+ * @param options Starting balance
+ */
+export function runBacktest(
+  strategy: BacktestStrategy,
+  series: PriceSeries,
+  options: BacktestOptions = {}
+): BacktestReport {
+  const feed = strategy.priceFeedSymbol.toUpperCase();
+  const points = series[feed];
+  if (!points || points.length < 2) {
+    throw new Error(`Not enough ${feed} price data to backtest`);
+  }
+
+  const condition = strategy.conditions;
+  if (condition) {
+    const missing = getConditionFeeds(condition).filter((f) => !series[f]?.length);
+    if (missing.length > 0) {
+      throw new Error(`Missing price data for ${missing.join(", ")}`);
+    }
+  }
+
+  const side = getBacktestSide(strategy);
+  const initialBalance =
+    options.initialBalance ?? (strategy.amountIn > 0 ? strategy.amountIn * 10 : 1);
+
+  // Asset units (priced by the feed) and USD stablecoin units
+  let asset = side === "sell" ? initialBalance : 0;
+  let usd = side === "buy" ? initialBalance : 0;
+  const startAsset = asset;
+  const startUsd = usd;
+
+  const fills: BacktestFill[] = [];
+  let lastFillTime: number | undefined;
+  let previousPrices: PriceMap | undefined;
+  let extremes: PriceExtremes = {};
+  let peakValue = 0;
+  let maxDrawdownPercent = 0;
+
+  const percentLeaves = condition
+    ? getLeafConditions(condition).filter(
+        (leaf): leaf is PercentChangeCondition => leaf.kind === "percentChange"
+      )
+    : [];
+
+  for (const point of points) {
+    const prices: PriceMap = { [feed]: point.price };
+    if (condition) {
+      for (const conditionFeed of getConditionFeeds(condition)) {
+        const price = getPriceAtOrBefore(series[conditionFeed], point.timestamp);
+        if (price !== undefined) prices[conditionFeed] = price;
+      }
+    }
+
+    let triggered: boolean;
+    if (condition) {
+      const windowPrices: PriceMap = {};
+      for (const leaf of percentLeaves) {
+        const reference = getPriceAtOrBefore(
+          series[leaf.feed.toUpperCase()],
+          point.timestamp - leaf.windowSeconds
+        );
+        if (reference !== undefined) {
+          windowPrices[getWindowKey(leaf.feed, leaf.windowSeconds)] = reference;
+        }
+      }
+
+      extremes = updateExtremes(extremes, prices);
+      triggered = evaluateCondition(condition, { prices, previousPrices, windowPrices, extremes });
+    } else {
+      triggered = strategy.triggerAbove
+        ? point.price > strategy.triggerPrice
+        : point.price < strategy.triggerPrice;
+    }
+    previousPrices = prices;
+
+    const cooledDown =
+      lastFillTime === undefined || point.timestamp - lastFillTime >= strategy.cooldownPeriod;
+    const balance = side === "sell" ? asset : usd;
+    // amountIn of 0 trades the whole balance
+    const amountIn = strategy.amountIn > 0 ? Math.min(strategy.amountIn, balance) : balance;
+
+    if (triggered && cooledDown && amountIn > 0) {
+      const amountOut = side === "sell" ? amountIn * point.price : amountIn / point.price;
+      if (side === "sell") {
+        asset -= amountIn;
+        usd += amountOut;
+      } else {
+        usd -= amountIn;
+        asset += amountOut;
+      }
+
+      fills.push({ timestamp: point.timestamp, price: point.price, amountIn, amountOut });
+      lastFillTime = point.timestamp;
+      // Trailing stops re-arm from the fill, as in the monitor
+      extremes = {};
+    }
+
+    const value = asset * point.price + usd;
+    peakValue = Math.max(peakValue, value);
+    if (peakValue > 0) {
+      maxDrawdownPercent = Math.max(maxDrawdownPercent, ((peakValue - value) / peakValue) * 100);
+    }
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const initialValue = startAsset * first.price + startUsd;
+  const finalValue = asset * last.price + usd;
+  const holdValue = startAsset * last.price + startUsd;
+  const toPercent = (value: number) => (initialValue > 0 ? ((value - initialValue) / initialValue) * 100 : 0);
+
+  return {
+    feed,
+    side,
+    startTime: first.timestamp,
+    endTime: last.timestamp,
+    points: points.length,
+    fills,
+    initialValue,
+    finalValue,
+    holdValue,
+    pnl: finalValue - initialValue,
+    pnlPercent: toPercent(finalValue),
+    holdPnlPercent: toPercent(holdValue),
+    maxDrawdownPercent,
+  };
+}
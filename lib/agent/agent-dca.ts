@@ -0,0 +1,618 @@
+/**
+ * Agent DCA Runner (server only)
+ *
+ * Executes due recurring-buy (DCA) schedules from the cron route.
+ * Swaps are funded by the agent owner, never by the keeper: each run pulls amountIn of tokenIn
+ * from the owner through the allowance they granted the keeper (transferFrom), swaps it through
+ * executeAgentSwap from the keeper wallet and sends the output (read from the swap's transfer
+ * logs) to the owner. When the swap fails the pulled tokenIn is returned. Both tokens must be
+ * ERC-20s. Swaps over the agent's max gas cost are skipped and stay due.
+ * Pulled funds are tracked in the schedule (pendingPull) before each keeper transaction, so a
+ * run that stops midway is finished by the next run instead of pulling again. Runs on a chain
+ * don't overlap within a process.
+ * Agents in "fusion" execution mode place a 1inch Fusion order paying out to the owner instead,
+ * tracked in agent-fusion-orders.ts; the order counts as a completed buy once it fills, and its
+ * tokenIn is returned to the owner if it expires or is cancelled.
+ *
+ * Environment variables:
+ * - DCA_SLIPPAGE: Slippage tolerance in percent (default: 1)
+ */
+
+import {
+  Account,
+  Address,
+  Hash,
+  TransactionReceiptNotFoundError,
+  erc20Abi,
+  formatUnits,
+  isAddressEqual,
+  parseEventLogs,
+} from "viem";
+import { createWalletClient, http } from "viem";
+import {
+  getAgentRegistryAddress,
+  TRADING_AGENT_REGISTRY_ABI,
+} from "./agent-registry";
+import type { KeeperConfig } from "./agent-keeper";
+import { safeRecordHistory } from "./agent-history-store";
+import { listAgentStrategies, updateAgentStrategy } from "./agent-strategy-store";
+import { trackFusionOrder } from "./agent-fusion-orders";
+import {
+  advanceDcaSchedule,
+  getRemainingBudget,
+  isDcaDue,
+  markDcaOrderPending,
+  settleDcaOrder,
+  type DcaSchedule,
+  type PendingDcaPull,
+} from "./dca-schedule";
+import { executeAgentSwap } from "@/lib/1inch/agent-swap-executor";
+import { isFusionOrderFinal } from "@/lib/1inch/fusion-service";
+import { getOraclePairPrice } from "@/lib/1inch/oracle-price";
+import { fetchPriceUpdatesFromHermes, formatPrice } from "@/lib/privy/pyth-service";
+import { getTokenDecimals } from "@/lib/tokens/token-registry";
+import {
+  NATIVE_TOKEN_ADDRESS,
+  createChainPublicClient,
+  getChainConfig,
+  getRpcUrl,
+} from "@/lib/chains/chain-registry";
+
+const DEFAULT_DCA_SLIPPAGE = 1;
+
+// Keeper transactions of an interrupted run without a receipt after this long are treated as dropped
+const PULL_TIMEOUT_SECONDS = 3600;
+
+// Chains with a run in progress in this process
+const runningChains = new Set<number>();
+
+export interface DcaRunResult {
+  agentId: Hash;
+  agentName: string;
+  executed: boolean;
+  skipped?: string; // Reason a due swap was not attempted
+  dryRun?: boolean;
+  amount?: number;
+  txHash?: string;
+  approvalTxHash?: string; // Router approval sent before the swap
+  fundingTxHash?: string; // tokenIn pulled from the owner
+  payoutTxHash?: string; // Output sent to the owner
+  refundTxHash?: string; // tokenIn returned to the owner after a failed swap or unfilled order
+  orderHash?: string; // Fusion order placed instead of a swap transaction
+  orderStatus?: string; // Final status of the Fusion order settled on this run
+  remainingBudget: number;
+  nextRunAt: number;
+  error?: string;
+}
+
+/**
+ * Get the current USD price of a Pyth feed from Hermes
+ */
+async function getFeedPrice(priceFeedId: Hash): Promise<number | null> {
+  const [update] = await fetchPriceUpdatesFromHermes([priceFeedId]);
+  return update ? formatPrice(update.price, update.expo) : null;
+}
+
+/**
+ * Run every DCA schedule on a chain that is due
+ * Schedules only advance after a successful swap, so failed or skipped swaps retry on the next run.
+ * Fusion orders placed on earlier runs are settled once they reach a final state, and funds
+ * pulled by an interrupted run are paid out or refunded.
+ * @throws If a run on the chain is already in progress
+ */
+export async function runDueDcaSchedules(
+  chainId: number,
+  rpcUrl?: string,
+  keeper?: KeeperConfig | null
+): Promise<DcaRunResult[]> {
+  if (runningChains.has(chainId)) {
+    throw new Error(`A DCA run on chain ${chainId} is already in progress`);
+  }
+
+  runningChains.add(chainId);
+  try {
+    return await runSchedules(chainId, rpcUrl, keeper);
+  } finally {
+    runningChains.delete(chainId);
+  }
+}
+
+async function runSchedules(
+  chainId: number,
+  rpcUrl?: string,
+  keeper?: KeeperConfig | null
+): Promise<DcaRunResult[]> {
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+
+  const now = Math.floor(Date.now() / 1000);
+  const records = (await listAgentStrategies(chainId)).filter(
+    ({ dca }) =>
+      dca && (dca.pendingOrder || dca.pendingPull || (!dca.completedAt && now >= dca.nextRunAt))
+  );
+  const results: DcaRunResult[] = [];
+
+  for (const record of records) {
+    let schedule = record.dca!;
+    const summary = {
+      agentId: record.agentId,
+      remainingBudget: getRemainingBudget(schedule),
+      nextRunAt: schedule.nextRunAt,
+    };
+
+    try {
+      const agent = await publicClient.readContract({
+        address: getAgentRegistryAddress(chainId),
+        abi: TRADING_AGENT_REGISTRY_ABI,
+        functionName: "getAgent",
+        args: [record.agentId],
+      });
+
+      if (!agent.exists) {
+        continue;
+      }
+
+      // On-chain amounts are stored in tokenIn's smallest unit
+      const { tokenIn, tokenOut, amountIn } = agent.strategy;
+      const decimals = await getTokenDecimals(tokenIn, chainId, rpcUrl);
+      const amount = Number(formatUnits(amountIn, decimals));
+      const result = { ...summary, agentName: agent.ensName, amount, executed: false };
+
+      const account = keeper && !keeper.dryRun ? keeper.account : undefined;
+      const walletClient = account && createKeeperWalletClient(chainId, account, rpcUrl);
+
+      const savePull = async (pull: PendingDcaPull | undefined) => {
+        schedule = { ...schedule, pendingPull: pull };
+        await updateAgentStrategy(chainId, record.agentId, { dca: schedule });
+      };
+
+      // Finish a run that stopped after pulling the owner's funds before starting a new one
+      if (schedule.pendingPull) {
+        if (!walletClient) {
+          continue;
+        }
+
+        const pull = schedule.pendingPull;
+        const outcome = await settleDcaPull(publicClient, walletClient, agent.owner, pull, now, savePull);
+        schedule = await finishDcaPull(chainId, record.agentId, schedule, outcome, now);
+        results.push({
+          ...result,
+          amount: pull.amount,
+          executed: Boolean(outcome.settled && outcome.swapped),
+          txHash: pull.swapTxHash,
+          fundingTxHash: pull.fundingTxHash,
+          payoutTxHash: outcome.payoutTxHash,
+          refundTxHash: outcome.refundTxHash,
+          error: outcome.error,
+          remainingBudget: getRemainingBudget(schedule),
+          nextRunAt: schedule.nextRunAt,
+        });
+        continue;
+      }
+
+      if (schedule.pendingOrder) {
+        const pending = schedule.pendingOrder;
+        const order = record.fusionOrders?.find((tracked) => tracked.orderHash === pending.orderHash);
+        if (!order || !isFusionOrderFinal(order.status) || !walletClient) {
+          continue;
+        }
+
+        // Orders that expire or are cancelled return their tokenIn to the owner
+        const filled = order.status === "filled";
+        let refundTxHash: string | undefined;
+        if (!filled) {
+          const refund = await sendToOwner(publicClient, walletClient, tokenIn, agent.owner, BigInt(pending.amountWei));
+          if (!refund.success) {
+            results.push({
+              ...result,
+              orderHash: pending.orderHash,
+              orderStatus: order.status,
+              error: `Failed to return tokenIn of the unfilled order to the owner: ${refund.error}`,
+            });
+            continue;
+          }
+          refundTxHash = refund.txHash;
+        }
+
+        schedule = settleDcaOrder(schedule, filled, now);
+        await updateAgentStrategy(chainId, record.agentId, { dca: schedule });
+        results.push({
+          ...result,
+          amount: pending.amount,
+          executed: filled,
+          orderHash: pending.orderHash,
+          orderStatus: order.status,
+          refundTxHash,
+          remainingBudget: getRemainingBudget(schedule),
+          nextRunAt: schedule.nextRunAt,
+        });
+        continue;
+      }
+
+      if (!agent.strategy.isActive) {
+        continue;
+      }
+
+      // Reported once: finished schedules aren't run again until new settings raise the budget
+      if (!isDcaDue(schedule, amount, now)) {
+        schedule = { ...schedule, completedAt: now };
+        await updateAgentStrategy(chainId, record.agentId, { dca: schedule });
+        results.push({ ...result, skipped: "Budget exhausted" });
+        continue;
+      }
+
+      if (isAddressEqual(tokenIn, NATIVE_TOKEN_ADDRESS) || isAddressEqual(tokenOut, NATIVE_TOKEN_ADDRESS)) {
+        results.push({
+          ...result,
+          error: "Recurring buys swap the owner's ERC-20 tokens; use the wrapped native token",
+        });
+        continue;
+      }
+
+      if (schedule.maxPrice !== undefined) {
+        const price = await getFeedPrice(agent.strategy.priceFeedId);
+        if (price === null || price > schedule.maxPrice) {
+          results.push({ ...result, skipped: "Price above ceiling" });
+          continue;
+        }
+      }
+
+      if (!keeper || (!keeper.account && !keeper.dryRun)) {
+        results.push({
+          ...result,
+          error: "No keeper wallet configured. Set KEEPER_PRIVATE_KEY to enable DCA execution.",
+        });
+        continue;
+      }
+
+      if (!account || !walletClient) {
+        results.push({ ...result, dryRun: true });
+        continue;
+      }
+
+      // The pair price when the run triggers checks the quote and bounds the output (oracleTolerance);
+      // if it can't be fetched here, the swap fetches it again and reports the error
+      const oracle = await getOraclePairPrice(tokenIn, tokenOut, chainId).catch(() => null);
+
+      let pull: PendingDcaPull = {
+        tokenIn,
+        tokenOut,
+        amount,
+        amountWei: amountIn.toString(),
+        startedAt: now,
+      };
+      await savePull(pull);
+
+      const funding = await pullOwnerFunds(publicClient, walletClient, tokenIn, agent.owner, amountIn, (txHash) => {
+        pull = { ...pull, fundingTxHash: txHash };
+        return savePull(pull);
+      });
+      if (!funding.success) {
+        // A funding transaction without a receipt is settled by the next run
+        if (!funding.unconfirmed) {
+          await savePull(undefined);
+        }
+        results.push({ ...result, fundingTxHash: funding.txHash, error: funding.error });
+        continue;
+      }
+
+      const mode = record.executionMode ?? "aggregation";
+      const swapResult = await executeAgentSwap(
+        {
+          agentId: record.agentId,
+          fromToken: tokenIn,
+          toToken: tokenOut,
+          amount,
+          slippage: parseFloat(process.env.DCA_SLIPPAGE || "") || DEFAULT_DCA_SLIPPAGE,
+          chainId,
+          walletAddress: account.address,
+          // Fusion orders pay the owner directly and must fill in full, so an unfilled order can be refunded
+          ...(mode === "fusion" && { receiver: agent.owner, allowPartialFills: false }),
+          rpcUrl,
+          mode,
+          maxPriceDeviation: record.maxPriceDeviation,
+          oracleTolerance: record.oracleTolerance,
+          ...(oracle && { oracle }),
+          maxGasCost: record.maxGasCost,
+          recordHistory: safeRecordHistory,
+          signTypedData: (typedData) => walletClient.signTypedData({ ...typedData, account }),
+        },
+        async (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) => {
+          const txHash = await walletClient.sendTransaction({ ...tx, account });
+          // Router approvals go to tokenIn; anything else is the swap
+          if (!isAddressEqual(tx.to, tokenIn)) {
+            pull = { ...pull, swapTxHash: txHash };
+            await savePull(pull);
+          }
+          return txHash;
+        }
+      );
+
+      if (swapResult.orderHash) {
+        await trackFusionOrder(chainId, record.agentId, {
+          orderHash: swapResult.orderHash,
+          fromToken: tokenIn,
+          toToken: tokenOut,
+          amount,
+        });
+
+        // The order's tokenIn is refunded through the pending order if it doesn't fill
+        schedule = markDcaOrderPending(
+          { ...schedule, pendingPull: undefined },
+          { orderHash: swapResult.orderHash, amount, amountWei: amountIn.toString() },
+          now
+        );
+        await updateAgentStrategy(chainId, record.agentId, { dca: schedule });
+
+        results.push({
+          ...result,
+          fundingTxHash: funding.txHash,
+          approvalTxHash: swapResult.approvalTxHash,
+          orderHash: swapResult.orderHash,
+          orderStatus: "pending",
+          nextRunAt: schedule.nextRunAt,
+        });
+        continue;
+      }
+
+      if (pull.swapTxHash) {
+        await publicClient.waitForTransactionReceipt({ hash: pull.swapTxHash as Hash });
+      }
+
+      // Pays the output to the owner, or returns tokenIn when the swap failed, reverted or was deferred
+      const outcome = await settleDcaPull(publicClient, walletClient, agent.owner, pull, now, savePull);
+      schedule = await finishDcaPull(chainId, record.agentId, schedule, outcome, now);
+
+      const swapError = outcome.swapped ? undefined : swapResult.error || "Swap transaction reverted";
+      const error = [swapError, outcome.error].filter(Boolean).join("; ") || undefined;
+      results.push({
+        ...result,
+        executed: Boolean(outcome.settled && outcome.swapped),
+        txHash: swapResult.txHash,
+        approvalTxHash: swapResult.approvalTxHash,
+        fundingTxHash: funding.txHash,
+        payoutTxHash: outcome.payoutTxHash,
+        refundTxHash: outcome.refundTxHash,
+        // Swaps deferred for gas cost stay due and run again on the next tick
+        ...(swapResult.deferred && outcome.settled ? { skipped: error } : { error }),
+        remainingBudget: getRemainingBudget(schedule),
+        nextRunAt: schedule.nextRunAt,
+      });
+    } catch (error: any) {
+      console.error(`Error running DCA schedule for agent ${record.agentId}:`, error);
+      results.push({
+        ...summary,
+        agentName: "Unknown",
+        executed: false,
+        error: error.message || "DCA run failed",
+      });
+    }
+  }
+
+  return results;
+}
+
+type ChainPublicClient = ReturnType<typeof createChainPublicClient>;
+
+interface TransferResult {
+  success: boolean;
+  txHash?: Hash;
+  error?: string;
+  unconfirmed?: boolean; // Sent, but its receipt couldn't be read
+}
+
+interface DcaPullOutcome {
+  settled: boolean; // Nothing is left in the keeper wallet; otherwise the next run retries
+  swapped?: boolean; // The swap went through (the run counts as a completed buy)
+  payoutTxHash?: string;
+  refundTxHash?: string;
+  error?: string;
+}
+
+/**
+ * Get the status of a keeper transaction
+ * @returns The receipt status, "unknown" while it has no receipt, or undefined without a hash
+ */
+async function getTxStatus(
+  publicClient: ChainPublicClient,
+  txHash?: string
+): Promise<"success" | "reverted" | "unknown" | undefined> {
+  if (!txHash) {
+    return undefined;
+  }
+  try {
+    return (await publicClient.getTransactionReceipt({ hash: txHash as Hash })).status;
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) return "unknown";
+    throw error;
+  }
+}
+
+/**
+ * Get the output a swap paid to the keeper, from the token's transfer logs
+ */
+async function getSwapOutput(
+  publicClient: ChainPublicClient,
+  swapTxHash: string,
+  token: string,
+  keeper: Address
+): Promise<bigint> {
+  const receipt = await publicClient.getTransactionReceipt({ hash: swapTxHash as Hash });
+  const transfers = parseEventLogs({
+    abi: erc20Abi,
+    eventName: "Transfer",
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, token as Address)),
+    args: { to: keeper },
+  });
+  return transfers.reduce((total, transfer) => total + transfer.args.value, BigInt(0));
+}
+
+/**
+ * Close out the owner funds pulled by a run: pay the swap output to the owner, or return
+ * tokenIn when the swap didn't go through
+ * Each step checks the receipt of the transaction recorded for it, so it can resume a run that
+ * stopped at any point; transactions still pending are waited for until PULL_TIMEOUT_SECONDS.
+ */
+async function settleDcaPull(
+  publicClient: ChainPublicClient,
+  walletClient: KeeperWalletClient,
+  owner: Address,
+  pull: PendingDcaPull,
+  now: number,
+  savePull: (pull: PendingDcaPull) => Promise<void>
+): Promise<DcaPullOutcome> {
+  const timedOut = now - pull.startedAt > PULL_TIMEOUT_SECONDS;
+
+  // Nothing was pulled unless the funding transaction succeeded
+  const funding = await getTxStatus(publicClient, pull.fundingTxHash);
+  if (funding !== "success") {
+    return funding === "reverted" || timedOut
+      ? { settled: true }
+      : { settled: false, error: "Waiting for the transaction pulling the owner's tokenIn" };
+  }
+
+  const swap = await getTxStatus(publicClient, pull.swapTxHash);
+  if (swap === "unknown" && !timedOut) {
+    return { settled: false, error: "Waiting for the swap transaction" };
+  }
+  const swapTxHash = swap === "success" ? pull.swapTxHash : undefined;
+  const swapped = swapTxHash !== undefined;
+  const sent = (txHash?: string) => ({ settled: true, swapped, [swapped ? "payoutTxHash" : "refundTxHash"]: txHash });
+
+  const returned = await getTxStatus(publicClient, pull.returnTxHash);
+  if (returned === "success") {
+    return sent(pull.returnTxHash);
+  }
+  if (returned === "unknown" && !timedOut) {
+    return { settled: false, swapped, error: "Waiting for the transfer to the owner" };
+  }
+
+  const keeper = walletClient.account.address;
+  const [token, amountWei] = swapTxHash
+    ? [pull.tokenOut, await getSwapOutput(publicClient, swapTxHash, pull.tokenOut, keeper)]
+    : [pull.tokenIn, BigInt(pull.amountWei)];
+  if (amountWei === BigInt(0)) {
+    return sent();
+  }
+
+  const transfer = await sendToOwner(publicClient, walletClient, token as Address, owner, amountWei, (txHash) =>
+    savePull({ ...pull, returnTxHash: txHash })
+  );
+  if (!transfer.success) {
+    return {
+      settled: false,
+      swapped,
+      error: `Failed to ${swapped ? "send the output" : "return tokenIn"} to the owner: ${transfer.error}`,
+    };
+  }
+  return sent(transfer.txHash);
+}
+
+/**
+ * Record the outcome of a pull in the schedule
+ * Settled pulls are cleared, and count as a completed buy when the swap went through
+ */
+async function finishDcaPull(
+  chainId: number,
+  agentId: Hash,
+  schedule: DcaSchedule,
+  outcome: DcaPullOutcome,
+  now: number
+): Promise<DcaSchedule> {
+  if (!outcome.settled || !schedule.pendingPull) {
+    return schedule;
+  }
+
+  const { pendingPull, ...rest } = schedule;
+  const updated = outcome.swapped ? advanceDcaSchedule(rest, pendingPull.amount, now) : rest;
+  await updateAgentStrategy(chainId, agentId, { dca: updated });
+  return updated;
+}
+
+/**
+ * Pull tokenIn for a swap from the agent owner into the keeper wallet
+ * Only what the owner approved for the keeper can be pulled
+ */
+async function pullOwnerFunds(
+  publicClient: ChainPublicClient,
+  walletClient: KeeperWalletClient,
+  token: Address,
+  owner: Address,
+  amountWei: bigint,
+  onSent?: (txHash: Hash) => Promise<void>
+): Promise<TransferResult> {
+  const keeper = walletClient.account.address;
+  const [allowance, balance] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "allowance", args: [owner, keeper] }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [owner] }),
+  ]);
+
+  if (allowance < amountWei) {
+    return {
+      success: false,
+      error: `The agent owner hasn't approved the keeper (${keeper}) to spend tokenIn for recurring buys`,
+    };
+  }
+  if (balance < amountWei) {
+    return { success: false, error: "The agent owner's tokenIn balance doesn't cover the swap" };
+  }
+
+  return sendAndConfirm(publicClient, () =>
+    walletClient.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "transferFrom",
+      args: [owner, keeper, amountWei],
+    }),
+    onSent
+  );
+}
+
+/**
+ * Send tokens from the keeper wallet to the agent owner
+ */
+function sendToOwner(
+  publicClient: ChainPublicClient,
+  walletClient: KeeperWalletClient,
+  token: Address,
+  owner: Address,
+  amountWei: bigint,
+  onSent?: (txHash: Hash) => Promise<void>
+): Promise<TransferResult> {
+  return sendAndConfirm(
+    publicClient,
+    () => walletClient.writeContract({ address: token, abi: erc20Abi, functionName: "transfer", args: [owner, amountWei] }),
+    onSent
+  );
+}
+
+/**
+ * Send a keeper transaction and wait for it to succeed
+ * @param onSent Called with the hash before waiting (e.g. to save it for resuming)
+ */
+async function sendAndConfirm(
+  publicClient: ChainPublicClient,
+  send: () => Promise<Hash>,
+  onSent?: (txHash: Hash) => Promise<void>
+): Promise<TransferResult> {
+  let txHash: Hash | undefined;
+  try {
+    txHash = await send();
+    await onSent?.(txHash);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    return receipt.status === "success"
+      ? { success: true, txHash }
+      : { success: false, txHash, error: "Token transfer reverted" };
+  } catch (error: any) {
+    return { success: false, txHash, unconfirmed: txHash !== undefined, error: error.message || "Token transfer failed" };
+  }
+}
+
+function createKeeperWalletClient(chainId: number, account: Account, rpcUrl?: string) {
+  return createWalletClient({
+    account,
+    chain: getChainConfig(chainId).chain,
+    transport: http(getRpcUrl(chainId, rpcUrl)),
+  });
+}
+
+type KeeperWalletClient = ReturnType<typeof createKeeperWalletClient>;
@@ -3,29 +3,60 @@
  * 
  * Handles on-chain execution of agent triggers
  * This requires a funded wallet to pay for gas and Pyth update fees
+ *
+ * Inactive agents and agents in their cooldown are refused from the registry's state; other
+ * executions are simulated before they are sent, so reverts (underpaid Pyth fee, unfunded keeper)
+ * are returned as structured errors without spending gas (see execution-errors.ts).
+ * With maxGasCost set, executions whose estimated gas costs more are deferred (see gas-cost.ts)
  */
 
-import { Hash } from "viem";
-import { createWalletClient, createPublicClient, http } from "viem";
+import { Account, Address, Hash, formatUnits } from "viem";
+import { createWalletClient, http } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { baseSepolia, base } from "viem/chains";
 import {
   getAgentRegistryAddress,
   TRADING_AGENT_REGISTRY_ABI,
 } from "./agent-registry";
 import { fetchBinaryPriceUpdates } from "@/lib/privy/pyth-service";
+import { getUpdateFee } from "@/lib/privy/pyth-contract";
+import { createChainPublicClient, getChainConfig, getRpcUrl } from "@/lib/chains/chain-registry";
+import { getTokenDecimals } from "@/lib/tokens/token-registry";
+import { checkGasCost, getTokenUsdPrice, type GasCostCheck, type GasCostLimit } from "./gas-cost";
+import {
+  EXECUTION_ERROR_MESSAGES,
+  PYTH_ERRORS_ABI,
+  decodeExecutionError,
+  type ExecutionErrorCode,
+} from "./execution-errors";
+
+// Default safety margin added on top of the quoted Pyth update fee (basis points)
+export const DEFAULT_FEE_MARGIN_BPS = 1000;
+
+// Sender of dry-run simulations without an executor account (funded with a state override)
+const SIMULATION_SENDER: Address = "0x000000000000000000000000000000000000dEaD";
 
 export interface ExecutionConfig {
   agentId: Hash;
   chainId: number;
-  privateKey: string; // Private key of wallet that will execute (must have funds)
+  privateKey?: string; // Private key of wallet that will execute (must have funds)
+  account?: Account; // Alternative to privateKey: any viem account (e.g. a keeper signer)
   rpcUrl?: string;
+  dryRun?: boolean; // Prepare the execution without submitting it
+  feeMarginBps?: number; // Margin on top of the Pyth update fee (default: PYTH_FEE_MARGIN_BPS or 10%)
+  maxGasCost?: GasCostLimit; // Defer the execution when its estimated gas costs more (default: no cap)
 }
 
 export interface ExecutionResult {
   success: boolean;
   txHash?: string;
+  dryRun?: boolean;
+  feePaid?: bigint; // Pyth update fee sent with the transaction (in wei)
+  gasUsed?: bigint;
+  deferred?: boolean; // Not sent because gas cost exceeded maxGasCost (error has the reason)
+  gasCostUsd?: number; // Estimated gas cost checked against maxGasCost
+  gasCheckSkipped?: string; // Why maxGasCost couldn't be checked (the execution went ahead)
   error?: string;
+  errorCode?: ExecutionErrorCode; // Why the execution failed or would revert (see execution-errors.ts)
 }
 
 /**
@@ -33,31 +64,23 @@ export interface ExecutionResult {
  * 
  * This function:
  * 1. Fetches Pyth price update data
- * 2. Calls checkAndExecuteTrigger on the registry contract
- * 3. Returns the transaction hash
+ * 2. Quotes the Pyth update fee and adds the safety margin
+ * 3. Simulates checkAndExecuteTrigger and decodes the revert reason if it would fail
+ * 4. Checks the estimated gas cost against maxGasCost (if set)
+ * 5. Calls checkAndExecuteTrigger on the registry contract
+ * 6. Returns the transaction hash and the fee paid
+ *
+ * In dry-run mode the execution is simulated (and gas checked) but no transaction is sent
  */
 export async function executeAgentTrigger(
   config: ExecutionConfig
 ): Promise<ExecutionResult> {
   try {
-    const { agentId, chainId, privateKey, rpcUrl } = config;
-
-    // Create wallet client
-    const account = privateKeyToAccount(privateKey as `0x${string}`);
-    const chain = chainId === 84532 ? baseSepolia : chainId === 8453 ? base : baseSepolia;
-
-    const walletClient = createWalletClient({
-      account,
-      chain,
-      transport: http(rpcUrl),
-    });
-
+    const { agentId, chainId, privateKey, rpcUrl, dryRun = false } = config;
+    const { chain } = getChainConfig(chainId);
     // Get agent to find price feed ID
     const registryAddress = getAgentRegistryAddress(chainId);
-    const publicClient = createPublicClient({
-      chain,
-      transport: http(rpcUrl),
-    });
+    const publicClient = createChainPublicClient(chainId, rpcUrl);
 
     const agent = await publicClient.readContract({
       address: registryAddress,
@@ -70,9 +93,23 @@ export async function executeAgentTrigger(
       return {
         success: false,
         error: "Agent not found or inactive",
+        errorCode: "inactive",
       };
     }
 
+    // The registry refuses executions until the cooldown since the last one has elapsed
+    const { lastExecuted, cooldownPeriod } = agent.strategy;
+    if (lastExecuted > BigInt(0)) {
+      const block = await publicClient.getBlock();
+      if (block.timestamp < lastExecuted + cooldownPeriod) {
+        return {
+          success: false,
+          error: EXECUTION_ERROR_MESSAGES.cooldown,
+          errorCode: "cooldown",
+        };
+      }
+    }
+
     // Fetch price update data
     const priceFeedId = agent.strategy.priceFeedId;
     const updateData = await fetchBinaryPriceUpdates([priceFeedId], chainId);
@@ -84,6 +121,87 @@ export async function executeAgentTrigger(
       };
     }
 
+    // Quote the update fee so executions don't revert when Pyth changes it
+    const updateFee = await getUpdateFee(publicClient, chainId, updateData);
+    const feePaid = applyFeeMargin(updateFee, config.feeMarginBps);
+
+    const account =
+      config.account ?? (privateKey ? privateKeyToAccount(privateKey as `0x${string}`) : null);
+
+    // Simulate first so executions that would revert don't spend gas; dry runs without an
+    // account simulate from a placeholder sender funded for the fee
+    try {
+      await publicClient.simulateContract({
+        address: registryAddress,
+        abi: TRADING_AGENT_REGISTRY_ABI,
+        functionName: "checkAndExecuteTrigger",
+        args: [agentId, updateData],
+        value: feePaid,
+        account: account ?? SIMULATION_SENDER,
+        stateOverride: account ? undefined : [{ address: SIMULATION_SENDER, balance: feePaid }],
+      });
+    } catch (error) {
+      // Pyth errors bubble up through the registry when the update fails
+      const simulationError = decodeExecutionError(error, [...TRADING_AGENT_REGISTRY_ABI, ...PYTH_ERRORS_ABI]);
+      return {
+        success: false,
+        dryRun: dryRun || undefined,
+        feePaid,
+        error: simulationError.message,
+        errorCode: simulationError.code,
+      };
+    }
+
+    // Defer while gas is too expensive for the trade; the trigger is still met on the next check
+    let gasCostUsd: number | undefined;
+    let gasCheckSkipped: string | undefined;
+    if (config.maxGasCost) {
+      const gasCheck = await checkTriggerGasCost(
+        config,
+        config.maxGasCost,
+        agent.strategy,
+        updateData,
+        feePaid,
+        account
+      );
+      if (!gasCheck.allowed) {
+        return {
+          success: false,
+          deferred: true,
+          dryRun: dryRun || undefined,
+          feePaid,
+          gasCostUsd: gasCheck.gasCostUsd,
+          error: gasCheck.reason,
+        };
+      }
+      gasCostUsd = gasCheck.gasCostUsd;
+      gasCheckSkipped = gasCheck.skipped;
+    }
+
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        feePaid,
+        gasCostUsd,
+        gasCheckSkipped,
+      };
+    }
+
+    // Create wallet client
+    if (!account) {
+      return {
+        success: false,
+        error: "No executor account configured",
+      };
+    }
+
+    const walletClient = createWalletClient({
+      account,
+      chain,
+      transport: http(getRpcUrl(chainId, rpcUrl)),
+    });
+
     // Execute checkAndExecuteTrigger
     // Note: This requires ETH for Pyth update fees
     const hash = await walletClient.writeContract({
@@ -91,7 +209,7 @@ export async function executeAgentTrigger(
       abi: TRADING_AGENT_REGISTRY_ABI,
       functionName: "checkAndExecuteTrigger",
       args: [agentId, updateData],
-      value: BigInt(100000), // Small amount for Pyth update fee (adjust as needed)
+      value: feePaid,
     });
 
     // Wait for transaction receipt
@@ -101,11 +219,18 @@ export async function executeAgentTrigger(
       return {
         success: true,
         txHash: hash,
+        feePaid,
+        gasUsed: receipt.gasUsed,
+        gasCostUsd,
+        gasCheckSkipped,
       };
     } else {
       return {
         success: false,
+        txHash: hash,
+        gasUsed: receipt.gasUsed,
         error: "Transaction reverted",
+        errorCode: "reverted",
       };
     }
   } catch (error: any) {
@@ -117,3 +242,82 @@ export async function executeAgentTrigger(
   }
 }
 
+/**
+ * Estimate the gas cost of checkAndExecuteTrigger and check it against the limit
+ * The trade's notional value is the strategy's amountIn priced with the tokenIn Pyth feed
+ */
+async function checkTriggerGasCost(
+  config: ExecutionConfig,
+  limit: GasCostLimit,
+  strategy: { tokenIn: Address; amountIn: bigint },
+  updateData: `0x${string}`[],
+  value: bigint,
+  account: Account | null
+): Promise<GasCostCheck> {
+  const { agentId, chainId, rpcUrl } = config;
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+
+  try {
+    const [gasUnits, tokenInPriceUsd, tokenInDecimals] = await Promise.all([
+      publicClient.estimateContractGas({
+        address: getAgentRegistryAddress(chainId),
+        abi: TRADING_AGENT_REGISTRY_ABI,
+        functionName: "checkAndExecuteTrigger",
+        args: [agentId, updateData],
+        value,
+        account: account ?? undefined,
+      }),
+      getTokenUsdPrice(strategy.tokenIn, chainId),
+      getTokenDecimals(strategy.tokenIn, chainId, rpcUrl),
+    ]);
+
+    return await checkGasCost({
+      gasUnits,
+      notionalUsd:
+        tokenInPriceUsd === null
+          ? null
+          : Number(formatUnits(strategy.amountIn, tokenInDecimals)) * tokenInPriceUsd,
+      limit,
+      chainId,
+      rpcUrl,
+    });
+  } catch (error: any) {
+    return {
+      allowed: false,
+      reason: `Gas cost unavailable: ${error.message || "Unknown error"}; deferred to the next run`,
+    };
+  }
+}
+
+/**
+ * Add the safety margin to a quoted Pyth update fee
+ * @param fee Quoted fee in wei
+ * @param marginBps Margin in basis points (defaults to PYTH_FEE_MARGIN_BPS env or DEFAULT_FEE_MARGIN_BPS)
+ * @returns Fee to send with the transaction
+ * @throws If marginBps isn't a non-negative integer
+ */
+export function applyFeeMargin(fee: bigint, marginBps?: number): bigint {
+  const bps = marginBps ?? getDefaultFeeMarginBps();
+  if (!Number.isInteger(bps) || bps < 0) {
+    throw new Error(`Invalid fee margin: ${bps} (expected a non-negative integer in basis points)`);
+  }
+  return fee + (fee * BigInt(bps)) / BigInt(10000);
+}
+
+/**
+ * Get the fee margin from PYTH_FEE_MARGIN_BPS
+ * Falls back to DEFAULT_FEE_MARGIN_BPS when it is unset or not a non-negative integer
+ */
+function getDefaultFeeMarginBps(): number {
+  const value = process.env.PYTH_FEE_MARGIN_BPS;
+  if (!value) {
+    return DEFAULT_FEE_MARGIN_BPS;
+  }
+
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0) {
+    console.warn(`Ignoring invalid PYTH_FEE_MARGIN_BPS "${value}"; using ${DEFAULT_FEE_MARGIN_BPS}`);
+    return DEFAULT_FEE_MARGIN_BPS;
+  }
+  return bps;
+}
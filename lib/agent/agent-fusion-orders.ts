@@ -0,0 +1,123 @@
+/**
+ * Agent Fusion Orders (server only)
+ *
+ * Tracks the 1inch Fusion orders placed for agents in "fusion" execution mode.
+ * Orders are stored with the agent's strategy settings and their status is refreshed
+ * from the Fusion API on each cron run until they are filled, expired or cancelled.
+ * Final states are recorded in agent history.
+ */
+
+import { Hash } from "viem";
+import { safeRecordHistory } from "./agent-history-store";
+import { getAgentStrategy, listAgentStrategies, updateAgentStrategy } from "./agent-strategy-store";
+import {
+  getFusionOrderStatus,
+  isFusionOrderFinal,
+  type FusionOrderStatus,
+  type TrackedFusionOrder,
+} from "@/lib/1inch/fusion-service";
+
+// Orders kept per agent (newest first)
+const MAX_TRACKED_ORDERS = 20;
+
+export interface FusionOrderUpdate {
+  agentId: Hash;
+  orderHash: string;
+  previousStatus: FusionOrderStatus;
+  status: FusionOrderStatus;
+  fillTxHash?: string;
+  error?: string;
+}
+
+/**
+ * Start tracking an order placed for an agent
+ */
+export async function trackFusionOrder(
+  chainId: number,
+  agentId: Hash,
+  order: Omit<TrackedFusionOrder, "status" | "placedAt" | "updatedAt">
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const existing = (await getAgentStrategy(chainId, agentId))?.fusionOrders ?? [];
+  const placed: TrackedFusionOrder = { ...order, status: "pending", placedAt: now, updatedAt: now };
+
+  await updateAgentStrategy(chainId, agentId, {
+    fusionOrders: [
+      placed,
+      ...existing.filter((tracked) => tracked.orderHash !== order.orderHash),
+    ].slice(0, MAX_TRACKED_ORDERS),
+  });
+}
+
+/**
+ * Refresh the status of every open Fusion order on a chain
+ * @returns Orders whose status changed (or could not be fetched)
+ */
+export async function refreshFusionOrders(chainId: number): Promise<FusionOrderUpdate[]> {
+  const records = (await listAgentStrategies(chainId)).filter((record) =>
+    record.fusionOrders?.some((order) => !isFusionOrderFinal(order.status))
+  );
+  const updates: FusionOrderUpdate[] = [];
+
+  for (const record of records) {
+    const now = Math.floor(Date.now() / 1000);
+    const orders: TrackedFusionOrder[] = [];
+
+    for (const order of record.fusionOrders!) {
+      if (isFusionOrderFinal(order.status)) {
+        orders.push(order);
+        continue;
+      }
+
+      try {
+        const state = await getFusionOrderStatus(order.orderHash, chainId);
+        const fillTxHash = state.fillTxHashes.at(-1) ?? order.fillTxHash;
+        orders.push({ ...order, status: state.status, fillTxHash, updatedAt: now });
+
+        if (state.status === order.status) {
+          continue;
+        }
+
+        updates.push({
+          agentId: record.agentId,
+          orderHash: order.orderHash,
+          previousStatus: order.status,
+          status: state.status,
+          fillTxHash,
+        });
+
+        if (isFusionOrderFinal(state.status)) {
+          await safeRecordHistory({
+            agentId: record.agentId,
+            chainId,
+            type: "swap",
+            success: state.status === "filled",
+            txHash: fillTxHash,
+            error: state.status === "filled" ? undefined : `Fusion order ${state.status}`,
+            details: {
+              fromToken: order.fromToken,
+              toToken: order.toToken,
+              amount: order.amount,
+              orderHash: order.orderHash,
+              orderStatus: state.status,
+            },
+          });
+        }
+      } catch (error: any) {
+        console.error(`Error fetching Fusion order ${order.orderHash}:`, error);
+        orders.push(order);
+        updates.push({
+          agentId: record.agentId,
+          orderHash: order.orderHash,
+          previousStatus: order.status,
+          status: order.status,
+          error: error.message || "Failed to fetch order status",
+        });
+      }
+    }
+
+    await updateAgentStrategy(chainId, record.agentId, { fusionOrders: orders });
+  }
+
+  return updates;
+}
@@ -0,0 +1,108 @@
+/**
+ * Agent History Storage (server only)
+ *
+ * File-backed implementation of AgentHistoryStore.
+ * Entries are appended as JSON lines so concurrent writers never rewrite the file.
+ * Once the file grows past its size limit it is rotated to "<path>.1" (replacing the
+ * previous rotation), so at most two files are kept and read.
+ *
+ * Environment variables:
+ * - AGENT_HISTORY_PATH: Path of the history file (default: .data/agent-history.jsonl)
+ * - AGENT_HISTORY_MAX_BYTES: Size at which the file is rotated (default: 5 MB)
+ */
+
+import { appendFile, mkdir, readFile, rename, stat } from "fs/promises";
+import path from "path";
+import {
+  createHistoryEntry,
+  filterHistory,
+  type AgentHistoryEntry,
+  type AgentHistoryStore,
+  type NewAgentHistoryEntry,
+} from "./agent-history";
+
+const DEFAULT_HISTORY_PATH = ".data/agent-history.jsonl";
+const DEFAULT_HISTORY_MAX_BYTES = 5 * 1024 * 1024;
+
+let historyStore: AgentHistoryStore | null = null;
+
+/**
+ * Create a history store backed by a JSON lines file
+ * @param filePath Path of the history file
+ * @param maxBytes Size at which the file is rotated
+ */
+export function createFileHistoryStore(
+  filePath: string,
+  maxBytes: number = DEFAULT_HISTORY_MAX_BYTES
+): AgentHistoryStore {
+  const resolvedPath = path.resolve(filePath);
+  const rotatedPath = `${resolvedPath}.1`;
+
+  const readEntries = async (file: string): Promise<AgentHistoryEntry[]> => {
+    try {
+      const contents = await readFile(file, "utf8");
+      return contents
+        .split("\n")
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line) as AgentHistoryEntry);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  return {
+    async record(entry) {
+      const fullEntry = createHistoryEntry(entry);
+      await mkdir(path.dirname(resolvedPath), { recursive: true });
+      await appendFile(resolvedPath, `${JSON.stringify(fullEntry)}\n`, "utf8");
+
+      // Another writer may have rotated the file in the meantime
+      try {
+        if ((await stat(resolvedPath)).size > maxBytes) {
+          await rename(resolvedPath, rotatedPath);
+        }
+      } catch (error: any) {
+        if (error.code !== "ENOENT") throw error;
+      }
+      return fullEntry;
+    },
+    async list(agentId, query) {
+      const [rotated, current] = await Promise.all([readEntries(rotatedPath), readEntries(resolvedPath)]);
+      return filterHistory([...rotated, ...current], agentId, query);
+    },
+  };
+}
+
+/**
+ * Get the configured history store
+ * Defaults to the file-backed store at AGENT_HISTORY_PATH
+ */
+export function getHistoryStore(): AgentHistoryStore {
+  if (!historyStore) {
+    const maxBytes = parseInt(process.env.AGENT_HISTORY_MAX_BYTES || "", 10);
+    historyStore = createFileHistoryStore(
+      process.env.AGENT_HISTORY_PATH || DEFAULT_HISTORY_PATH,
+      maxBytes > 0 ? maxBytes : DEFAULT_HISTORY_MAX_BYTES
+    );
+  }
+  return historyStore;
+}
+
+/**
+ * Replace the history store (plug in another backend)
+ */
+export function setHistoryStore(store: AgentHistoryStore): void {
+  historyStore = store;
+}
+
+/**
+ * Record a history entry without letting storage failures break monitoring
+ */
+export async function safeRecordHistory(entry: NewAgentHistoryEntry): Promise<void> {
+  try {
+    await getHistoryStore().record(entry);
+  } catch (error) {
+    console.error("Error recording agent history:", error);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Agent Execution History
+ *
+ * Types and storage interface for recording what agents did:
+ * monitor checks, triggers, on-chain executions and swaps
+ *
+ * This module is safe to import from client components.
+ * The file-backed store lives in agent-history-store.ts (server only).
+ */
+
+import type { Hash } from "viem";
+
+export type AgentHistoryEventType = "check" | "trigger" | "execution" | "swap";
+
+// Most entries a history query returns
+export const MAX_HISTORY_LIMIT = 200;
+
+export interface AgentHistoryEntry {
+  id: string;
+  agentId: Hash;
+  chainId: number;
+  type: AgentHistoryEventType;
+  timestamp: number; // Unix time in milliseconds
+  success: boolean;
+  triggerMet?: boolean;
+  price?: string; // Pyth price at check/trigger time (scaled by 1e8)
+  txHash?: string;
+  gasUsed?: string;
+  feePaid?: string; // Pyth update fee in wei
+  dryRun?: boolean;
+  error?: string;
+  details?: Record<string, string | number | boolean>; // Event-specific data (e.g. swap amounts)
+}
+
+export type NewAgentHistoryEntry = Omit<AgentHistoryEntry, "id" | "timestamp"> & {
+  timestamp?: number;
+};
+
+export interface HistoryQuery {
+  chainId?: number;
+  type?: AgentHistoryEventType;
+  limit?: number; // Most recent entries first
+}
+
+/**
+ * Storage backend for agent history
+ * Implement this interface to plug in another backend (database, KV store, ...)
+ */
+export interface AgentHistoryStore {
+  record(entry: NewAgentHistoryEntry): Promise<AgentHistoryEntry>;
+  list(agentId: Hash, query?: HistoryQuery): Promise<AgentHistoryEntry[]>;
+}
+
+/**
+ * Build a complete history entry
+ */
+export function createHistoryEntry(entry: NewAgentHistoryEntry): AgentHistoryEntry {
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: entry.timestamp ?? Date.now(),
+  };
+}
+
+/**
+ * Filter and order entries for a query
+ */
+export function filterHistory(
+  entries: AgentHistoryEntry[],
+  agentId: Hash,
+  query: HistoryQuery = {}
+): AgentHistoryEntry[] {
+  const matches = entries
+    .filter(
+      (entry) =>
+        entry.agentId.toLowerCase() === agentId.toLowerCase() &&
+        (query.chainId === undefined || entry.chainId === query.chainId) &&
+        (query.type === undefined || entry.type === query.type)
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * In-memory history store (useful for development and scripts)
+ */
+export function createMemoryHistoryStore(): AgentHistoryStore {
+  const entries: AgentHistoryEntry[] = [];
+
+  return {
+    async record(entry) {
+      const fullEntry = createHistoryEntry(entry);
+      entries.push(fullEntry);
+      return fullEntry;
+    },
+    async list(agentId, query) {
+      return filterHistory(entries, agentId, query);
+    },
+  };
+}
+
+/**
+ * Message an agent owner signs to record a swap through the history API route
+ * @param nonce Signing time in milliseconds (signatures expire and can't be replayed)
+ */
+export function getHistoryEntryMessage(
+  entry: Pick<NewAgentHistoryEntry, "agentId" | "chainId" | "success" | "txHash" | "error" | "details">,
+  nonce: number
+): string {
+  const { agentId, chainId, success, txHash, error, details } = entry;
+  return [
+    `Record swap for agent ${agentId}:`,
+    JSON.stringify({ success, txHash, error, details }),
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+  ].join("\n");
+}
+
+/**
+ * Record a swap through the history API route
+ * Used by client-side code (e.g. swaps signed in the browser); the route only accepts
+ * entries signed by the agent owner
+ * @param signMessage Signs with the owner's wallet (e.g. wagmi's signMessageAsync)
+ */
+export async function postAgentHistory(
+  entry: NewAgentHistoryEntry,
+  signMessage: (args: { message: string }) => Promise<`0x${string}`>
+): Promise<AgentHistoryEntry | null> {
+  try {
+    const nonce = Date.now();
+    const signature = await signMessage({ message: getHistoryEntryMessage(entry, nonce) });
+    const response = await fetch(`/api/agent/${entry.agentId}/history`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...entry, nonce, signature }),
+    });
+
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.entry;
+  } catch (error) {
+    console.error("Error recording agent history:", error);
+    return null;
+  }
+}
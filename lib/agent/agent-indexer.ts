@@ -0,0 +1,299 @@
+/**
+ * Agent Registry Indexer (server only)
+ *
+ * Backfills and tails TradingAgentRegistry events to maintain a local table
+ * of every agent on the registry and every trigger execution.
+ * Lets the monitor discover agents without a per-user address allowlist.
+ *
+ * Environment variables:
+ * - AGENT_INDEX_DIR: Directory for index files (default: .data)
+ * - AGENT_REGISTRY_START_BLOCK: Block to start backfilling from (registry deployment block)
+ */
+
+import { Address, Hash } from "viem";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  getAgentRegistryAddress,
+  TRADING_AGENT_REGISTRY_ABI,
+  type Agent,
+} from "./agent-registry";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+
+// Maximum block range per getLogs request (most RPC providers cap this)
+const LOG_BLOCK_RANGE = BigInt(10000);
+
+export interface IndexedAgent {
+  agentId: Hash;
+  owner: Address;
+  ensName: string;
+  isActive: boolean;
+  createdBlock: string;
+  updatedBlock: string;
+}
+
+export interface IndexedExecution {
+  agentId: Hash;
+  price: string;
+  timestamp: string;
+  blockNumber: string;
+  txHash: Hash;
+}
+
+export interface RegistryIndex {
+  chainId: number;
+  registryAddress: Address;
+  lastIndexedBlock: string | null;
+  agents: Record<Hash, IndexedAgent>;
+  executions: IndexedExecution[];
+}
+
+// Decoded registry log (shape shared by getContractEvents and watchContractEvent)
+interface RegistryLog {
+  eventName: string;
+  args: { agentId?: Hash; price?: bigint; timestamp?: bigint };
+  blockNumber: bigint | null;
+  transactionHash: Hash | null;
+}
+
+export interface IndexSyncResult {
+  fromBlock: string;
+  toBlock: string;
+  newAgents: number;
+  updatedAgents: number;
+  executions: number;
+}
+
+/**
+ * Get the index file path for a chain
+ */
+function getIndexPath(chainId: number): string {
+  return path.resolve(process.env.AGENT_INDEX_DIR || ".data", `registry-index-${chainId}.json`);
+}
+
+/**
+ * Load the registry index for a chain (empty index if none exists yet)
+ */
+export async function loadRegistryIndex(chainId: number): Promise<RegistryIndex> {
+  const registryAddress = getAgentRegistryAddress(chainId);
+
+  try {
+    const index = JSON.parse(await readFile(getIndexPath(chainId), "utf8")) as RegistryIndex;
+    // Start over if the registry was redeployed
+    if (index.registryAddress.toLowerCase() === registryAddress.toLowerCase()) {
+      return index;
+    }
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+
+  return {
+    chainId,
+    registryAddress,
+    lastIndexedBlock: null,
+    agents: {},
+    executions: [],
+  };
+}
+
+/**
+ * Persist the registry index
+ */
+export async function saveRegistryIndex(index: RegistryIndex): Promise<void> {
+  const indexPath = getIndexPath(index.chainId);
+  await mkdir(path.dirname(indexPath), { recursive: true });
+  await writeFile(indexPath, JSON.stringify(index, null, 2), "utf8");
+}
+
+/**
+ * Refresh an agent's indexed state from the registry
+ */
+async function refreshAgent(
+  index: RegistryIndex,
+  agentId: Hash,
+  blockNumber: bigint,
+  publicClient: ReturnType<typeof createChainPublicClient>
+): Promise<boolean> {
+  const agent = (await publicClient.readContract({
+    address: index.registryAddress,
+    abi: TRADING_AGENT_REGISTRY_ABI,
+    functionName: "getAgent",
+    args: [agentId],
+  })) as Agent;
+
+  const existing = index.agents[agentId];
+  index.agents[agentId] = {
+    agentId,
+    owner: agent.owner,
+    ensName: agent.ensName,
+    isActive: agent.exists && agent.strategy.isActive,
+    createdBlock: existing?.createdBlock ?? blockNumber.toString(),
+    updatedBlock: blockNumber.toString(),
+  };
+
+  return !existing;
+}
+
+/**
+ * Apply decoded registry logs to the index
+ */
+async function applyLogs(
+  index: RegistryIndex,
+  logs: RegistryLog[],
+  publicClient: ReturnType<typeof createChainPublicClient>
+): Promise<Omit<IndexSyncResult, "fromBlock" | "toBlock">> {
+  const changedAgents = new Map<Hash, bigint>();
+  let executions = 0;
+
+  for (const log of logs) {
+    const agentId = log.args.agentId;
+    if (!agentId || log.blockNumber === null) continue;
+
+    if (log.eventName === "TriggerExecuted") {
+      index.executions.push({
+        agentId,
+        price: (log.args.price ?? BigInt(0)).toString(),
+        timestamp: (log.args.timestamp ?? BigInt(0)).toString(),
+        blockNumber: log.blockNumber.toString(),
+        txHash: log.transactionHash ?? ("0x" as Hash),
+      });
+      executions++;
+    }
+
+    // Every event may change agent state (lastExecuted, strategy, activity)
+    changedAgents.set(agentId, log.blockNumber);
+  }
+
+  let newAgents = 0;
+  for (const [agentId, blockNumber] of changedAgents) {
+    if (await refreshAgent(index, agentId, blockNumber, publicClient)) {
+      newAgents++;
+    }
+  }
+
+  return {
+    newAgents,
+    updatedAgents: changedAgents.size - newAgents,
+    executions,
+  };
+}
+
+/**
+ * Backfill registry events up to the latest block
+ * Resumes from the last indexed block on subsequent calls
+ */
+export async function syncRegistryIndex(
+  chainId: number,
+  rpcUrl?: string
+): Promise<IndexSyncResult> {
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const index = await loadRegistryIndex(chainId);
+
+  const startBlock =
+    index.lastIndexedBlock !== null
+      ? BigInt(index.lastIndexedBlock) + BigInt(1)
+      : BigInt(process.env.AGENT_REGISTRY_START_BLOCK || "0");
+  const latestBlock = await publicClient.getBlockNumber();
+
+  const result: IndexSyncResult = {
+    fromBlock: startBlock.toString(),
+    toBlock: latestBlock.toString(),
+    newAgents: 0,
+    updatedAgents: 0,
+    executions: 0,
+  };
+
+  for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += LOG_BLOCK_RANGE) {
+    const toBlock =
+      fromBlock + LOG_BLOCK_RANGE - BigInt(1) < latestBlock
+        ? fromBlock + LOG_BLOCK_RANGE - BigInt(1)
+        : latestBlock;
+
+    const logs = await publicClient.getContractEvents({
+      address: index.registryAddress,
+      abi: TRADING_AGENT_REGISTRY_ABI,
+      fromBlock,
+      toBlock,
+    });
+    const applied = await applyLogs(index, logs, publicClient);
+
+    result.newAgents += applied.newAgents;
+    result.updatedAgents += applied.updatedAgents;
+    result.executions += applied.executions;
+
+    // Save progress per chunk so a failed backfill resumes where it stopped
+    index.lastIndexedBlock = toBlock.toString();
+    await saveRegistryIndex(index);
+  }
+
+  return result;
+}
+
+/**
+ * Tail registry events and keep the index up to date
+ * Intended for long-running processes (not serverless functions)
+ * @returns Function that stops watching
+ */
+export function watchRegistryEvents(
+  chainId: number,
+  rpcUrl?: string,
+  onUpdate?: (index: RegistryIndex) => void
+): () => void {
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+
+  // Serialize updates so concurrent batches don't overwrite each other
+  let queue = Promise.resolve();
+
+  return publicClient.watchContractEvent({
+    address: getAgentRegistryAddress(chainId),
+    abi: TRADING_AGENT_REGISTRY_ABI,
+    onLogs: (logs) => {
+      queue = queue
+        .then(async () => {
+          const index = await loadRegistryIndex(chainId);
+          await applyLogs(index, logs, publicClient);
+
+          const lastBlock = logs.reduce(
+            (max, log) => (log.blockNumber !== null && log.blockNumber > max ? log.blockNumber : max),
+            BigInt(index.lastIndexedBlock ?? "0")
+          );
+          index.lastIndexedBlock = lastBlock.toString();
+
+          await saveRegistryIndex(index);
+          onUpdate?.(index);
+        })
+        .catch((error) => {
+          console.error("Error applying registry events:", error);
+        });
+    },
+    onError: (error) => {
+      console.error("Error watching registry events:", error);
+    },
+  });
+}
+
+/**
+ * Get indexed agent IDs for a chain
+ */
+export async function getIndexedAgentIds(
+  chainId: number,
+  options: { activeOnly?: boolean } = {}
+): Promise<Hash[]> {
+  const index = await loadRegistryIndex(chainId);
+  return Object.values(index.agents)
+    .filter((agent) => !options.activeOnly || agent.isActive)
+    .map((agent) => agent.agentId);
+}
+
+/**
+ * Get indexed trigger executions, optionally for a single agent
+ */
+export async function getIndexedExecutions(
+  chainId: number,
+  agentId?: Hash
+): Promise<IndexedExecution[]> {
+  const index = await loadRegistryIndex(chainId);
+  return agentId
+    ? index.executions.filter((execution) => execution.agentId.toLowerCase() === agentId.toLowerCase())
+    : index.executions;
+}
@@ -0,0 +1,45 @@
+/**
+ * Agent Keeper Configuration
+ *
+ * Resolves the keeper wallet used by the monitor to submit
+ * checkAndExecuteTrigger transactions for triggered agents
+ */
+
+import type { Account } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+export interface KeeperConfig {
+  account?: Account; // Signer that pays gas and Pyth fees (any viem account)
+  dryRun: boolean; // Prepare executions without submitting them
+}
+
+/**
+ * Create a keeper from a pluggable viem account
+ */
+export function createKeeper(account: Account, dryRun: boolean = false): KeeperConfig {
+  return { account, dryRun };
+}
+
+/**
+ * Load keeper configuration from environment
+ *
+ * Environment variables:
+ * - KEEPER_PRIVATE_KEY: Private key of the funded keeper wallet
+ * - KEEPER_DRY_RUN: Set to "true" to check and prepare executions without sending them
+ *
+ * @returns Keeper config, or null if neither a key nor dry-run mode is configured
+ */
+export function getKeeperFromEnv(): KeeperConfig | null {
+  const privateKey = process.env.KEEPER_PRIVATE_KEY;
+  const dryRun = process.env.KEEPER_DRY_RUN === "true";
+
+  if (!privateKey) {
+    return dryRun ? { dryRun } : null;
+  }
+
+  const key = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+  return {
+    account: privateKeyToAccount(key as `0x${string}`),
+    dryRun,
+  };
+}
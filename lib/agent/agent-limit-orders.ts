@@ -0,0 +1,183 @@
+/**
+ * Agent Limit Orders (server only)
+ *
+ * Tracks the 1inch limit orders placed from agents' threshold strategies.
+ * Orders are stored with the agent's strategy settings and reconciled on each cron run
+ * from Limit Order Protocol events: every fill is recorded in agent history as a swap,
+ * and orders that are cancelled or expire before filling are recorded as failed.
+ */
+
+import { Address, Hash, formatUnits } from "viem";
+import { safeRecordHistory } from "./agent-history-store";
+import { listAgentStrategies, modifyAgentStrategy } from "./agent-strategy-store";
+import {
+  applyLimitOrderEvents,
+  getLimitOrderEvents,
+  getSignedLimitOrder,
+  isLimitOrderFinal,
+  type LimitOrderStatus,
+  type SignedLimitOrder,
+  type TrackedLimitOrder,
+} from "@/lib/1inch/limit-orders";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import { getToken, getTokenDecimals } from "@/lib/tokens/token-registry";
+
+// Orders kept per agent (newest first)
+const MAX_TRACKED_ORDERS = 20;
+
+export interface LimitOrderUpdate {
+  agentId: Hash;
+  orderHash: Hash;
+  previousStatus: LimitOrderStatus;
+  status: LimitOrderStatus;
+  fills: number; // Fills found in this run
+}
+
+/**
+ * Start tracking a signed order placed for an agent
+ * @returns The tracked order
+ */
+export async function trackLimitOrder(
+  chainId: number,
+  agentId: Hash,
+  signed: SignedLimitOrder,
+  rpcUrl?: string
+): Promise<TrackedLimitOrder> {
+  const { order, orderHash } = getSignedLimitOrder(chainId, signed);
+  const currentBlock = await createChainPublicClient(chainId, rpcUrl).getBlockNumber();
+
+  const tracked: TrackedLimitOrder = {
+    orderHash,
+    maker: order.maker.toString() as Address,
+    makerTraits: order.makerTraits.asBigInt().toString(),
+    makerAsset: order.makerAsset.toString() as Address,
+    takerAsset: order.takerAsset.toString() as Address,
+    makingAmount: order.makingAmount.toString(),
+    takingAmount: order.takingAmount.toString(),
+    filledAmount: "0",
+    status: "open",
+    expiresAt: Number(order.makerTraits.expiration() ?? BigInt(0)),
+    placedAt: Math.floor(Date.now() / 1000),
+    // Start one block back so a fill in the current block isn't missed
+    checkedBlock: (currentBlock - BigInt(1)).toString(),
+  };
+
+  await modifyAgentStrategy(chainId, agentId, (current) => ({
+    limitOrders: [
+      tracked,
+      ...(current?.limitOrders ?? []).filter((existingOrder) => existingOrder.orderHash !== orderHash),
+    ].slice(0, MAX_TRACKED_ORDERS),
+  }));
+
+  return tracked;
+}
+
+/**
+ * Format a token amount for history entries
+ */
+async function describeAmount(token: string, amount: bigint, chainId: number, rpcUrl?: string) {
+  const decimals = await getTokenDecimals(token, chainId, rpcUrl);
+  return {
+    symbol: getToken(token, chainId)?.symbol ?? token,
+    amount: Number(formatUnits(amount, decimals)),
+  };
+}
+
+/**
+ * Reconcile every open limit order on a chain with Limit Order Protocol events
+ * @returns Orders whose status changed or that were (partially) filled
+ */
+export async function reconcileLimitOrders(chainId: number, rpcUrl?: string): Promise<LimitOrderUpdate[]> {
+  const records = (await listAgentStrategies(chainId)).filter((record) =>
+    record.limitOrders?.some((order) => !isLimitOrderFinal(order.status))
+  );
+  if (records.length === 0) {
+    return [];
+  }
+
+  // Scan once from the earliest block any open order still needs
+  const fromBlock = records
+    .flatMap((record) => record.limitOrders!.filter((order) => !isLimitOrderFinal(order.status)))
+    .map((order) => BigInt(order.checkedBlock))
+    .reduce((earliest, block) => (block < earliest ? block : earliest));
+  const { events, toBlock } = await getLimitOrderEvents(chainId, fromBlock + BigInt(1), rpcUrl);
+  const updates: LimitOrderUpdate[] = [];
+
+  for (const record of records) {
+    const updatedOrders = new Map<Hash, TrackedLimitOrder>();
+
+    for (const order of record.limitOrders!) {
+      if (isLimitOrderFinal(order.status)) {
+        continue;
+      }
+
+      const { order: updated, fills } = applyLimitOrderEvents(order, events, toBlock);
+      updatedOrders.set(order.orderHash, updated);
+
+      for (const fill of fills) {
+        const [from, to] = await Promise.all([
+          describeAmount(order.makerAsset, fill.makingAmount, chainId, rpcUrl),
+          describeAmount(order.takerAsset, fill.takingAmount, chainId, rpcUrl),
+        ]);
+
+        await safeRecordHistory({
+          agentId: record.agentId,
+          chainId,
+          type: "swap",
+          success: true,
+          txHash: fill.txHash,
+          details: {
+            fromToken: from.symbol,
+            toToken: to.symbol,
+            amount: from.amount,
+            outputAmount: to.amount,
+            orderHash: order.orderHash,
+            orderStatus: updated.status,
+          },
+        });
+      }
+
+      // Orders that end without filling completely are recorded as failed
+      if (updated.status === "cancelled" || updated.status === "expired") {
+        const remaining = await describeAmount(
+          order.makerAsset,
+          BigInt(updated.makingAmount) - BigInt(updated.filledAmount),
+          chainId,
+          rpcUrl
+        );
+
+        await safeRecordHistory({
+          agentId: record.agentId,
+          chainId,
+          type: "swap",
+          success: false,
+          error: `Limit order ${updated.status}`,
+          details: {
+            fromToken: remaining.symbol,
+            toToken: getToken(order.takerAsset, chainId)?.symbol ?? order.takerAsset,
+            amount: remaining.amount,
+            orderHash: order.orderHash,
+            orderStatus: updated.status,
+          },
+        });
+      }
+
+      if (fills.length > 0 || updated.status !== order.status) {
+        updates.push({
+          agentId: record.agentId,
+          orderHash: order.orderHash,
+          previousStatus: order.status,
+          status: updated.status,
+          fills: fills.length,
+        });
+      }
+    }
+
+    // Merge into the current orders, keeping any tracked since they were read
+    await modifyAgentStrategy(chainId, record.agentId, (current) => ({
+      limitOrders: (current?.limitOrders ?? []).map((order) => updatedOrders.get(order.orderHash) ?? order),
+    }));
+  }
+
+  return updates;
+}
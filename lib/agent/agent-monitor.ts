@@ -3,26 +3,61 @@
  * 
  * Monitors active trading agents and executes trades when price triggers are met
  * This service should be called periodically (e.g., via cron job or scheduled task)
+ *
+ * Only keeper-driven runs (the cron route, with persistState) write history, price samples
+ * and condition state; other callers (the public monitor route, with a caller-supplied RPC)
+ * only report
  */
 
 import { Address, Hash } from "viem";
-import { createPublicClient, http } from "viem";
-import { baseSepolia, base } from "viem/chains";
 import {
   getAgentRegistryAddress,
   TRADING_AGENT_REGISTRY_ABI,
   type Agent,
 } from "./agent-registry";
-import { fetchBinaryPriceUpdates } from "@/lib/privy/pyth-service";
+import { executeAgentTrigger, type ExecutionResult } from "./agent-executor";
+import type { KeeperConfig } from "./agent-keeper";
+import { getHistoryStore, safeRecordHistory } from "./agent-history-store";
+import {
+  getAgentStrategy,
+  updateAgentStrategy,
+  type AgentStrategyRecord,
+} from "./agent-strategy-store";
+import {
+  evaluateCondition,
+  getConditionFeeds,
+  getLeafConditions,
+  getWindowKey,
+  isOneShotCondition,
+  updateExtremes,
+  type ConditionContext,
+  type PriceMap,
+} from "./strategy-conditions";
+import { fetchPriceUpdatesFromHermes, formatPrice } from "@/lib/privy/pyth-service";
+import { getPriceFeedId } from "@/lib/privy/pyth-contract";
+import { getPriceAt, recordPriceSamples, type PriceSample } from "@/lib/privy/pyth-price-history";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import { isLimitOrderFinal } from "@/lib/1inch/limit-orders";
+import type { GasCostLimit } from "./gas-cost";
+import type { ExecutionErrorCode } from "./execution-errors";
 
 export interface MonitoringResult {
   agentId: Hash;
   agentName: string;
   triggerMet: boolean;
   currentPrice: bigint;
+  conditionMet?: boolean; // Result of the off-chain condition (agents with conditions only)
   executed: boolean;
+  dryRun?: boolean;
   txHash?: string;
+  feePaid?: bigint;
+  deferred?: string; // Why a met trigger wasn't executed this run (gas cost over maxGasCost)
   error?: string;
+  errorCode?: ExecutionErrorCode; // Structured cause of an execution error (e.g. "cooldown")
+}
+
+export interface MonitorOptions {
+  persistState?: boolean; // Record history and condition state (keeper-driven runs only; default: false)
 }
 
 export interface MonitoringStats {
@@ -88,55 +123,185 @@ async function getAgentDetails(
 }
 
 /**
- * Execute trigger on-chain and perform swap
+ * Fetch USD prices from Hermes for the feeds used by a condition
  */
-async function executeTrigger(
-  _agentId: Hash,
-  agent: Agent,
-  chainId: number,
-  _publicClient: any,
-  _walletClient?: any
-): Promise<{ success: boolean; txHash?: string; error?: string }> {
-  try {
-    // Fetch price update data for Pyth
-    const priceFeedId = agent.strategy.priceFeedId;
-    const updateData = await fetchBinaryPriceUpdates([priceFeedId], chainId);
-
-    if (!updateData || updateData.length === 0) {
-      return {
-        success: false,
-        error: "Failed to fetch price update data",
+async function fetchConditionPrices(feeds: string[]): Promise<Record<string, PriceSample>> {
+  const feedIds = feeds.map((feed) => getPriceFeedId(feed));
+  const updates = await fetchPriceUpdatesFromHermes(feedIds);
+
+  const samples: Record<string, PriceSample> = {};
+  feeds.forEach((feed, i) => {
+    const feedId = feedIds[i].replace(/^0x/, "").toLowerCase();
+    const update = updates.find((u) => u.priceId.replace(/^0x/, "").toLowerCase() === feedId);
+    if (update) {
+      samples[feed] = {
+        price: formatPrice(update.price, update.expo),
+        publishTime: update.publishTime,
       };
     }
+  });
 
-    // For now, we'll return that execution needs to be done manually
-    // In a production system, you'd use a wallet with funds to execute
-    return {
-      success: false,
-      error: "Automatic execution requires a funded wallet. Use checkAndExecuteTrigger manually.",
-    };
-  } catch (error: any) {
+  return samples;
+}
+
+/**
+ * Build the evaluation context for an agent's stored condition
+ * Resolves look-back prices for percent-move conditions and, unless recordSamples is false
+ * (read-only callers), records the fetched prices for later look-backs
+ */
+export async function buildConditionContext(
+  strategy: AgentStrategyRecord,
+  { recordSamples = true }: { recordSamples?: boolean } = {}
+): Promise<ConditionContext> {
+  if (!strategy.condition) {
+    return { prices: {} };
+  }
+
+  const samples = await fetchConditionPrices(getConditionFeeds(strategy.condition));
+  const prices: PriceMap = {};
+  for (const [feed, sample] of Object.entries(samples)) {
+    prices[feed] = sample.price;
+  }
+
+  if (recordSamples) {
+    try {
+      await recordPriceSamples(samples);
+    } catch (error) {
+      console.error("Error recording price samples:", error);
+    }
+  }
+
+  const windowPrices: PriceMap = {};
+  const now = Math.floor(Date.now() / 1000);
+  for (const leaf of getLeafConditions(strategy.condition)) {
+    if (leaf.kind !== "percentChange") continue;
+
+    const key = getWindowKey(leaf.feed, leaf.windowSeconds);
+    if (key in windowPrices) continue;
+
+    const reference = await getPriceAt(leaf.feed, now - leaf.windowSeconds);
+    if (reference !== null) {
+      windowPrices[key] = reference;
+    }
+  }
+
+  return {
+    prices,
+    previousPrices: strategy.lastPrices,
+    windowPrices,
+    extremes: updateExtremes(strategy.extremes, prices),
+  };
+}
+
+/**
+ * Execute trigger on-chain using the keeper wallet
+ */
+async function executeTrigger(
+  agentId: Hash,
+  chainId: number,
+  rpcUrl?: string,
+  keeper?: KeeperConfig | null,
+  maxGasCost?: GasCostLimit
+): Promise<ExecutionResult> {
+  if (!keeper || (!keeper.account && !keeper.dryRun)) {
     return {
       success: false,
-      error: error.message || "Execution failed",
+      error: "No keeper wallet configured. Set KEEPER_PRIVATE_KEY to enable automatic execution.",
     };
   }
+
+  return executeAgentTrigger({
+    agentId,
+    chainId,
+    account: keeper.account,
+    rpcUrl,
+    dryRun: keeper.dryRun,
+    maxGasCost,
+  });
+}
+
+/**
+ * Check that an agent's off-chain conditions can be trusted before executing it
+ * @returns Why the agent must not be executed, or null
+ */
+function getOffChainSettingsError(agent: Agent, strategy: AgentStrategyRecord | null): string | null {
+  const alwaysMet = agent.strategy.triggerPrice === BigInt(0) && agent.strategy.triggerAbove;
+  if (alwaysMet && !strategy?.condition) {
+    return "Agent has an always-met trigger but no stored conditions or DCA schedule; not executing";
+  }
+  if (strategy?.conditionSigner && strategy.conditionSigner.toLowerCase() !== agent.owner.toLowerCase()) {
+    return "Agent conditions were not signed by the agent owner; not executing";
+  }
+  return null;
+}
+
+/**
+ * Record a met trigger and the result of executing it
+ */
+async function recordTriggerHistory(
+  agentId: Hash,
+  chainId: number,
+  price: bigint,
+  triggeredAt: number,
+  executionResult: ExecutionResult
+): Promise<void> {
+  await safeRecordHistory({
+    agentId,
+    chainId,
+    type: "trigger",
+    timestamp: triggeredAt,
+    success: true,
+    triggerMet: true,
+    price: price.toString(),
+  });
+
+  await safeRecordHistory({
+    agentId,
+    chainId,
+    type: "execution",
+    success: executionResult.success,
+    triggerMet: true,
+    price: price.toString(),
+    txHash: executionResult.txHash,
+    gasUsed: executionResult.gasUsed?.toString(),
+    feePaid: executionResult.feePaid?.toString(),
+    dryRun: executionResult.dryRun,
+    error: executionResult.error,
+    details: {
+      ...(executionResult.deferred && { deferred: true }),
+      ...(executionResult.gasCostUsd !== undefined && { gasCostUsd: executionResult.gasCostUsd }),
+      ...(executionResult.gasCheckSkipped && { gasCheckSkipped: executionResult.gasCheckSkipped }),
+      ...(executionResult.errorCode && { errorCode: executionResult.errorCode }),
+    },
+  });
+}
+
+/**
+ * Check whether an agent's last recorded execution was deferred
+ * Deferred triggers are re-checked on every run, so repeated deferrals are recorded once
+ */
+async function isLastExecutionDeferred(agentId: Hash, chainId: number): Promise<boolean> {
+  try {
+    const [last] = await getHistoryStore().list(agentId, { chainId, type: "execution", limit: 1 });
+    return Boolean(last?.details?.deferred);
+  } catch (error) {
+    console.error("Error reading agent history:", error);
+    return false;
+  }
 }
 
 /**
  * Monitor a single agent
+ * Triggered agents are executed with the keeper wallet when one is provided
  */
 export async function monitorAgent(
   agentId: Hash,
   chainId: number,
-  rpcUrl?: string
+  rpcUrl?: string,
+  keeper?: KeeperConfig | null,
+  { persistState = false }: MonitorOptions = {}
 ): Promise<MonitoringResult> {
-  const chain = chainId === 84532 ? baseSepolia : chainId === 8453 ? base : baseSepolia;
-  
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(rpcUrl),
-  });
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
 
   // Get agent details
   const agent = await getAgentDetails(agentId, chainId, publicClient);
@@ -151,30 +316,134 @@ export async function monitorAgent(
     };
   }
 
+  // DCA agents run on their schedule (see agent-dca), not on price triggers, and agents
+  // with an open limit order are settled by the order (see agent-limit-orders)
+  const strategy = await getAgentStrategy(chainId, agentId);
+  if (strategy?.dca || strategy?.limitOrders?.some((order) => !isLimitOrderFinal(order.status))) {
+    return {
+      agentId,
+      agentName: agent.ensName,
+      triggerMet: false,
+      currentPrice: BigInt(0),
+      executed: false,
+    };
+  }
+
+  // Condition agents have an always-met on-chain trigger (price > 0), so fail closed when
+  // their conditions are missing or weren't signed by the owner
+  const settingsError = getOffChainSettingsError(agent, strategy);
+  if (settingsError) {
+    return {
+      agentId,
+      agentName: agent.ensName,
+      triggerMet: false,
+      currentPrice: BigInt(0),
+      executed: false,
+      error: settingsError,
+    };
+  }
+
+  // Take-profit/stop-loss conditions close the position once; set new conditions to re-arm
+  if (strategy?.conditionConsumedAt) {
+    return {
+      agentId,
+      agentName: agent.ensName,
+      triggerMet: false,
+      currentPrice: BigInt(0),
+      conditionMet: false,
+      executed: false,
+    };
+  }
+
   // Check trigger
-  const { met, currentPrice } = await checkAgentTrigger(agentId, chainId, publicClient);
+  const trigger = await checkAgentTrigger(agentId, chainId, publicClient);
+  const { currentPrice } = trigger;
+  let met = trigger.met;
+  let conditionMet: boolean | undefined;
+
+  // Agents with off-chain conditions only fire when the composite condition holds
+  // (their on-chain trigger is always met, so the contract only enforces the cooldown)
+  let context: ConditionContext | undefined;
+  if (strategy?.condition) {
+    context = await buildConditionContext(strategy, { recordSamples: persistState });
+    conditionMet = evaluateCondition(strategy.condition, context);
+    met = met && conditionMet;
+  }
 
   if (!met) {
+    // The prices become the previous prices ("crosses" operators) unless the condition held
+    // and wasn't acted on (on-chain trigger unreadable), so the crossing isn't lost
+    if (persistState && context) {
+      await updateAgentStrategy(chainId, agentId, {
+        extremes: context.extremes,
+        ...(!conditionMet && { lastPrices: context.prices }),
+      });
+    }
     return {
       agentId,  
       agentName: agent.ensName,
       triggerMet: false,
       currentPrice,
+      conditionMet,
       executed: false,
     };
   }
 
   // Trigger is met - attempt execution
-  const executionResult = await executeTrigger(agentId, agent, chainId, publicClient);
+  const triggeredAt = Date.now();
+  const executionResult = await executeTrigger(agentId, chainId, rpcUrl, keeper, strategy?.maxGasCost);
+
+  // Checks that don't trigger aren't recorded (they'd add an entry per agent on every tick),
+  // and neither are deferrals following a recorded deferral
+  if (persistState && !(executionResult.deferred && (await isLastExecutionDeferred(agentId, chainId)))) {
+    await recordTriggerHistory(agentId, chainId, currentPrice, triggeredAt, executionResult);
+  }
+
+  // Trailing stops re-arm from the execution price and one-shot conditions are consumed.
+  // Keeper runs advance the previous prices only once the tick was acted on, so a crossing
+  // whose execution failed or was deferred fires again on the next run
+  if (strategy?.condition && context) {
+    const update: Partial<AgentStrategyRecord> = {};
+    if (persistState) {
+      update.extremes = context.extremes;
+      if (executionResult.success) update.lastPrices = context.prices;
+    }
+    if (executionResult.success && !executionResult.dryRun) {
+      update.extremes = undefined;
+      if (isOneShotCondition(strategy.condition)) update.conditionConsumedAt = Date.now();
+    }
+    if (Object.keys(update).length > 0) {
+      await updateAgentStrategy(chainId, agentId, update);
+    }
+  }
+
+  // A deferred execution isn't a failure: the trigger is checked again on the next run
+  if (executionResult.deferred) {
+    return {
+      agentId,
+      agentName: agent.ensName,
+      triggerMet: true,
+      currentPrice,
+      conditionMet,
+      executed: false,
+      dryRun: executionResult.dryRun,
+      feePaid: executionResult.feePaid,
+      deferred: executionResult.error,
+    };
+  }
 
   return {
     agentId,
     agentName: agent.ensName,
     triggerMet: true,
     currentPrice,
-    executed: executionResult.success,
+    conditionMet,
+    executed: executionResult.success && !executionResult.dryRun,
+    dryRun: executionResult.dryRun,
     txHash: executionResult.txHash,
+    feePaid: executionResult.feePaid,
     error: executionResult.error,
+    errorCode: executionResult.errorCode,
   };
 }
 
@@ -184,7 +453,9 @@ export async function monitorAgent(
 export async function monitorAgents(
   agentIds: Hash[],
   chainId: number,
-  rpcUrl?: string
+  rpcUrl?: string,
+  keeper?: KeeperConfig | null,
+  options: MonitorOptions = {}
 ): Promise<MonitoringStats> {
   const results: MonitoringResult[] = [];
   let triggersMet = 0;
@@ -193,7 +464,7 @@ export async function monitorAgents(
 
   for (const agentId of agentIds) {
     try {
-      const result = await monitorAgent(agentId, chainId, rpcUrl);
+      const result = await monitorAgent(agentId, chainId, rpcUrl, keeper, options);
       results.push(result);
 
       if (result.triggerMet) triggersMet++;
@@ -230,12 +501,7 @@ export async function getUserAgentIds(
   chainId: number,
   rpcUrl?: string
 ): Promise<Hash[]> {
-  const chain = chainId === 84532 ? baseSepolia : chainId === 8453 ? base : baseSepolia;
-  
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(rpcUrl),
-  });
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
 
   const registryAddress = getAgentRegistryAddress(chainId);
 
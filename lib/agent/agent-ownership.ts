@@ -0,0 +1,97 @@
+/**
+ * Agent Ownership Verification (server only)
+ *
+ * Verifies that a message (or EIP-712 typed data) was signed by an agent's on-chain owner.
+ * Used by API routes that change an agent's off-chain settings.
+ */
+
+import { Address, Hash } from "viem";
+import { getAgentRegistryAddress, TRADING_AGENT_REGISTRY_ABI } from "./agent-registry";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import type { PermitTypedData } from "@/lib/1inch/permit";
+
+export interface OwnershipCheckResult {
+  success: boolean;
+  status?: number; // HTTP status to return on failure
+  error?: string;
+  owner?: Address; // Agent owner (on success)
+}
+
+type ChainPublicClient = ReturnType<typeof createChainPublicClient>;
+
+// Signed owner messages are accepted for this long after their nonce (a millisecond timestamp)
+export const SIGNED_MESSAGE_MAX_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Check the nonce of a signed owner message
+ * Nonces are the signing time in milliseconds, so old signatures expire; callers also
+ * require each nonce to be newer than the last accepted one (see claimSignatureNonce)
+ * @returns Error message, or null if the nonce is valid
+ */
+export function validateMessageNonce(nonce: unknown, now = Date.now()): string | null {
+  if (typeof nonce !== "number" || !Number.isSafeInteger(nonce) || nonce <= 0) {
+    return "nonce must be the signing time in milliseconds";
+  }
+  if (nonce > now + 60_000 || now - nonce > SIGNED_MESSAGE_MAX_AGE_MS) {
+    return "Signature expired; sign the request again";
+  }
+  return null;
+}
+
+/**
+ * Look up the agent owner and run a signature check against it
+ */
+async function checkAgentOwner(
+  chainId: number,
+  agentId: Hash,
+  verify: (client: ChainPublicClient, owner: Address) => Promise<boolean>
+): Promise<OwnershipCheckResult> {
+  const client = createChainPublicClient(chainId);
+
+  const agent = await client.readContract({
+    address: getAgentRegistryAddress(chainId),
+    abi: TRADING_AGENT_REGISTRY_ABI,
+    functionName: "getAgent",
+    args: [agentId],
+  });
+
+  if (!agent.exists) {
+    return { success: false, status: 404, error: "Agent not found" };
+  }
+
+  const isOwner = await verify(client, agent.owner);
+
+  if (!isOwner) {
+    return { success: false, status: 403, error: "Signature does not match the agent owner" };
+  }
+
+  return { success: true, owner: agent.owner };
+}
+
+/**
+ * Check that a signature over a message comes from the agent owner
+ */
+export function verifyAgentOwnerSignature(
+  chainId: number,
+  agentId: Hash,
+  message: string,
+  signature: `0x${string}`
+): Promise<OwnershipCheckResult> {
+  return checkAgentOwner(chainId, agentId, (client, owner) =>
+    client.verifyMessage({ address: owner, message, signature })
+  );
+}
+
+/**
+ * Check that an EIP-712 signature (e.g. a signed limit order) comes from the agent owner
+ */
+export function verifyAgentOwnerTypedData(
+  chainId: number,
+  agentId: Hash,
+  typedData: PermitTypedData,
+  signature: `0x${string}`
+): Promise<OwnershipCheckResult> {
+  return checkAgentOwner(chainId, agentId, (client, owner) =>
+    client.verifyTypedData({ address: owner, ...typedData, signature })
+  );
+}
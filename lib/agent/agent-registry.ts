@@ -6,7 +6,11 @@
 
 import { Address, Hash, keccak256, toBytes } from "viem";
 import { getPriceFeedId } from "@/lib/privy/pyth-contract";
-import { getTokenAddress } from "@/lib/1inch/1inch-contract";
+import { parseTokenAmount } from "@/lib/1inch/1inch-service";
+import { getTokenAddress, getTokenDecimals } from "@/lib/tokens/token-registry";
+import { getChainConfig } from "@/lib/chains/chain-registry";
+import type { StrategyCondition } from "./strategy-conditions";
+import type { DcaSettings } from "./dca-schedule";
 
 // TradingAgentRegistry ABI
 // Using JSON format to handle complex nested tuples properly
@@ -139,14 +143,36 @@ export const TRADING_AGENT_REGISTRY_ABI = [
     outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
     stateMutability: "view",
   },
+  {
+    type: "event",
+    name: "AgentCreated",
+    inputs: [
+      { name: "agentId", type: "bytes32", indexed: true, internalType: "bytes32" },
+      { name: "owner", type: "address", indexed: true, internalType: "address" },
+      { name: "ensName", type: "string", indexed: false, internalType: "string" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "StrategyUpdated",
+    inputs: [
+      { name: "agentId", type: "bytes32", indexed: true, internalType: "bytes32" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "TriggerExecuted",
+    inputs: [
+      { name: "agentId", type: "bytes32", indexed: true, internalType: "bytes32" },
+      { name: "price", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "timestamp", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
 ] as const;
 
-// Contract addresses (update with deployed addresses)
-export const AGENT_REGISTRY_ADDRESSES: Record<number, Address> = {
-  84532: "0x06c0cc944dbECe2cBe4d2Ac8e326a16AfFbFD345" as Address, // Base Sepolia - UPDATE THIS
-  8453: "0x0000000000000000000000000000000000000000" as Address, // Base Mainnet - UPDATE THIS
-};
-
 export interface TradingStrategy {
   priceFeedId: Hash;
   triggerPrice: bigint;
@@ -178,15 +204,17 @@ export interface CreateAgentParams {
   tokenOut: string; // Token symbol to buy (e.g., "USDC")
   amountIn: number; // Amount to trade (0 = use balance)
   cooldownPeriod: number; // Cooldown in seconds
+  conditions?: StrategyCondition; // Off-chain condition: thresholds, percent moves, trailing stops, TP/SL (overrides triggerPrice)
+  dca?: DcaSettings; // Recurring buy of amountIn every interval (overrides triggerPrice and cooldownPeriod)
 }
 
 /**
  * Get agent registry contract address for a chain
  */
 export function getAgentRegistryAddress(chainId: number): Address {
-  const address = AGENT_REGISTRY_ADDRESSES[chainId];
-  if (!address || address === "0x0000000000000000000000000000000000000000") {
-    throw new Error(`Agent registry not deployed on chain ${chainId}. Please update AGENT_REGISTRY_ADDRESSES.`);
+  const address = getChainConfig(chainId).agentRegistry;
+  if (!address) {
+    throw new Error(`Agent registry not deployed on chain ${chainId}. Please update the chain registry.`);
   }
   return address;
 }
@@ -214,21 +242,35 @@ export async function prepareStrategy(
   }
 
   // Convert trigger price to wei (scaled by 1e8 for Pyth)
-  const triggerPrice = BigInt(Math.floor(params.triggerPrice * 1e8));
+  // Agents with off-chain conditions use an always-met trigger (price > 0);
+  // the monitor evaluates the conditions and the contract enforces the cooldown.
+  // DCA agents mirror their price ceiling (if any) and interval on-chain for display.
+  let triggerPrice = BigInt(Math.floor(params.triggerPrice * 1e8));
+  let triggerAbove = params.triggerAbove;
+  let cooldownPeriod = params.cooldownPeriod;
+  if (params.dca) {
+    triggerPrice = BigInt(Math.floor((params.dca.maxPrice ?? 0) * 1e8));
+    triggerAbove = params.dca.maxPrice === undefined;
+    cooldownPeriod = params.dca.intervalSeconds;
+  } else if (params.conditions) {
+    triggerPrice = BigInt(0);
+    triggerAbove = true;
+  }
   
-  // Convert amount to wei (18 decimals)
-  const amountIn = BigInt(Math.floor(params.amountIn * 1e18));
+  // Convert amount to tokenIn's smallest unit
+  const decimals = await getTokenDecimals(tokenInAddress, chainId);
+  const amountIn = BigInt(parseTokenAmount(params.amountIn, decimals));
 
   return {
     priceFeedId,
     triggerPrice,
-    triggerAbove: params.triggerAbove,
+    triggerAbove,
     tokenIn: tokenInAddress as Address,
     tokenOut: tokenOutAddress as Address,
     amountIn,
     isActive: true,
     lastExecuted: BigInt(0),
-    cooldownPeriod: BigInt(params.cooldownPeriod),
+    cooldownPeriod: BigInt(cooldownPeriod),
   };
 }
 
@@ -0,0 +1,149 @@
+/**
+ * Agent Strategy Storage (server only)
+ *
+ * Stores off-chain strategy settings per agent (e.g. multi-condition expressions,
+ * DCA schedules, swap execution settings) along with the state the monitor needs between checks.
+ * The file is replaced atomically (written to a temporary file, then renamed), so readers
+ * and crashes never see a partial write.
+ *
+ * Environment variables:
+ * - AGENT_STRATEGY_PATH: Path of the strategy file (default: .data/agent-strategies.json)
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { Address, Hash } from "viem";
+import type { PriceExtremes, PriceMap, StrategyCondition } from "./strategy-conditions";
+import type { DcaSchedule } from "./dca-schedule";
+import type { GasCostLimit } from "./gas-cost";
+import type { SwapExecutionMode } from "@/lib/1inch/agent-swap-executor";
+import type { TrackedFusionOrder } from "@/lib/1inch/fusion-service";
+import type { TrackedLimitOrder } from "@/lib/1inch/limit-orders";
+
+const DEFAULT_STRATEGY_PATH = ".data/agent-strategies.json";
+
+export interface AgentStrategyRecord {
+  agentId: Hash;
+  chainId: number;
+  condition?: StrategyCondition;
+  conditionSigner?: Address; // Who signed the condition (checked against the owner when it was stored before the agent existed)
+  conditionConsumedAt?: number; // When a one-shot condition (take-profit/stop-loss) executed; it doesn't fire again
+  lastPrices?: PriceMap; // Prices seen on the previous monitor check
+  extremes?: PriceExtremes; // Running high/low since the last execution (trailing stops)
+  dca?: DcaSchedule; // Recurring-buy schedule (time-based agents)
+  executionMode?: SwapExecutionMode; // How the agent's swaps are executed (default: "aggregation")
+  maxPriceDeviation?: number; // Max quote deviation from the Pyth price, in percent (default: DEFAULT_MAX_PRICE_DEVIATION)
+  oracleTolerance?: number; // Min output from the Pyth price minus this band, in percent (default: slippage)
+  maxGasCost?: GasCostLimit; // Executions costing more gas are deferred (default: no cap)
+  fusionOrders?: TrackedFusionOrder[]; // Recent Fusion orders, newest first
+  limitOrders?: TrackedLimitOrder[]; // Limit orders placed from the strategy, newest first
+  signatureNonce?: number; // Nonce of the last signed owner message accepted for the agent
+  updatedAt: number;
+}
+
+type StrategyFile = Record<string, AgentStrategyRecord>;
+
+// Serialize read-modify-write cycles within this process
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function getStrategyPath(): string {
+  return path.resolve(process.env.AGENT_STRATEGY_PATH || DEFAULT_STRATEGY_PATH);
+}
+
+function getRecordKey(chainId: number, agentId: Hash): string {
+  return `${chainId}:${agentId.toLowerCase()}`;
+}
+
+async function readStrategyFile(): Promise<StrategyFile> {
+  try {
+    return JSON.parse(await readFile(getStrategyPath(), "utf8")) as StrategyFile;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+/**
+ * Get the stored strategy settings for an agent
+ */
+export async function getAgentStrategy(
+  chainId: number,
+  agentId: Hash
+): Promise<AgentStrategyRecord | null> {
+  const records = await readStrategyFile();
+  return records[getRecordKey(chainId, agentId)] ?? null;
+}
+
+/**
+ * Get every stored strategy record for a chain
+ */
+export async function listAgentStrategies(chainId: number): Promise<AgentStrategyRecord[]> {
+  const records = await readStrategyFile();
+  return Object.values(records).filter((record) => record.chainId === chainId);
+}
+
+/**
+ * Create or update the stored strategy settings for an agent
+ * @param update Fields to set (merged into the existing record)
+ */
+export function updateAgentStrategy(
+  chainId: number,
+  agentId: Hash,
+  update: Partial<Omit<AgentStrategyRecord, "agentId" | "chainId" | "updatedAt">>
+): Promise<AgentStrategyRecord> {
+  return modifyAgentStrategy(chainId, agentId, () => update) as Promise<AgentStrategyRecord>;
+}
+
+/**
+ * Record the nonce of a signed owner message, unless it was already used
+ * Nonces must increase, so an accepted signature can't be replayed
+ * @returns Whether the nonce was newer than the last accepted one
+ */
+export async function claimSignatureNonce(chainId: number, agentId: Hash, nonce: number): Promise<boolean> {
+  const record = await modifyAgentStrategy(chainId, agentId, (current) =>
+    nonce > (current?.signatureNonce ?? 0) ? { signatureNonce: nonce } : null
+  );
+  return record !== null;
+}
+
+/**
+ * Read-modify-write a strategy record in the write queue
+ * Use it for updates derived from the current record, so concurrent writes aren't lost
+ * @param getUpdate Fields to merge into the current record, or null to leave it unchanged
+ * @returns The updated record, or null if nothing was written
+ */
+export function modifyAgentStrategy(
+  chainId: number,
+  agentId: Hash,
+  getUpdate: (
+    current: AgentStrategyRecord | undefined
+  ) => Partial<Omit<AgentStrategyRecord, "agentId" | "chainId" | "updatedAt">> | null
+): Promise<AgentStrategyRecord | null> {
+  const task = writeQueue.then(async () => {
+    const records = await readStrategyFile();
+    const key = getRecordKey(chainId, agentId);
+    const update = getUpdate(records[key]);
+    if (!update) {
+      return null;
+    }
+
+    const record: AgentStrategyRecord = {
+      ...records[key],
+      ...update,
+      agentId,
+      chainId,
+      updatedAt: Date.now(),
+    };
+    records[key] = record;
+
+    const strategyPath = getStrategyPath();
+    const tempPath = `${strategyPath}.${process.pid}.tmp`;
+    await mkdir(path.dirname(strategyPath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(records, null, 2), "utf8");
+    await rename(tempPath, strategyPath);
+    return record;
+  });
+
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
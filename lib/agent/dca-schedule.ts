@@ -0,0 +1,191 @@
+/**
+ * DCA Schedules
+ *
+ * Time-based (recurring buy) agent mode: swap the agent's amountIn of tokenIn
+ * into tokenOut every interval regardless of price, optionally only while the
+ * agent's price feed is at or below a ceiling, until the budget is spent.
+ * Schedules are stored off-chain and run by the cron route. Swaps are funded by the agent
+ * owner: each run pulls amountIn through an allowance the owner grants the keeper.
+ */
+
+export interface DcaSettings {
+  intervalSeconds: number; // Time between swaps
+  budget: number; // Total tokenIn to spend (human-readable)
+  maxPrice?: number; // Skip swaps while the feed price is above this (USD)
+}
+
+export interface DcaSchedule extends DcaSettings {
+  spent: number; // tokenIn spent so far
+  executions: number;
+  nextRunAt: number; // Unix timestamp (seconds)
+  lastRunAt?: number;
+  pendingOrder?: PendingDcaOrder; // Fusion order placed for the last slot, counted once it fills
+  pendingPull?: PendingDcaPull; // Owner funds in the keeper wallet until they're swapped and paid out, or refunded
+  completedAt?: number; // When the budget ran out (the schedule no longer runs)
+}
+
+export interface PendingDcaOrder {
+  orderHash: string;
+  amount: number; // tokenIn the order sells
+  amountWei: string; // The same amount in tokenIn's smallest unit, returned to the owner if the order doesn't fill
+}
+
+// Saved before each keeper transaction of a run, so a run that stops midway can be resumed
+export interface PendingDcaPull {
+  tokenIn: string;
+  tokenOut: string;
+  amount: number; // tokenIn pulled from the owner
+  amountWei: string;
+  startedAt: number; // Unix timestamp (seconds)
+  fundingTxHash?: string; // transferFrom of the owner's tokenIn
+  swapTxHash?: string;
+  returnTxHash?: string; // Output paid out to the owner, or tokenIn refunded when the swap didn't go through
+}
+
+/**
+ * Create a schedule whose first swap is due immediately
+ */
+export function createDcaSchedule(settings: DcaSettings, now: number = Math.floor(Date.now() / 1000)): DcaSchedule {
+  return {
+    ...settings,
+    spent: 0,
+    executions: 0,
+    nextRunAt: now,
+  };
+}
+
+/**
+ * Apply new settings to an agent's schedule
+ * Spending and timing carry over, so re-submitting settings can't reset the budget
+ */
+export function applyDcaSettings(
+  schedule: DcaSchedule | undefined,
+  settings: DcaSettings,
+  now: number = Math.floor(Date.now() / 1000)
+): DcaSchedule {
+  const { intervalSeconds, budget, maxPrice } = settings;
+  if (!schedule) {
+    return createDcaSchedule({ intervalSeconds, budget, maxPrice }, now);
+  }
+
+  // A new budget may cover more swaps
+  const { completedAt: _completedAt, ...current } = schedule;
+  return { ...current, intervalSeconds, budget, maxPrice };
+}
+
+/**
+ * Get the tokenIn left to spend
+ */
+export function getRemainingBudget(schedule: DcaSchedule): number {
+  return Math.max(schedule.budget - schedule.spent, 0);
+}
+
+/**
+ * Check whether a swap of the given size is due
+ * No swap is due while a Fusion order or pulled funds from an earlier run are outstanding
+ */
+export function isDcaDue(
+  schedule: DcaSchedule,
+  amount: number,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return (
+    !schedule.pendingOrder &&
+    !schedule.pendingPull &&
+    now >= schedule.nextRunAt &&
+    getRemainingBudget(schedule) >= amount
+  );
+}
+
+/**
+ * Get the next run after the current slot
+ * The next run is anchored to the previous slot so late cron runs don't drift
+ */
+function getNextRunAt(schedule: DcaSchedule, now: number): number {
+  const nextRunAt = schedule.nextRunAt + schedule.intervalSeconds;
+  return nextRunAt <= now ? now + schedule.intervalSeconds : nextRunAt;
+}
+
+/**
+ * Record a completed swap and schedule the next one
+ */
+export function advanceDcaSchedule(
+  schedule: DcaSchedule,
+  amount: number,
+  now: number = Math.floor(Date.now() / 1000)
+): DcaSchedule {
+  return {
+    ...schedule,
+    spent: schedule.spent + amount,
+    executions: schedule.executions + 1,
+    lastRunAt: now,
+    nextRunAt: getNextRunAt(schedule, now),
+  };
+}
+
+/**
+ * Record a Fusion order placed for the current slot and schedule the next one
+ * The order's amount isn't spent until it fills (see settleDcaOrder)
+ */
+export function markDcaOrderPending(
+  schedule: DcaSchedule,
+  order: PendingDcaOrder,
+  now: number = Math.floor(Date.now() / 1000)
+): DcaSchedule {
+  return { ...schedule, pendingOrder: order, nextRunAt: getNextRunAt(schedule, now) };
+}
+
+/**
+ * Close the pending Fusion order: a filled order counts as a completed swap,
+ * any other final state leaves the budget untouched
+ */
+export function settleDcaOrder(
+  schedule: DcaSchedule,
+  filled: boolean,
+  now: number = Math.floor(Date.now() / 1000)
+): DcaSchedule {
+  const { pendingOrder, ...rest } = schedule;
+  if (!pendingOrder || !filled) {
+    return rest;
+  }
+
+  return {
+    ...rest,
+    spent: rest.spent + pendingOrder.amount,
+    executions: rest.executions + 1,
+    lastRunAt: now,
+  };
+}
+
+/**
+ * Validate DCA settings
+ * @returns Error message, or null if valid
+ */
+export function validateDcaSettings(settings: DcaSettings, amountPerSwap: number): string | null {
+  if (!Number.isFinite(settings.intervalSeconds) || settings.intervalSeconds < 60) {
+    return "Interval must be at least one minute";
+  }
+  if (!Number.isFinite(settings.budget) || settings.budget <= 0) {
+    return "Budget must be a positive amount";
+  }
+  if (amountPerSwap > 0 && settings.budget < amountPerSwap) {
+    return "Budget must cover at least one swap";
+  }
+  if (settings.maxPrice !== undefined && (!Number.isFinite(settings.maxPrice) || settings.maxPrice <= 0)) {
+    return "Price ceiling must be a positive number";
+  }
+  return null;
+}
+
+/**
+ * Message an agent owner signs to set a DCA schedule
+ * @param nonce Signing time in milliseconds (see validateMessageNonce)
+ */
+export function getDcaMessage(agentId: string, settings: DcaSettings, chainId: number, nonce: number): string {
+  return [
+    `Set DCA schedule for agent ${agentId}:`,
+    JSON.stringify(settings),
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+  ].join("\n");
+}
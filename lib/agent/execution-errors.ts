@@ -0,0 +1,168 @@
+/**
+ * Execution Errors
+ *
+ * Turns the error of a simulated (or sent) agent transaction into a structured error, so
+ * callers can tell an underfunded fee from an unfunded wallet without parsing messages.
+ * Revert data is decoded with the ABI of the called contract (require messages, custom
+ * errors, panics) and classified by exact match against the errors of the contracts agents
+ * call (REVERT_REASON_CODES); other reverts stay "reverted" with their decoded reason.
+ * Errors that aren't reverts (unreachable node, timeouts, rejected requests) are "rpc-error".
+ */
+
+import {
+  Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  Hex,
+  InsufficientFundsError,
+  decodeErrorResult,
+  isHex,
+  parseAbi,
+} from "viem";
+
+export type ExecutionErrorCode =
+  | "inactive" // Agent doesn't exist or was deactivated
+  | "cooldown" // The agent's cooldown since its last execution hasn't elapsed
+  | "insufficient-fee" // Value below the Pyth update fee
+  | "insufficient-balance" // Sender can't cover the value, gas or token amount
+  | "insufficient-allowance" // Router allowance below the swap amount
+  | "slippage" // Output below the minimum return
+  | "reverted" // Any other revert
+  | "rpc-error"; // The call failed without reverting (node unreachable, timeout, rejected request)
+
+export interface ExecutionError {
+  code: ExecutionErrorCode;
+  message: string;
+  reason?: string; // Decoded revert reason (require message, custom error or panic)
+}
+
+export const EXECUTION_ERROR_MESSAGES: Record<ExecutionErrorCode, string> = {
+  inactive: "Agent not found or inactive",
+  cooldown: "Agent cooldown period has not elapsed",
+  "insufficient-fee": "Value doesn't cover the Pyth update fee",
+  "insufficient-balance": "Insufficient balance",
+  "insufficient-allowance": "Insufficient router allowance",
+  slippage: "Output is below the minimum return",
+  reverted: "Transaction would revert",
+  "rpc-error": "Request to the node failed",
+};
+
+// Custom errors bubbled up by Pyth (IPyth / PythErrors) when the registry updates prices
+export const PYTH_ERRORS_ABI = parseAbi([
+  "error InsufficientFee()",
+  "error InvalidUpdateData()",
+  "error StalePrice()",
+  "error PriceFeedNotFound()",
+]);
+
+// Custom error names and require messages of the contracts agents call, by code
+const REVERT_REASON_CODES: Record<string, ExecutionErrorCode> = {
+  // Pyth
+  InsufficientFee: "insufficient-fee",
+  // OpenZeppelin ERC-20 (v5 custom errors, v4 require messages)
+  ERC20InsufficientBalance: "insufficient-balance",
+  "ERC20: transfer amount exceeds balance": "insufficient-balance",
+  "ERC20: insufficient balance": "insufficient-balance",
+  ERC20InsufficientAllowance: "insufficient-allowance",
+  "ERC20: insufficient allowance": "insufficient-allowance",
+  // 1inch Aggregation Router v6
+  ReturnAmountIsNotEnough: "slippage",
+  "Return amount is not enough": "slippage",
+};
+
+/**
+ * Classify a revert reason (a custom error name or require message)
+ */
+export function classifyRevertReason(reason: string): ExecutionErrorCode {
+  return Object.hasOwn(REVERT_REASON_CODES, reason) ? REVERT_REASON_CODES[reason] : "reverted";
+}
+
+/**
+ * Build an execution error from its code
+ */
+export function createExecutionError(code: ExecutionErrorCode, reason?: string): ExecutionError {
+  const message = EXECUTION_ERROR_MESSAGES[code];
+  return { code, message: reason ? `${message}: ${reason}` : message, ...(reason && { reason }) };
+}
+
+/**
+ * Decode raw revert data into a reason
+ */
+function decodeRevertData(data: Hex, abi: Abi): string {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    if (errorName === "Error") return String(args?.[0]);
+    if (errorName === "Panic") return `Panic(${args?.[0]})`;
+    return errorName;
+  } catch {
+    return `Unknown error ${data.slice(0, 10)}`;
+  }
+}
+
+/**
+ * Get the raw revert data carried by a failed eth_call
+ */
+function getRawRevertData(error: BaseError): Hex | undefined {
+  const raw = error.walk((err) => isHex((err as { data?: unknown }).data));
+  const data = (raw as { data?: Hex } | null)?.data;
+  return data && data !== "0x" ? data : undefined;
+}
+
+/**
+ * Check whether a failed call reverted (as opposed to failing to reach or be accepted by the node)
+ */
+export function isRevertError(error: unknown): boolean {
+  if (!(error instanceof BaseError)) {
+    return false;
+  }
+  return Boolean(
+    error.walk((err) => err instanceof ContractFunctionRevertedError || err instanceof ExecutionRevertedError) ||
+      getRawRevertData(error)
+  );
+}
+
+/**
+ * Get the revert reason of a failed call or simulation
+ * @param abi ABI of the called contract, to decode custom errors in raw revert data
+ */
+export function getRevertReason(error: unknown, abi: Abi = []): string | undefined {
+  if (!(error instanceof BaseError)) {
+    return (error as Error)?.message;
+  }
+
+  // simulateContract decodes the revert data with the contract ABI; errors of other contracts
+  // (e.g. Pyth, called by the registry) are decoded from the raw data with the given ABI
+  const reverted = error.walk((err) => err instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    const reason = reverted.reason ?? reverted.data?.errorName;
+    if (reason) return reason;
+    if (reverted.raw && reverted.raw !== "0x") return decodeRevertData(reverted.raw, abi);
+  }
+
+  // Plain eth_call errors carry the raw revert data
+  const data = getRawRevertData(error);
+  if (data) {
+    return decodeRevertData(data, abi);
+  }
+
+  return (error.walk() as BaseError).details || error.shortMessage;
+}
+
+/**
+ * Decode the error of a failed call or simulation
+ * @param abi ABI of the called contract, to decode custom errors in raw revert data
+ */
+export function decodeExecutionError(error: unknown, abi?: Abi): ExecutionError {
+  if (error instanceof BaseError && error.walk((err) => err instanceof InsufficientFundsError)) {
+    return createExecutionError("insufficient-balance", "sender can't pay for the value and gas");
+  }
+
+  if (!isRevertError(error)) {
+    const message = error instanceof BaseError ? error.shortMessage : (error as Error)?.message;
+    return createExecutionError("rpc-error", message);
+  }
+
+  const reason = getRevertReason(error, abi);
+  return createExecutionError(reason ? classifyRevertReason(reason) : "reverted", reason);
+}
@@ -0,0 +1,114 @@
+/**
+ * Agent Execution Modes
+ *
+ * Per-agent choice of how swaps are executed: "aggregation" sends a 1inch
+ * Aggregation API swap transaction, "fusion" places a gasless 1inch Fusion order.
+ * Agents can also set the maximum deviation of aggregation quotes from the Pyth price, and
+ * an oracle tolerance that bounds swap output by the Pyth price instead of a flat slippage,
+ * and a max gas cost above which executions are deferred (see gas-cost.ts).
+ * Settings are stored off-chain and used by the DCA runner (and the monitor, for the gas cap).
+ */
+
+import type { SwapExecutionMode } from "@/lib/1inch/agent-swap-executor";
+import { isFusionSupported } from "@/lib/1inch/fusion-service";
+import { formatGasCostLimit, type GasCostLimit } from "./gas-cost";
+
+export const EXECUTION_MODES: SwapExecutionMode[] = ["aggregation", "fusion"];
+
+// Presets offered on the dashboard (percent)
+export const MAX_PRICE_DEVIATION_OPTIONS = [0.5, 1, 2, 3, 5, 10];
+
+// Upper bound accepted for maxPriceDeviation and oracleTolerance (percent)
+const MAX_PERCENT_SETTING = 50;
+
+// Oracle tolerance presets offered on the dashboard (percent)
+export const ORACLE_TOLERANCE_OPTIONS = [0.5, 1, 2, 3, 5];
+
+// Max gas cost presets offered on the dashboard
+export const MAX_GAS_COST_OPTIONS: GasCostLimit[] = [
+  { type: "usd", value: 0.5 },
+  { type: "usd", value: 1 },
+  { type: "usd", value: 5 },
+  { type: "percent", value: 0.5 },
+  { type: "percent", value: 1 },
+  { type: "percent", value: 2 },
+];
+
+export interface ExecutionSettings {
+  mode: SwapExecutionMode;
+  maxPriceDeviation?: number; // Unchanged if omitted
+  oracleTolerance?: number | null; // Unchanged if omitted; null goes back to the slippage tolerance
+  maxGasCost?: GasCostLimit | null; // Unchanged if omitted; null removes the cap
+}
+
+export const EXECUTION_MODE_LABELS: Record<SwapExecutionMode, string> = {
+  aggregation: "Aggregation",
+  fusion: "Fusion",
+};
+
+/**
+ * Validate an execution mode for a chain
+ * @returns Error message, or null if valid
+ */
+export function validateExecutionMode(mode: string, chainId: number): string | null {
+  if (!EXECUTION_MODES.includes(mode as SwapExecutionMode)) {
+    return `Execution mode must be one of: ${EXECUTION_MODES.join(", ")}`;
+  }
+  if (mode === "fusion" && !isFusionSupported(chainId)) {
+    return `1inch Fusion is not available on chain ${chainId}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a percentage setting (maxPriceDeviation, oracleTolerance)
+ * @returns Error message, or null if valid
+ */
+export function validatePercentSetting(name: string, value: unknown): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value > MAX_PERCENT_SETTING) {
+    return `${name} must be a percentage between 0 and ${MAX_PERCENT_SETTING}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a max gas cost setting
+ * @returns Error message, or null if valid
+ */
+export function validateGasCostLimit(value: unknown): string | null {
+  const limit = value as GasCostLimit | null;
+  if (!limit || typeof limit !== "object" || (limit.type !== "usd" && limit.type !== "percent")) {
+    return 'maxGasCost must be { type: "usd" | "percent", value }';
+  }
+  if (limit.type === "percent") {
+    return validatePercentSetting("maxGasCost", limit.value);
+  }
+  if (typeof limit.value !== "number" || !Number.isFinite(limit.value) || limit.value <= 0) {
+    return "maxGasCost must be a positive USD amount";
+  }
+  return null;
+}
+
+/**
+ * Message an agent owner signs to update the execution settings.
+ * The chain ID and nonce (signing time in milliseconds) keep a signature from being replayed
+ */
+export function getExecutionModeMessage(
+  agentId: string,
+  settings: ExecutionSettings,
+  chainId: number,
+  nonce: number
+): string {
+  const lines = [`Set execution mode for agent ${agentId}:`, settings.mode];
+  if (settings.maxPriceDeviation !== undefined) {
+    lines.push(`max price deviation: ${settings.maxPriceDeviation}%`);
+  }
+  if (settings.oracleTolerance !== undefined) {
+    lines.push(`oracle tolerance: ${settings.oracleTolerance === null ? "off" : `${settings.oracleTolerance}%`}`);
+  }
+  if (settings.maxGasCost !== undefined) {
+    lines.push(`max gas cost: ${settings.maxGasCost === null ? "off" : formatGasCostLimit(settings.maxGasCost)}`);
+  }
+  lines.push(`Chain ID: ${chainId}`, `Nonce: ${nonce}`);
+  return lines.join("\n");
+}
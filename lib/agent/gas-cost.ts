@@ -0,0 +1,119 @@
+/**
+ * Gas Cost Limits
+ *
+ * Per-agent cap on what an execution may spend on gas, either in USD or as a percentage of
+ * the trade's notional value. The cost is the gas estimate priced at the current base fee and
+ * converted to USD with the Pyth price of the chain's native token; executions over the cap
+ * are deferred to the next run instead of being sent.
+ *
+ * Trades whose notional value can't be priced (tokens without a Pyth feed) can't be checked
+ * against a percentage cap: the execution settings route rejects such caps, and a check that
+ * is skipped anyway is reported (skipped) so executors record it.
+ */
+
+import { formatUnits } from "viem";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import { getPriceFeedId } from "@/lib/privy/pyth-contract";
+import { getLatestPriceFromHermes, formatPrice } from "@/lib/privy/pyth-service";
+import { NATIVE_TOKEN_ADDRESS, getToken } from "@/lib/tokens/token-registry";
+
+export type GasCostLimitType = "usd" | "percent";
+
+export interface GasCostLimit {
+  type: GasCostLimitType; // "usd": absolute cap; "percent": share of the trade's notional value
+  value: number;
+}
+
+export interface GasCostCheck {
+  allowed: boolean;
+  gasCostUsd?: number; // Unset when the check was skipped
+  maxGasCostUsd?: number;
+  reason?: string; // Why the execution is deferred
+  skipped?: string; // Why the limit couldn't be checked (the execution goes ahead)
+}
+
+/**
+ * Describe a gas cost limit (e.g. "$5", "1% of trade value")
+ */
+export function formatGasCostLimit(limit: GasCostLimit): string {
+  return limit.type === "usd" ? `$${limit.value}` : `${limit.value}% of trade value`;
+}
+
+/**
+ * Check whether a token has a Pyth feed, so trades in it can be valued for a percentage cap
+ */
+export function hasTokenUsdPrice(token: string, chainId: number): boolean {
+  return Boolean(getToken(token, chainId)?.priceFeed);
+}
+
+/**
+ * Get the USD price of a token from its Pyth feed
+ * @returns Price, or null if the token has no feed
+ * @throws If Hermes doesn't return a price for the feed
+ */
+export async function getTokenUsdPrice(token: string, chainId: number): Promise<number | null> {
+  const feed = getToken(token, chainId)?.priceFeed;
+  if (!feed) {
+    return null;
+  }
+
+  const update = await getLatestPriceFromHermes(getPriceFeedId(feed));
+  if (!update) {
+    throw new Error(`No oracle price for ${feed}`);
+  }
+  return formatPrice(update.price, update.expo);
+}
+
+/**
+ * Price an amount of gas in USD at the current base fee
+ * @throws If the native token has no Pyth feed or its price is unavailable
+ */
+export async function getGasCostUsd(gasUnits: bigint, chainId: number, rpcUrl?: string): Promise<number> {
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const [block, nativePriceUsd] = await Promise.all([
+    publicClient.getBlock(),
+    getTokenUsdPrice(NATIVE_TOKEN_ADDRESS, chainId),
+  ]);
+  if (nativePriceUsd === null) {
+    throw new Error(`No oracle price for the native token of chain ${chainId}`);
+  }
+
+  // Chains without EIP-1559 have no base fee; use the legacy gas price there
+  const baseFee = block.baseFeePerGas ?? (await publicClient.getGasPrice());
+  return Number(formatUnits(gasUnits * baseFee, 18)) * nativePriceUsd;
+}
+
+/**
+ * Check the gas cost of an execution against a limit
+ * @param notionalUsd Trade value in USD (null if it can't be priced)
+ * @throws If gas can't be priced
+ */
+export async function checkGasCost(params: {
+  gasUnits: bigint;
+  notionalUsd: number | null;
+  limit: GasCostLimit;
+  chainId: number;
+  rpcUrl?: string;
+}): Promise<GasCostCheck> {
+  const { gasUnits, notionalUsd, limit, chainId, rpcUrl } = params;
+
+  if (limit.type === "percent" && notionalUsd === null) {
+    return { allowed: true, skipped: "Gas cost not checked: the trade has no Pyth price to apply a percentage cap to" };
+  }
+
+  const maxGasCostUsd = limit.type === "usd" ? limit.value : (notionalUsd! * limit.value) / 100;
+  const gasCostUsd = await getGasCostUsd(gasUnits, chainId, rpcUrl);
+
+  if (gasCostUsd > maxGasCostUsd) {
+    return {
+      allowed: false,
+      gasCostUsd,
+      maxGasCostUsd,
+      reason:
+        `Gas cost $${gasCostUsd.toFixed(2)} exceeds the max of ${formatGasCostLimit(limit)}` +
+        `${limit.type === "percent" ? ` ($${maxGasCostUsd.toFixed(2)})` : ""}; deferred to the next run`,
+    };
+  }
+
+  return { allowed: true, gasCostUsd, maxGasCostUsd };
+}
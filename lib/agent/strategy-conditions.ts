@@ -0,0 +1,419 @@
+/**
+ * Strategy Conditions
+ *
+ * Off-chain strategy expressions combining price thresholds across Pyth feeds,
+ * e.g. "ETH < 2800 AND BTC > 60000" or "ETH/BTC crosses above 0.05",
+ * plus relative triggers: percent moves over a window, trailing stops
+ * and take-profit/stop-loss pairs.
+ * The monitor evaluates them against Hermes prices; the on-chain strategy only
+ * enforces the cooldown for agents that use conditions.
+ */
+
+export type ConditionOperator = "above" | "below" | "crossesAbove" | "crossesBelow";
+
+export interface PriceCondition {
+  kind: "price";
+  feed: string; // Price feed symbol (e.g. "ETH")
+  operator: ConditionOperator;
+  value: number; // USD price
+}
+
+export interface RatioCondition {
+  kind: "ratio";
+  baseFeed: string; // e.g. "ETH" in ETH/BTC
+  quoteFeed: string; // e.g. "BTC" in ETH/BTC
+  operator: ConditionOperator;
+  value: number;
+}
+
+export interface PercentChangeCondition {
+  kind: "percentChange";
+  feed: string;
+  direction: "up" | "down";
+  percent: number; // Minimum move (e.g. 5 for 5%)
+  windowSeconds: number; // Look-back window
+}
+
+export interface TrailingStopCondition {
+  kind: "trailingStop";
+  feed: string;
+  side: "long" | "short"; // long: trail below the running high, short: above the running low
+  trailPercent: number;
+}
+
+export interface TakeProfitStopLossCondition {
+  kind: "takeProfitStopLoss";
+  feed: string;
+  takeProfit: number; // USD price (above stopLoss for long positions, below for short)
+  stopLoss: number; // USD price
+}
+
+export interface ConditionGroup {
+  kind: "group";
+  combinator: "and" | "or";
+  conditions: StrategyCondition[];
+}
+
+export type StrategyCondition =
+  | PriceCondition
+  | RatioCondition
+  | PercentChangeCondition
+  | TrailingStopCondition
+  | TakeProfitStopLossCondition
+  | ConditionGroup;
+
+export type LeafCondition = Exclude<StrategyCondition, ConditionGroup>;
+
+// USD prices keyed by feed symbol
+export type PriceMap = Record<string, number>;
+
+// Running high/low per feed since the agent was armed
+export type PriceExtremes = Record<string, { high: number; low: number }>;
+
+export interface ConditionContext {
+  prices: PriceMap;
+  previousPrices?: PriceMap; // Prices from the previous check ("crosses" operators)
+  windowPrices?: PriceMap; // Reference prices keyed by getWindowKey(feed, windowSeconds)
+  extremes?: PriceExtremes; // Running high/low (trailing stops)
+}
+
+export interface TriggerDistance {
+  description: string;
+  current: number;
+  target: number;
+  distancePercent: number; // Move from current to target, in percent
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  above: ">",
+  below: "<",
+  crossesAbove: "crosses above",
+  crossesBelow: "crosses below",
+};
+
+/**
+ * Get every feed symbol referenced by a condition
+ */
+export function getConditionFeeds(condition: StrategyCondition): string[] {
+  switch (condition.kind) {
+    case "price":
+      return [condition.feed.toUpperCase()];
+    case "ratio":
+      return [condition.baseFeed.toUpperCase(), condition.quoteFeed.toUpperCase()];
+    case "group":
+      return Array.from(new Set(condition.conditions.flatMap(getConditionFeeds)));
+    default:
+      return [condition.feed.toUpperCase()];
+  }
+}
+
+/**
+ * Flatten a condition tree into its leaf conditions
+ */
+export function getLeafConditions(condition: StrategyCondition): LeafCondition[] {
+  return condition.kind === "group"
+    ? condition.conditions.flatMap(getLeafConditions)
+    : [condition];
+}
+
+/**
+ * Check if a condition closes a position, so it must only execute once
+ * (conditions containing a take-profit/stop-loss pair)
+ */
+export function isOneShotCondition(condition: StrategyCondition): boolean {
+  return getLeafConditions(condition).some((leaf) => leaf.kind === "takeProfitStopLoss");
+}
+
+/**
+ * Key for a reference price at the start of a look-back window
+ */
+export function getWindowKey(feed: string, windowSeconds: number): string {
+  return `${feed.toUpperCase()}:${windowSeconds}`;
+}
+
+/**
+ * Update running highs/lows with the latest prices
+ */
+export function updateExtremes(extremes: PriceExtremes = {}, prices: PriceMap): PriceExtremes {
+  const updated: PriceExtremes = { ...extremes };
+  for (const [feed, price] of Object.entries(prices)) {
+    const existing = updated[feed];
+    updated[feed] = existing
+      ? { high: Math.max(existing.high, price), low: Math.min(existing.low, price) }
+      : { high: price, low: price };
+  }
+  return updated;
+}
+
+/**
+ * Get the value a price or ratio condition compares against its threshold
+ * @returns The observed value, or null if a price is missing
+ */
+export function getConditionValue(
+  condition: PriceCondition | RatioCondition,
+  prices: PriceMap
+): number | null {
+  if (condition.kind === "price") {
+    return prices[condition.feed.toUpperCase()] ?? null;
+  }
+
+  const base = prices[condition.baseFeed.toUpperCase()];
+  const quote = prices[condition.quoteFeed.toUpperCase()];
+  if (base === undefined || quote === undefined || quote === 0) return null;
+  return base / quote;
+}
+
+function compare(
+  operator: ConditionOperator,
+  threshold: number,
+  current: number,
+  previous: number | null
+): boolean {
+  switch (operator) {
+    case "above":
+      return current > threshold;
+    case "below":
+      return current < threshold;
+    case "crossesAbove":
+      return previous !== null && previous <= threshold && current > threshold;
+    case "crossesBelow":
+      return previous !== null && previous >= threshold && current < threshold;
+  }
+}
+
+/**
+ * Get the price at which a relative condition fires
+ * @returns Trigger price(s), or null if the reference data is missing
+ */
+function getRelativeTargets(
+  condition: PercentChangeCondition | TrailingStopCondition | TakeProfitStopLossCondition,
+  context: ConditionContext
+): number[] | null {
+  const feed = condition.feed.toUpperCase();
+
+  switch (condition.kind) {
+    case "percentChange": {
+      const reference = context.windowPrices?.[getWindowKey(feed, condition.windowSeconds)];
+      if (reference === undefined) return null;
+      const factor = condition.direction === "up" ? 1 + condition.percent / 100 : 1 - condition.percent / 100;
+      return [reference * factor];
+    }
+    case "trailingStop": {
+      const extreme = context.extremes?.[feed];
+      if (!extreme) return null;
+      return condition.side === "long"
+        ? [extreme.high * (1 - condition.trailPercent / 100)]
+        : [extreme.low * (1 + condition.trailPercent / 100)];
+    }
+    case "takeProfitStopLoss":
+      return [condition.takeProfit, condition.stopLoss];
+  }
+}
+
+/**
+ * Evaluate a condition
+ * @param condition Condition to evaluate
+ * @param context Current prices plus the history-derived data relative conditions need
+ * @returns true if the condition holds (missing data never satisfies a condition)
+ */
+export function evaluateCondition(
+  condition: StrategyCondition,
+  context: ConditionContext
+): boolean {
+  if (condition.kind === "group") {
+    const results = condition.conditions.map((child) => evaluateCondition(child, context));
+    return condition.combinator === "and"
+      ? results.length > 0 && results.every(Boolean)
+      : results.some(Boolean);
+  }
+
+  if (condition.kind === "price" || condition.kind === "ratio") {
+    const current = getConditionValue(condition, context.prices);
+    if (current === null) return false;
+
+    const previous = context.previousPrices
+      ? getConditionValue(condition, context.previousPrices)
+      : null;
+    return compare(condition.operator, condition.value, current, previous);
+  }
+
+  const current = context.prices[condition.feed.toUpperCase()];
+  const targets = getRelativeTargets(condition, context);
+  if (current === undefined || !targets) return false;
+
+  switch (condition.kind) {
+    case "percentChange":
+      return condition.direction === "up" ? current >= targets[0] : current <= targets[0];
+    case "trailingStop":
+      return condition.side === "long" ? current <= targets[0] : current >= targets[0];
+    case "takeProfitStopLoss": {
+      const isLong = condition.takeProfit > condition.stopLoss;
+      return isLong
+        ? current >= condition.takeProfit || current <= condition.stopLoss
+        : current <= condition.takeProfit || current >= condition.stopLoss;
+    }
+  }
+}
+
+/**
+ * Get the distance from the current price to each leaf condition's trigger
+ * Take-profit/stop-loss pairs report the nearer of the two prices
+ */
+export function getTriggerDistances(
+  condition: StrategyCondition,
+  context: ConditionContext
+): TriggerDistance[] {
+  const distances: TriggerDistance[] = [];
+
+  for (const leaf of getLeafConditions(condition)) {
+    let current: number | null;
+    let target: number | null;
+
+    if (leaf.kind === "price" || leaf.kind === "ratio") {
+      current = getConditionValue(leaf, context.prices);
+      target = leaf.value;
+    } else {
+      const price = context.prices[leaf.feed.toUpperCase()];
+      const targets = getRelativeTargets(leaf, context);
+      current = price ?? null;
+      target =
+        targets && price !== undefined
+          ? targets.reduce((nearest, t) =>
+              Math.abs(t - price) < Math.abs(nearest - price) ? t : nearest
+            )
+          : null;
+    }
+
+    if (current === null || target === null || current === 0) continue;
+
+    distances.push({
+      description: describeCondition(leaf),
+      current,
+      target,
+      distancePercent: ((target - current) / current) * 100,
+    });
+  }
+
+  return distances;
+}
+
+/**
+ * Validate a condition tree
+ * @param supportedFeeds Feed symbols that can be priced (e.g. keys of PRICE_FEED_IDS)
+ * @returns Error message, or null if valid
+ */
+export function validateCondition(
+  condition: StrategyCondition,
+  supportedFeeds: string[]
+): string | null {
+  const isSupported = (feed: string) => supportedFeeds.includes(feed.toUpperCase());
+
+  switch (condition?.kind) {
+    case "price":
+      if (!isSupported(condition.feed)) return `Unsupported price feed: ${condition.feed}`;
+      break;
+    case "ratio":
+      if (!isSupported(condition.baseFeed)) return `Unsupported price feed: ${condition.baseFeed}`;
+      if (!isSupported(condition.quoteFeed)) return `Unsupported price feed: ${condition.quoteFeed}`;
+      break;
+    case "percentChange":
+      if (!isSupported(condition.feed)) return `Unsupported price feed: ${condition.feed}`;
+      if (condition.direction !== "up" && condition.direction !== "down") {
+        return `Invalid direction: ${condition.direction}`;
+      }
+      if (!isPositive(condition.percent)) return "Percent move must be a positive number";
+      if (!isPositive(condition.windowSeconds)) return "Window must be a positive number of seconds";
+      return null;
+    case "trailingStop":
+      if (!isSupported(condition.feed)) return `Unsupported price feed: ${condition.feed}`;
+      if (condition.side !== "long" && condition.side !== "short") {
+        return `Invalid side: ${condition.side}`;
+      }
+      if (!isPositive(condition.trailPercent) || condition.trailPercent >= 100) {
+        return "Trailing percent must be between 0 and 100";
+      }
+      return null;
+    case "takeProfitStopLoss":
+      if (!isSupported(condition.feed)) return `Unsupported price feed: ${condition.feed}`;
+      if (!isPositive(condition.takeProfit) || !isPositive(condition.stopLoss)) {
+        return "Take-profit and stop-loss must be positive prices";
+      }
+      if (condition.takeProfit === condition.stopLoss) {
+        return "Take-profit and stop-loss must differ";
+      }
+      return null;
+    case "group":
+      if (condition.combinator !== "and" && condition.combinator !== "or") {
+        return `Invalid combinator: ${condition.combinator}`;
+      }
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        return "Condition groups must contain at least one condition";
+      }
+      for (const child of condition.conditions) {
+        const error = validateCondition(child, supportedFeeds);
+        if (error) return error;
+      }
+      return null;
+    default:
+      return "Invalid condition";
+  }
+
+  if (!(condition.operator in OPERATOR_LABELS)) {
+    return `Invalid operator: ${condition.operator}`;
+  }
+  if (!isPositive(condition.value)) {
+    return "Condition values must be positive numbers";
+  }
+  return null;
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Format a condition for display (e.g. "ETH < 2800 AND BTC > 60000")
+ */
+export function describeCondition(condition: StrategyCondition): string {
+  switch (condition.kind) {
+    case "price":
+      return `${condition.feed.toUpperCase()} ${OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+    case "ratio":
+      return `${condition.baseFeed.toUpperCase()}/${condition.quoteFeed.toUpperCase()} ${OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+    case "percentChange":
+      return `${condition.feed.toUpperCase()} ${condition.direction} ${condition.percent}% in ${formatWindow(condition.windowSeconds)}`;
+    case "trailingStop":
+      return `${condition.feed.toUpperCase()} trailing stop ${condition.trailPercent}% (${condition.side})`;
+    case "takeProfitStopLoss":
+      return `${condition.feed.toUpperCase()} TP ${condition.takeProfit} / SL ${condition.stopLoss}`;
+    case "group":
+      return condition.conditions
+        .map((child) => (child.kind === "group" ? `(${describeCondition(child)})` : describeCondition(child)))
+        .join(condition.combinator === "and" ? " AND " : " OR ");
+  }
+}
+
+function formatWindow(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400}d`;
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+/**
+ * Message an agent owner signs to attach conditions to an agent
+ * @param nonce Signing time in milliseconds (signatures expire and can't be replayed)
+ */
+export function getConditionsMessage(
+  agentId: string,
+  condition: StrategyCondition,
+  chainId: number,
+  nonce: number
+): string {
+  return [
+    `Set strategy conditions for agent ${agentId}:`,
+    JSON.stringify(condition),
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+  ].join("\n");
+}
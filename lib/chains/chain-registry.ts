@@ -0,0 +1,208 @@
+/**
+ * Chain Registry
+ *
+ * Single source of chain configuration: viem chain, RPC URL, contract addresses
+ * (agent registry, Pyth, 1inch router, Uniswap v3, ENS) and supported tokens.
+ * Unknown chains are rejected with the same error everywhere (see getChainConfig).
+ *
+ * Environment variables:
+ * - NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL: Optional Base Sepolia RPC URL (default: public RPC)
+ * - NEXT_PUBLIC_BASE_RPC_URL: Optional Base RPC URL (default: public RPC)
+ * - NEXT_PUBLIC_MAINNET_RPC_URL: Optional Ethereum RPC URL (default: public RPC)
+ */
+
+import { Address, Chain, createPublicClient, http } from "viem";
+import { baseSepolia, base, mainnet } from "viem/chains";
+
+export const CHAIN_IDS = {
+  BASE_SEPOLIA: 84532,
+  BASE: 8453,
+  ETHEREUM: 1,
+} as const;
+
+// Chain used when a request doesn't specify one
+export const DEFAULT_CHAIN_ID = CHAIN_IDS.BASE_SEPOLIA;
+
+// ENS contracts live on Ethereum mainnet
+export const ENS_CHAIN_ID = CHAIN_IDS.ETHEREUM;
+
+// Address 1inch (and the agents) use for the chain's native token
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as Address;
+
+// 1inch Aggregation Router v6 (same address on every chain)
+const ONEINCH_ROUTER_V6 = "0x111111125421ca6dc452d289314280a0f8842a65" as Address;
+
+export interface ChainToken {
+  symbol: string;
+  name: string;
+  address: Address;
+  decimals: number;
+  priceFeed?: string; // Pyth feed symbol that prices the token (e.g. "ETH" for WETH)
+}
+
+export interface EnsContracts {
+  registry: Address;
+  reverseRegistrar: Address;
+  publicResolver: Address;
+  universalResolver: Address;
+}
+
+export interface UniswapV3Contracts {
+  quoter: Address; // QuoterV2
+  swapRouter: Address; // SwapRouter02
+}
+
+export interface ChainConfig {
+  id: number;
+  name: string;
+  shortName: string;
+  chain: Chain; // viem chain
+  rpcUrl?: string; // Configured RPC URL (undefined = the viem chain's public RPC)
+  agentRegistry?: Address; // TradingAgentRegistry (undefined = not deployed)
+  pyth: Address;
+  oneInchRouter?: Address;
+  uniswapV3?: UniswapV3Contracts;
+  ens?: EnsContracts;
+  tokens: ChainToken[];
+}
+
+export const CHAINS: Record<number, ChainConfig> = {
+  [CHAIN_IDS.BASE_SEPOLIA]: {
+    id: CHAIN_IDS.BASE_SEPOLIA,
+    name: "Base Sepolia",
+    shortName: "Base Sepolia",
+    chain: baseSepolia,
+    rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || undefined,
+    agentRegistry: "0x06c0cc944dbECe2cBe4d2Ac8e326a16AfFbFD345",
+    pyth: "0xA2aa501b19aff244D90cc15a4Cf739D2725B5729",
+    oneInchRouter: ONEINCH_ROUTER_V6,
+    tokens: [
+      { symbol: "ETH", name: "Ether", address: NATIVE_TOKEN_ADDRESS, decimals: 18, priceFeed: "ETH" },
+      {
+        symbol: "WETH",
+        name: "Wrapped Ether",
+        address: "0x4200000000000000000000000000000000000006",
+        decimals: 18,
+        priceFeed: "ETH",
+      },
+      {
+        symbol: "USDC",
+        name: "USD Coin",
+        address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        decimals: 6,
+        priceFeed: "USDC",
+      },
+      {
+        symbol: "DAI",
+        name: "Dai Stablecoin",
+        address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+        decimals: 18,
+      },
+    ],
+  },
+  [CHAIN_IDS.BASE]: {
+    id: CHAIN_IDS.BASE,
+    name: "Base",
+    shortName: "Base",
+    chain: base,
+    rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || undefined,
+    agentRegistry: undefined, // Not deployed yet
+    pyth: "0x8250f4aF4B972684F7b336503E2D6dFeDeB1487a",
+    oneInchRouter: ONEINCH_ROUTER_V6,
+    uniswapV3: {
+      quoter: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+      swapRouter: "0x2626664c2603336E57B271c5C0b26F421741e481",
+    },
+    tokens: [
+      { symbol: "ETH", name: "Ether", address: NATIVE_TOKEN_ADDRESS, decimals: 18, priceFeed: "ETH" },
+      {
+        symbol: "WETH",
+        name: "Wrapped Ether",
+        address: "0x4200000000000000000000000000000000000006",
+        decimals: 18,
+        priceFeed: "ETH",
+      },
+      {
+        symbol: "USDC",
+        name: "USD Coin",
+        address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        decimals: 6,
+        priceFeed: "USDC",
+      },
+      {
+        symbol: "DAI",
+        name: "Dai Stablecoin",
+        address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+        decimals: 18,
+      },
+      {
+        symbol: "CBBTC",
+        name: "Coinbase Wrapped BTC",
+        address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
+        decimals: 8,
+        priceFeed: "BTC",
+      },
+    ],
+  },
+  [CHAIN_IDS.ETHEREUM]: {
+    id: CHAIN_IDS.ETHEREUM,
+    name: "Ethereum",
+    shortName: "Mainnet",
+    chain: mainnet,
+    rpcUrl: process.env.NEXT_PUBLIC_MAINNET_RPC_URL || undefined,
+    pyth: "0x4305FB66699C3B2702D4d05CF36551390A4c69C6",
+    ens: {
+      registry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
+      reverseRegistrar: "0x084b1c3C81545d370f3634392De611CaaBFf8146",
+      publicResolver: "0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41",
+      universalResolver: "0xce01f8eee7E479C928F8919abD53E553a36CeF67",
+    },
+    tokens: [],
+  },
+};
+
+/**
+ * Get every configured chain
+ */
+export function getSupportedChains(): ChainConfig[] {
+  return Object.values(CHAINS);
+}
+
+/**
+ * Check whether a chain is configured
+ */
+export function isSupportedChain(chainId: number): boolean {
+  return chainId in CHAINS;
+}
+
+/**
+ * Get the configuration of a chain
+ * @throws If the chain is not configured
+ */
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = CHAINS[chainId];
+  if (!config) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
+  }
+  return config;
+}
+
+/**
+ * Get the RPC URL for a chain
+ * @param override RPC URL that takes precedence (e.g. from a request or MONITOR_RPC_URL)
+ * @returns RPC URL, or undefined to use the chain's public RPC
+ */
+export function getRpcUrl(chainId: number, override?: string): string | undefined {
+  return override || getChainConfig(chainId).rpcUrl;
+}
+
+/**
+ * Create a public client for a chain
+ * @param rpcUrl Optional RPC URL override
+ */
+export function createChainPublicClient(chainId: number, rpcUrl?: string) {
+  return createPublicClient({
+    chain: getChainConfig(chainId).chain,
+    transport: http(getRpcUrl(chainId, rpcUrl)),
+  });
+}
@@ -5,6 +5,7 @@
  */
 
 import { Address, encodeFunctionData, parseAbi, Hash } from "viem";
+import { ENS_CHAIN_ID, getChainConfig, type EnsContracts } from "@/lib/chains/chain-registry";
 
 // ENS Registry ABI (minimal for subname creation)
 export const ENS_REGISTRY_ABI = parseAbi([
@@ -27,14 +28,16 @@ export const ENS_REVERSE_REGISTRAR_ABI = parseAbi([
   "function name(bytes32 node) external view returns (string)",
 ]);
 
-// ENS contract addresses
-export const ENS_CONTRACTS = {
-  MAINNET: {
-    registry: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e" as Address,
-    reverseRegistrar: "0x084b1c3C81545d370f3634392De611CaaBFf8146" as Address,
-    publicResolver: "0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41" as Address,
-  },
-} as const;
+/**
+ * Get the ENS contract addresses (configured on ENS_CHAIN_ID in the chain registry)
+ */
+function getEnsContracts(): EnsContracts {
+  const contracts = getChainConfig(ENS_CHAIN_ID).ens;
+  if (!contracts) {
+    throw new Error(`ENS contracts not configured on chain ${ENS_CHAIN_ID}`);
+  }
+  return contracts;
+}
 
 /**
  * Get ENS registry address for a chain
@@ -42,21 +45,21 @@ export const ENS_CONTRACTS = {
  */
 export function getEnsRegistryAddress(_chainId: number): Address {
   // ENS is on mainnet, but address is same across chains
-  return ENS_CONTRACTS.MAINNET.registry;
+  return getEnsContracts().registry;
 }
 
 /**
  * Get reverse registrar address
  */
 export function getReverseRegistrarAddress(_chainId: number): Address {
-  return ENS_CONTRACTS.MAINNET.reverseRegistrar;
+  return getEnsContracts().reverseRegistrar;
 }
 
 /**
  * Get public resolver address
  */
 export function getPublicResolverAddress(_chainId: number): Address {
-  return ENS_CONTRACTS.MAINNET.publicResolver;
+  return getEnsContracts().publicResolver;
 }
 
 /**
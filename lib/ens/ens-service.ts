@@ -12,20 +12,6 @@ import { Address, Hash, namehash } from "viem";
 import { normalize } from "viem/ens";
 import { keccak256, toBytes } from "viem";
 
-// ENS Registry addresses
-export const ENS_REGISTRY = {
-  MAINNET: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e",
-  BASE: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e", // Same as mainnet
-  BASE_SEPOLIA: "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e", // Same as mainnet
-} as const;
-
-// Universal Resolver addresses
-export const ENS_UNIVERSAL_RESOLVER = {
-  MAINNET: "0xce01f8eee7E479C928F8919abD53E553a36CeF67",
-  BASE: "0xce01f8eee7E479C928F8919abD53E553a36CeF67",
-  BASE_SEPOLIA: "0xce01f8eee7E479C928F8919abD53E553a36CeF67",
-} as const;
-
 export interface ENSNameInfo {
   name: string;
   node: Hash;
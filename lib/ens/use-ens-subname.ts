@@ -7,7 +7,6 @@
 import { useWriteContract, useChainId, useSwitchChain } from "wagmi";
 import { Address } from "viem";
 import { useState } from "react";
-import { mainnet } from "wagmi/chains";
 import {
   getNamehash,
   getLabelhash,
@@ -21,9 +20,7 @@ import {
   ENS_REGISTRY_ABI,
   ENS_REVERSE_REGISTRAR_ABI,
 } from "./ens-contract";
-
-// ENS operations must happen on mainnet
-const ENS_CHAIN_ID = mainnet.id;
+import { ENS_CHAIN_ID } from "@/lib/chains/chain-registry";
 
 export interface UseEnsSubnameReturn {
   createSubname: (params: CreateSubnameParams) => Promise<string | null>;
@@ -0,0 +1,319 @@
+/**
+ * Mock 1inch API (server only)
+ *
+ * Offline stand-in for the 1inch endpoints used by 1inch-service:
+ * - /swap/v6.0/{chain}/quote
+ * - /swap/v6.0/{chain}/swap
+ * - /approve/v5.2/{chain}/allowance
+ * - /approve/v5.2/{chain}/approve/transaction
+ *
+ * Quotes are deterministic: amounts convert at fixed USD prices minus a flat fee.
+ * Failures can be injected per endpoint to exercise error handling.
+ *
+ * Environment variables:
+ * - MOCK_1INCH_FAILURES: Optional JSON array of failures to inject at startup
+ *   (e.g. [{"endpoint":"swap","status":500,"error":"Internal error","remaining":1}])
+ */
+
+import { Address, Hex, concat, encodeFunctionData, maxUint256, parseAbi } from "viem";
+import { get1inchRouterAddress } from "@/lib/1inch/1inch-contract";
+import { isSupportedChain } from "@/lib/chains/chain-registry";
+import { NATIVE_TOKEN_ADDRESS, TOKENS } from "@/lib/tokens/token-registry";
+
+// USD price of each Pyth feed (matches the mock Hermes defaults); other tokens are $1
+const MOCK_FEED_PRICES_USD: Record<string, number> = { ETH: 3000, BTC: 60000 };
+
+// Fee taken from every mock quote (basis points)
+const MOCK_FEE_BPS = BigInt(30);
+
+const MOCK_GAS = 180000;
+const MOCK_GAS_PRICE = "1000000000";
+
+export type MockOneInchEndpoint = "quote" | "swap" | "allowance" | "approve";
+
+export interface MockOneInchFailure {
+  endpoint: MockOneInchEndpoint | "*";
+  status: number;
+  error: string;
+  remaining?: number; // Fail this many more requests (default: until cleared)
+}
+
+export interface MockTokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  priceUsd: number;
+}
+
+export interface MockOneInchResponse {
+  status: number;
+  body: unknown;
+}
+
+interface MockOneInchState {
+  failures: MockOneInchFailure[];
+  allowance: string; // Allowance reported for every token/wallet
+}
+
+let state: MockOneInchState | null = null;
+
+const ROUTER_ABI = parseAbi([
+  "function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes data) payable returns (uint256 returnAmount, uint256 spentAmount)",
+  "function permitAndCall(bytes permit, bytes action) payable",
+]);
+
+const ERC20_APPROVE_ABI = parseAbi([
+  "function approve(address spender, uint256 amount) returns (bool)",
+]);
+
+function getState(): MockOneInchState {
+  if (!state) {
+    state = {
+      failures: JSON.parse(process.env.MOCK_1INCH_FAILURES || "[]"),
+      allowance: maxUint256.toString(),
+    };
+  }
+  return state;
+}
+
+/**
+ * Get the token list the mock quotes against (unknown tokens are treated as $1, 18 decimals)
+ */
+function getMockTokens(): Record<string, MockTokenInfo> {
+  const tokens: Record<string, MockTokenInfo> = {};
+
+  for (const token of TOKENS) {
+    tokens[token.address.toLowerCase()] = {
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      priceUsd: MOCK_FEED_PRICES_USD[token.priceFeed ?? ""] ?? 1,
+    };
+  }
+
+  return tokens;
+}
+
+function getTokenInfo(address: string): MockTokenInfo {
+  return (
+    getMockTokens()[address.toLowerCase()] ?? {
+      address,
+      symbol: "MOCK",
+      name: "Mock Token",
+      decimals: 18,
+      priceUsd: 1,
+    }
+  );
+}
+
+/**
+ * Inject a failure for an endpoint ("*" matches every endpoint)
+ */
+export function injectMockOneInchFailure(failure: MockOneInchFailure): void {
+  getState().failures.push(failure);
+}
+
+/**
+ * Set the allowance the mock reports (use "0" to exercise the approval flow)
+ */
+export function setMockOneInchAllowance(allowance: string): void {
+  getState().allowance = BigInt(allowance).toString();
+}
+
+/**
+ * Clear injected failures and restore the default allowance
+ */
+export function resetMockOneInch(): void {
+  state = null;
+}
+
+/**
+ * Get the current mock configuration
+ */
+export function getMockOneInchState(): MockOneInchState {
+  return getState();
+}
+
+/**
+ * Consume the next injected failure matching an endpoint
+ */
+function takeFailure(endpoint: MockOneInchEndpoint): MockOneInchFailure | null {
+  const current = getState();
+  const failure = current.failures.find((f) => f.endpoint === endpoint || f.endpoint === "*");
+  if (!failure) return null;
+
+  if (failure.remaining !== undefined) {
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      current.failures = current.failures.filter((f) => f !== failure);
+    }
+  }
+  return failure;
+}
+
+/**
+ * Convert an amount of src into dst at the mock prices, minus the fee
+ */
+export function getMockQuoteAmount(src: string, dst: string, amount: bigint): bigint {
+  const srcToken = getTokenInfo(src);
+  const dstToken = getTokenInfo(dst);
+
+  // Scale prices to integers to keep the conversion in bigint math
+  const srcPrice = BigInt(Math.round(srcToken.priceUsd * 1e6));
+  const dstPrice = BigInt(Math.round(dstToken.priceUsd * 1e6));
+  const converted =
+    (amount * srcPrice * BigInt(10) ** BigInt(dstToken.decimals)) /
+    (dstPrice * BigInt(10) ** BigInt(srcToken.decimals));
+
+  return (converted * (BigInt(10000) - MOCK_FEE_BPS)) / BigInt(10000);
+}
+
+function badRequest(description: string): MockOneInchResponse {
+  return { status: 400, body: { error: "Bad Request", description, statusCode: 400 } };
+}
+
+/**
+ * Handle a request to the mock 1inch API
+ * @param endpoint Path after the base URL (e.g. "/swap/v6.0/84532/quote")
+ * @param params Query parameters
+ */
+export function handleMockOneInchRequest(
+  endpoint: string,
+  params: URLSearchParams
+): MockOneInchResponse {
+  const match = endpoint.match(/^\/?(swap\/v6\.0|approve\/v5\.2)\/(\d+)\/(quote|swap|allowance|approve\/transaction)$/);
+  if (!match) {
+    return { status: 404, body: { error: "Not Found", description: `Unknown endpoint: ${endpoint}` } };
+  }
+
+  const [, api, chain, action] = match;
+  const name: MockOneInchEndpoint =
+    action === "approve/transaction" ? "approve" : (action as MockOneInchEndpoint);
+  if ((api === "swap/v6.0") !== (name === "quote" || name === "swap")) {
+    return { status: 404, body: { error: "Not Found", description: `Unknown endpoint: ${endpoint}` } };
+  }
+
+  const failure = takeFailure(name);
+  if (failure) {
+    return { status: failure.status, body: { error: failure.error, statusCode: failure.status } };
+  }
+
+  const chainId = Number(chain);
+  const router = isSupportedChain(chainId) ? get1inchRouterAddress(chainId) : null;
+  if (!router) {
+    return badRequest(`Unsupported chain ID: ${chain}`);
+  }
+
+  if (name === "allowance") {
+    if (!params.get("tokenAddress") || !params.get("walletAddress")) {
+      return badRequest("tokenAddress and walletAddress are required");
+    }
+    return { status: 200, body: { allowance: getState().allowance } };
+  }
+
+  if (name === "approve") {
+    const tokenAddress = params.get("tokenAddress");
+    if (!tokenAddress) return badRequest("tokenAddress is required");
+
+    const amount = params.get("amount");
+    return {
+      status: 200,
+      body: {
+        to: tokenAddress,
+        data: encodeFunctionData({
+          abi: ERC20_APPROVE_ABI,
+          functionName: "approve",
+          args: [router, !amount || amount === "unlimited" ? maxUint256 : BigInt(amount)],
+        }),
+        value: "0",
+        gasPrice: MOCK_GAS_PRICE,
+      },
+    };
+  }
+
+  const src = params.get("src");
+  const dst = params.get("dst");
+  const amount = params.get("amount");
+  if (!src || !dst || !amount || !/^\d+$/.test(amount)) {
+    return badRequest("src, dst and a numeric amount are required");
+  }
+  if (BigInt(amount) === BigInt(0)) {
+    return badRequest("amount must be greater than 0");
+  }
+
+  const dstAmount = getMockQuoteAmount(src, dst, BigInt(amount));
+
+  if (name === "quote") {
+    return {
+      status: 200,
+      body: {
+        srcToken: getTokenInfo(src),
+        dstToken: getTokenInfo(dst),
+        dstAmount: dstAmount.toString(),
+        protocols: [[[{ name: "MOCK", part: 100, fromTokenAddress: src, toTokenAddress: dst }]]],
+        gas: MOCK_GAS,
+      },
+    };
+  }
+
+  const from = params.get("from");
+  if (!from) return badRequest("from is required");
+
+  // Like the real API, minReturn replaces the slippage tolerance
+  const minReturnParam = params.get("minReturn");
+  if (minReturnParam !== null && !/^\d+$/.test(minReturnParam)) {
+    return badRequest("minReturn must be a numeric amount");
+  }
+  const slippage = parseFloat(params.get("slippage") || "1");
+  const minReturn =
+    minReturnParam !== null
+      ? BigInt(minReturnParam)
+      : (dstAmount * BigInt(Math.round((100 - slippage) * 100))) / BigInt(10000);
+
+  const swapData = encodeFunctionData({
+    abi: ROUTER_ABI,
+    functionName: "swap",
+    args: [
+      router,
+      {
+        srcToken: src as Address,
+        dstToken: dst as Address,
+        srcReceiver: router,
+        dstReceiver: from as Address,
+        amount: BigInt(amount),
+        minReturnAmount: minReturn,
+        flags: BigInt(0),
+      },
+      "0x",
+    ],
+  });
+
+  // Like the real API, a permit wraps the swap in permitAndCall(token ++ permit, swap)
+  const permit = params.get("permit");
+  const data = permit
+    ? encodeFunctionData({
+        abi: ROUTER_ABI,
+        functionName: "permitAndCall",
+        args: [concat([src as Hex, permit as Hex]), swapData],
+      })
+    : swapData;
+
+  return {
+    status: 200,
+    body: {
+      srcToken: getTokenInfo(src),
+      dstToken: getTokenInfo(dst),
+      dstAmount: dstAmount.toString(),
+      tx: {
+        from,
+        to: router,
+        data,
+        value: src.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase() ? amount : "0",
+        gas: MOCK_GAS,
+        gasPrice: MOCK_GAS_PRICE,
+      },
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Mock Hermes (server only)
+ *
+ * Offline stand-in for the Pyth Hermes API used in development and tests.
+ * Prices follow scriptable paths (constant, linear ramp, sine wave, step sequence)
+ * and responses match Hermes v2 (/v2/updates/price/latest and /v2/updates/price/<time>),
+ * with both parsed prices and binary update data.
+ *
+ * Binary updates are ABI-encoded (PriceFeed, prevPublishTime) tuples, the format
+ * accepted by Pyth's MockPyth contract (see MockPyth.createPriceFeedUpdateData).
+ *
+ * Environment variables:
+ * - MOCK_HERMES_PATHS: Optional JSON map of feed symbol or ID to price path
+ *   (e.g. {"ETH":{"kind":"linear","from":3000,"to":2500,"durationSeconds":3600}})
+ */
+
+import { encodeAbiParameters } from "viem";
+import { PRICE_FEED_IDS } from "@/lib/privy/pyth-service";
+
+// Exponent of every mock price (matches the USD crypto feeds)
+const MOCK_EXPO = -8;
+
+// Confidence interval as a fraction of the price
+const MOCK_CONF_RATIO = 0.001;
+
+export type MockPricePath =
+  | { kind: "constant"; price: number }
+  | { kind: "linear"; from: number; to: number; durationSeconds: number; startTime?: number }
+  | { kind: "sine"; base: number; amplitude: number; periodSeconds: number; startTime?: number }
+  | { kind: "steps"; prices: number[]; stepSeconds: number; startTime?: number };
+
+const DEFAULT_PATHS: Record<string, MockPricePath> = {
+  [PRICE_FEED_IDS.ETH_USD]: { kind: "constant", price: 3000 },
+  [PRICE_FEED_IDS.BTC_USD]: { kind: "constant", price: 60000 },
+  [PRICE_FEED_IDS.USDC_USD]: { kind: "constant", price: 1 },
+};
+
+// Scripted paths keyed by normalized feed ID
+let paths: Map<string, MockPricePath> | null = null;
+
+const PRICE_FEED_UPDATE_ABI = [
+  {
+    type: "tuple",
+    components: [
+      { name: "id", type: "bytes32" },
+      {
+        name: "price",
+        type: "tuple",
+        components: [
+          { name: "price", type: "int64" },
+          { name: "conf", type: "uint64" },
+          { name: "expo", type: "int32" },
+          { name: "publishTime", type: "uint256" },
+        ],
+      },
+      {
+        name: "emaPrice",
+        type: "tuple",
+        components: [
+          { name: "price", type: "int64" },
+          { name: "conf", type: "uint64" },
+          { name: "expo", type: "int32" },
+          { name: "publishTime", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  { name: "prevPublishTime", type: "uint64" },
+] as const;
+
+export interface MockParsedPrice {
+  id: string;
+  price: { price: string; conf: string; expo: number; publish_time: number };
+  ema_price: { price: string; conf: string; expo: number; publish_time: number };
+  metadata: { prev_publish_time: number; proof_available_time: number; slot: number };
+}
+
+export interface MockPriceUpdateResponse {
+  binary: { encoding: "hex" | "base64"; data: string[] };
+  parsed?: MockParsedPrice[];
+}
+
+/**
+ * Normalize a feed symbol ("ETH") or ID to a lowercase ID without 0x
+ */
+export function normalizeMockFeedId(feed: string): string {
+  const key = `${feed.toUpperCase()}_USD` as keyof typeof PRICE_FEED_IDS;
+  const id = PRICE_FEED_IDS[key] ?? feed;
+  return id.replace(/^0x/, "").toLowerCase();
+}
+
+function getPaths(): Map<string, MockPricePath> {
+  if (!paths) {
+    paths = new Map();
+    const configured: Record<string, MockPricePath> = {
+      ...DEFAULT_PATHS,
+      ...JSON.parse(process.env.MOCK_HERMES_PATHS || "{}"),
+    };
+    const now = Math.floor(Date.now() / 1000);
+    for (const [feed, path] of Object.entries(configured)) {
+      paths.set(normalizeMockFeedId(feed), withStartTime(path, now));
+    }
+  }
+  return paths;
+}
+
+function withStartTime(path: MockPricePath, now: number): MockPricePath {
+  return path.kind === "constant" ? path : { ...path, startTime: path.startTime ?? now };
+}
+
+/**
+ * Script the price path of a feed (time-based paths start now unless startTime is set)
+ */
+export function setMockPricePath(feed: string, path: MockPricePath): void {
+  if (!["constant", "linear", "sine", "steps"].includes(path?.kind)) {
+    throw new Error(`Invalid price path kind: ${path?.kind}`);
+  }
+  getPaths().set(normalizeMockFeedId(feed), withStartTime(path, Math.floor(Date.now() / 1000)));
+}
+
+/**
+ * Restore the default (and MOCK_HERMES_PATHS) price paths
+ */
+export function resetMockHermes(): void {
+  paths = null;
+}
+
+/**
+ * Get the scripted paths keyed by feed ID
+ */
+export function getMockPricePaths(): Record<string, MockPricePath> {
+  return Object.fromEntries(getPaths());
+}
+
+/**
+ * Evaluate a price path at a time
+ */
+export function getMockPrice(path: MockPricePath, timestamp: number): number {
+  switch (path.kind) {
+    case "constant":
+      return path.price;
+    case "linear": {
+      const elapsed = timestamp - (path.startTime ?? timestamp);
+      const progress = Math.min(Math.max(elapsed / path.durationSeconds, 0), 1);
+      return path.from + (path.to - path.from) * progress;
+    }
+    case "sine": {
+      const elapsed = timestamp - (path.startTime ?? timestamp);
+      return path.base + path.amplitude * Math.sin((2 * Math.PI * elapsed) / path.periodSeconds);
+    }
+    case "steps": {
+      const elapsed = Math.max(timestamp - (path.startTime ?? timestamp), 0);
+      const index = Math.min(Math.floor(elapsed / path.stepSeconds), path.prices.length - 1);
+      return path.prices[index];
+    }
+  }
+}
+
+/**
+ * Build a Hermes v2 price update response
+ * @param ids Requested feed IDs (with or without 0x)
+ * @param publishTime Time of the prices (Unix seconds)
+ * @returns Response body, or null with the unknown IDs if any feed isn't scripted
+ */
+export function buildMockPriceUpdate(
+  ids: string[],
+  publishTime: number,
+  options: { encoding?: "hex" | "base64"; parsed?: boolean } = {}
+): { response: MockPriceUpdateResponse | null; unknownIds: string[] } {
+  const { encoding = "hex", parsed = true } = options;
+  const feedPaths = getPaths();
+
+  const unknownIds = ids.filter((id) => !feedPaths.has(normalizeMockFeedId(id)));
+  if (unknownIds.length > 0) {
+    return { response: null, unknownIds };
+  }
+
+  const prices = ids.map((id) => {
+    const feedId = normalizeMockFeedId(id);
+    const price = getMockPrice(feedPaths.get(feedId)!, publishTime);
+    const scaled = BigInt(Math.round(price * 10 ** -MOCK_EXPO));
+    const conf = BigInt(Math.round(price * MOCK_CONF_RATIO * 10 ** -MOCK_EXPO));
+    return { feedId, scaled, conf };
+  });
+
+  const data = prices.map(({ feedId, scaled, conf }) => {
+    const price = { price: scaled, conf, expo: MOCK_EXPO, publishTime: BigInt(publishTime) };
+    const encoded = encodeAbiParameters(PRICE_FEED_UPDATE_ABI, [
+      { id: `0x${feedId}`, price, emaPrice: price },
+      BigInt(publishTime - 1),
+    ]);
+    return encoding === "base64"
+      ? Buffer.from(encoded.slice(2), "hex").toString("base64")
+      : encoded.slice(2);
+  });
+
+  const response: MockPriceUpdateResponse = { binary: { encoding, data } };
+  if (parsed) {
+    response.parsed = prices.map(({ feedId, scaled, conf }) => {
+      const price = {
+        price: scaled.toString(),
+        conf: conf.toString(),
+        expo: MOCK_EXPO,
+        publish_time: publishTime,
+      };
+      return {
+        id: feedId,
+        price,
+        ema_price: price,
+        metadata: {
+          prev_publish_time: publishTime - 1,
+          proof_available_time: publishTime,
+          slot: publishTime,
+        },
+      };
+    });
+  }
+
+  return { response, unknownIds: [] };
+}
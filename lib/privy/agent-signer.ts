@@ -8,6 +8,7 @@
 import { usePrivy, useWallets } from "@privy-io/react-auth";
 import { useSignTypedData, useSignMessage } from "wagmi";
 import { Address, Hash, TypedDataDomain } from "viem";
+import type { PermitSigner } from "@/lib/1inch/permit";
 
 // Define TypedDataField type for EIP-712
 type TypedDataField = {
@@ -159,6 +160,27 @@ export function useAgentSigner() {
     }
   };
 
+  /**
+   * Sign a token permit (EIP-2612 or Permit2) for a gasless swap approval, or a 1inch order
+   * Pass as AgentSwapConfig.signTypedData or CreateLimitOrderParams.signTypedData
+   */
+  const signPermit: PermitSigner = async (typedData) => {
+    if (!authenticated || !ready) {
+      throw new Error("User not authenticated");
+    }
+
+    if (!embeddedWallet) {
+      throw new Error("No embedded wallet found");
+    }
+
+    try {
+      return await signTypedDataAsync(typedData);
+    } catch (error) {
+      console.error("Error signing permit:", error);
+      throw error;
+    }
+  };
+
   /**
    * Verify if the current user can sign for an agent
    */
@@ -170,6 +192,7 @@ export function useAgentSigner() {
   return {
     signAgentExecution,
     signAgentMessage,
+    signPermit,
     canSignForAgent,
     isReady: ready && authenticated,
     walletAddress: embeddedWallet?.address as Address | undefined,
@@ -3,20 +3,19 @@
 import { PrivyProvider } from "@privy-io/react-auth";
 import { WagmiProvider, createConfig } from "@privy-io/wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { baseSepolia, base, mainnet } from "wagmi/chains";
 import { useState } from "react";
 import { http } from "viem";
+import { getSupportedChains } from "@/lib/chains/chain-registry";
 
 // Create Wagmi config with Privy integration
 // Note: Type assertions needed due to viem version conflicts in dependencies
-// Mainnet is included for ENS operations (ENS contracts are on mainnet)
+// Chains come from the chain registry (mainnet is included for ENS operations)
+const supportedChains = getSupportedChains();
 const wagmiConfig = createConfig({
-  chains: [baseSepolia, base, mainnet] as any,
-  transports: {
-    [baseSepolia.id]: http() as any,
-    [base.id]: http() as any,
-    [mainnet.id]: http(process.env.NEXT_PUBLIC_MAINNET_RPC_URL) as any,
-  },
+  chains: supportedChains.map((config) => config.chain) as any,
+  transports: Object.fromEntries(
+    supportedChains.map((config) => [config.id, http(config.rpcUrl) as any])
+  ),
 });
 
 export function Providers({ children }: { children: React.ReactNode }) {
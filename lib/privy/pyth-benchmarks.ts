@@ -0,0 +1,57 @@
+/**
+ * Pyth Benchmarks Service
+ *
+ * Fetches historical price series (OHLC candles) from the Pyth Benchmarks API
+ * for backtesting strategies
+ */
+
+const PYTH_BENCHMARKS_API = "https://benchmarks.pyth.network/v1/shims/tradingview/history";
+
+// Candle resolutions supported by the Benchmarks TradingView shim
+export type BenchmarkResolution = "1" | "5" | "15" | "60" | "240" | "1D";
+
+export interface HistoricalPrice {
+  timestamp: number; // Unix timestamp (seconds)
+  price: number; // USD close price
+}
+
+/**
+ * Fetch historical close prices for a feed
+ * @param symbol Feed symbol (e.g. "ETH")
+ * @param from Start time (Unix seconds)
+ * @param to End time (Unix seconds)
+ * @param resolution Candle resolution
+ * @returns Close prices, oldest first
+ */
+export async function fetchHistoricalPrices(
+  symbol: string,
+  from: number,
+  to: number,
+  resolution: BenchmarkResolution = "60"
+): Promise<HistoricalPrice[]> {
+  const url = new URL(PYTH_BENCHMARKS_API);
+  url.searchParams.set("symbol", `Crypto.${symbol.toUpperCase()}/USD`);
+  url.searchParams.set("resolution", resolution);
+  url.searchParams.set("from", String(Math.floor(from)));
+  url.searchParams.set("to", String(Math.floor(to)));
+
+  const response = await fetch(url.toString(), {
+    headers: { Accept: "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Pyth Benchmarks API error (${response.status}): ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as { s: string; t?: number[]; c?: number[]; errmsg?: string };
+
+  if (data.s === "no_data") {
+    return [];
+  }
+  if (data.s !== "ok" || !data.t || !data.c) {
+    throw new Error(`Pyth Benchmarks API error: ${data.errmsg || data.s}`);
+  }
+
+  const closes = data.c;
+  return data.t.map((timestamp, i) => ({ timestamp, price: closes[i] }));
+}
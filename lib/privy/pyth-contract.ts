@@ -4,16 +4,21 @@
  * Functions to interact with Pyth contracts on-chain
  */
 
-import { Address, encodeFunctionData, parseAbi } from "viem";
-import { PRICE_FEED_IDS, PYTH_CONTRACTS } from "@/lib/privy/pyth-service";
+import { Address, type PublicClient, encodeFunctionData, parseAbi } from "viem";
+import { PRICE_FEED_IDS } from "@/lib/privy/pyth-service";
+import { getChainConfig } from "@/lib/chains/chain-registry";
 
 // Pyth contract ABI (minimal for updatePriceFeeds)
 const PYTH_ABI = parseAbi([
   "function updatePriceFeeds(bytes[] calldata updateData) external payable",
+  "function getUpdateFee(bytes[] calldata updateData) external view returns (uint256 feeAmount)",
   "function getPrice(bytes32 id) external view returns ((int64 price, uint64 conf, int32 expo, uint256 publishTime))",
   "function getPriceNoOlderThan(bytes32 id, uint256 age) external view returns ((int64 price, uint64 conf, int32 expo, uint256 publishTime))",
 ]);
 
+// Symbols accepted by getPriceFeedId
+export const PRICE_FEED_SYMBOLS = ["ETH", "BTC", "USDC"] as const;
+
 export interface PythPrice {
   price: bigint;
   conf: bigint;
@@ -38,23 +43,33 @@ export function encodeUpdatePriceFeeds(
   });
 }
 
+/**
+ * Get the fee required to submit price update data on-chain
+ * @param publicClient Public client for the target chain
+ * @param chainId Chain ID
+ * @param updateData Array of price update data (binary format from Hermes)
+ * @returns Update fee in wei
+ */
+export async function getUpdateFee(
+  publicClient: Pick<PublicClient, "readContract">,
+  chainId: number,
+  updateData: `0x${string}`[]
+): Promise<bigint> {
+  return publicClient.readContract({
+    address: getPythContractAddress(chainId),
+    abi: PYTH_ABI,
+    functionName: "getUpdateFee",
+    args: [updateData],
+  });
+}
+
 /**
  * Get Pyth contract address for a given chain
  * @param chainId Chain ID
  * @returns Pyth contract address
  */
 export function getPythContractAddress(chainId: number): Address {
-  if (chainId === 84532) {
-    // Base Sepolia
-    return PYTH_CONTRACTS.BASE_SEPOLIA.pyth as Address;
-  } else if (chainId === 8453) {
-    // Base Mainnet
-    return PYTH_CONTRACTS.BASE.pyth as Address;
-  } else if (chainId === 1) {
-    // Ethereum
-    return PYTH_CONTRACTS.ETHEREUM.pyth as Address;
-  }
-  throw new Error(`Unsupported chain ID: ${chainId}`);
+  return getChainConfig(chainId).pyth;
 }
 
 /**
@@ -76,3 +91,11 @@ export function getPriceFeedId(symbol: string): `0x${string}` {
   }
 }
 
+/**
+ * Get the symbol of a price feed ID (inverse of getPriceFeedId)
+ * @returns Asset symbol, or null for feeds outside PRICE_FEED_SYMBOLS
+ */
+export function getPriceFeedSymbol(priceFeedId: string): string | null {
+  const id = priceFeedId.toLowerCase();
+  return PRICE_FEED_SYMBOLS.find((symbol) => getPriceFeedId(symbol).toLowerCase() === id) ?? null;
+}
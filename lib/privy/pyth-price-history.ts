@@ -0,0 +1,113 @@
+/**
+ * Pyth Price History (server only)
+ *
+ * Stores price samples observed by the monitor so triggers can look back
+ * over a window (percent moves, trailing stops).
+ * Falls back to Hermes historical prices when no local sample covers a time.
+ *
+ * Environment variables:
+ * - PRICE_HISTORY_PATH: Path of the history file (default: .data/price-history.json)
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fetchPriceUpdatesAtTimestamp, formatPrice } from "./pyth-service";
+import { getPriceFeedId } from "./pyth-contract";
+
+const DEFAULT_PRICE_HISTORY_PATH = ".data/price-history.json";
+
+// Samples older than this are dropped
+const MAX_SAMPLE_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// A local sample must be this close to the requested time to be used
+const MAX_SAMPLE_DISTANCE_SECONDS = 10 * 60;
+
+export interface PriceSample {
+  price: number; // USD price
+  publishTime: number; // Unix timestamp (seconds)
+}
+
+// Samples keyed by feed symbol, oldest first
+type PriceHistoryFile = Record<string, PriceSample[]>;
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function getHistoryPath(): string {
+  return path.resolve(process.env.PRICE_HISTORY_PATH || DEFAULT_PRICE_HISTORY_PATH);
+}
+
+async function readHistoryFile(): Promise<PriceHistoryFile> {
+  try {
+    return JSON.parse(await readFile(getHistoryPath(), "utf8")) as PriceHistoryFile;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+/**
+ * Record price samples
+ * @param samples Latest samples keyed by feed symbol (e.g. { ETH: {...} })
+ */
+export function recordPriceSamples(samples: Record<string, PriceSample>): Promise<void> {
+  const task = writeQueue.then(async () => {
+    const history = await readHistoryFile();
+    const cutoff = Math.floor(Date.now() / 1000) - MAX_SAMPLE_AGE_SECONDS;
+
+    for (const [symbol, sample] of Object.entries(samples)) {
+      const feed = symbol.toUpperCase();
+      const feedSamples = (history[feed] || []).filter((s) => s.publishTime >= cutoff);
+      const last = feedSamples[feedSamples.length - 1];
+
+      // Skip duplicates (same publish time seen by several agents)
+      if (!last || sample.publishTime > last.publishTime) {
+        feedSamples.push(sample);
+      }
+      history[feed] = feedSamples;
+    }
+
+    const historyPath = getHistoryPath();
+    await mkdir(path.dirname(historyPath), { recursive: true });
+    await writeFile(historyPath, JSON.stringify(history), "utf8");
+  });
+
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
+
+/**
+ * Get stored samples for a feed since a given time
+ */
+export async function getPriceHistory(
+  symbol: string,
+  sinceTime: number
+): Promise<PriceSample[]> {
+  const history = await readHistoryFile();
+  return (history[symbol.toUpperCase()] || []).filter((s) => s.publishTime >= sinceTime);
+}
+
+/**
+ * Get a feed's price at a given time
+ * Uses the closest stored sample at or before the time, otherwise queries Hermes
+ * @returns USD price, or null if unavailable
+ */
+export async function getPriceAt(symbol: string, timestamp: number): Promise<number | null> {
+  const history = await readHistoryFile();
+  const samples = history[symbol.toUpperCase()] || [];
+
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i].publishTime <= timestamp) {
+      if (timestamp - samples[i].publishTime <= MAX_SAMPLE_DISTANCE_SECONDS) {
+        return samples[i].price;
+      }
+      break;
+    }
+  }
+
+  try {
+    const [update] = await fetchPriceUpdatesAtTimestamp([getPriceFeedId(symbol)], timestamp);
+    return update ? formatPrice(update.price, update.expo) : null;
+  } catch {
+    return null;
+  }
+}
@@ -8,35 +8,41 @@
  */
 
 import { HermesClient } from "@pythnetwork/hermes-client";
-
-// Pyth contract addresses for Base Sepolia
-export const PYTH_CONTRACTS = {
-  BASE_SEPOLIA: {
-    pyth: "0x2880aB155794e7179c9eE2e3820029e5eE02F5E0", // Pyth contract on Base Sepolia
-    wormhole: "0x6aB5Ae6822647046626e83ee6dB8187151E1d5ab", // Wormhole contract
-  },
-  BASE: {
-    pyth: "0x2880aB155794e7179c9eE2e3820029e5eE02F5E0",
-    wormhole: "0x6aB5Ae6822647046626e83ee6dB8187151E1d5ab",
-  },
-  ETHEREUM: {
-    pyth: "0x4305FB66699C3B2702D4d05CF36551390A4c69C6",
-    wormhole: "0x6aB5Ae6822647046626e83ee6dB8187151E1d5ab",
-  },
-} as const;
+import { DEFAULT_CHAIN_ID } from "@/lib/chains/chain-registry";
 
 // Price feed IDs for Base Sepolia
 export const PRICE_FEED_IDS = {
   ETH_USD: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
   BTC_USD: "0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43",
-  USDC_USD: "0x41f3625971ca2edc3a18f1b214f25bc9610068203bf1c1bf33f7a1316c9c66d",
+  USDC_USD: "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a",
 } as const;
 
-// Initialize Hermes client
-const hermesClient = new HermesClient("https://hermes.pyth.network", {});
+export const DEFAULT_HERMES_URL = "https://hermes.pyth.network";
 
-// Hermes API endpoint for binary updates (still needed for on-chain updates)
-const HERMES_BINARY_API = "https://hermes.pyth.network/v2/updates/price/";
+let hermesClient: HermesClient | null = null;
+let hermesClientUrl: string | null = null;
+
+/**
+ * Get the Hermes endpoint
+ * Set HERMES_URL (server) or NEXT_PUBLIC_HERMES_URL (server and browser) to use
+ * another Hermes instance, e.g. the local mock at /api/mock/hermes
+ */
+export function getHermesUrl(): string {
+  const url = process.env.HERMES_URL || process.env.NEXT_PUBLIC_HERMES_URL || DEFAULT_HERMES_URL;
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Get the Hermes client for the configured endpoint
+ */
+function getHermesClient(): HermesClient {
+  const url = getHermesUrl();
+  if (!hermesClient || hermesClientUrl !== url) {
+    hermesClient = new HermesClient(url, {});
+    hermesClientUrl = url;
+  }
+  return hermesClient;
+}
 
 export interface PriceUpdate {
   priceId: string;
@@ -56,49 +62,76 @@ export async function fetchPriceUpdatesFromHermes(
 ): Promise<PriceUpdate[]> {
   try {
     // Use Pyth SDK to get latest price updates
-    const response = await hermesClient.getLatestPriceUpdates(priceIds);
+    const response = await getHermesClient().getLatestPriceUpdates(priceIds);
     console.log("Fetched price updates from Hermes:", response);
     
-    // Convert SDK response to our PriceUpdate format
-    const prices: PriceUpdate[] = [];
-    
-    // The SDK returns an object with parsed array
-    if (response.parsed && Array.isArray(response.parsed)) {
-      for (const item of response.parsed) {
-        if (item.id && item.price) {
-          const priceData = item.price;
-          prices.push({
-            priceId: item.id,
-            price: (priceData.price as any)?.toString() || "0",
-            conf: (priceData.conf as any)?.toString() || "0",
-            expo: (priceData.exponent as number) ?? -8,
-            publishTime: (priceData.publishTime as number) || 0,
-          });
-        }
-      }
-    }
-    
-    return prices;
+    return parsePriceUpdates(response);
   } catch (error) {
     console.error("Error fetching price updates from Hermes:", error);
     throw error;
   }
 }
 
+/**
+ * Fetch historical price information from Hermes at a given time
+ * @param priceIds Array of price feed IDs to fetch
+ * @param publishTime Unix timestamp (seconds) of the prices to fetch
+ * @returns Price data published at (or just after) the given time
+ */
+export async function fetchPriceUpdatesAtTimestamp(
+  priceIds: string[],
+  publishTime: number
+): Promise<PriceUpdate[]> {
+  try {
+    const response = await getHermesClient().getPriceUpdatesAtTimestamp(publishTime, priceIds);
+    return parsePriceUpdates(response);
+  } catch (error) {
+    console.error("Error fetching historical price updates from Hermes:", error);
+    throw error;
+  }
+}
+
+/**
+ * Convert SDK response to our PriceUpdate format
+ */
+function parsePriceUpdates(
+  response: Awaited<ReturnType<HermesClient["getLatestPriceUpdates"]>>
+): PriceUpdate[] {
+  const prices: PriceUpdate[] = [];
+  
+  // The SDK returns an object with parsed array
+  if (response.parsed && Array.isArray(response.parsed)) {
+    for (const item of response.parsed) {
+      if (item.id && item.price) {
+        const priceData = item.price;
+        prices.push({
+          priceId: item.id,
+          price: (priceData.price as any)?.toString() || "0",
+          conf: (priceData.conf as any)?.toString() || "0",
+          expo: (priceData.expo as number) ?? -8,
+          publishTime: (priceData.publish_time as number) || 0,
+        });
+      }
+    }
+  }
+  
+  return prices;
+}
+
 /**
  * Fetch binary price update data from Hermes for on-chain updates
  * This returns the binary format needed for updatePriceFeeds
  * @param priceIds Array of price feed IDs
- * @param chainId Chain ID (Base Sepolia = 84532)
+ * @param chainId Chain ID (default: DEFAULT_CHAIN_ID)
  * @returns Array of binary update data
  */
 export async function fetchBinaryPriceUpdates(
   priceIds: string[],
-  chainId: number = 84532
+  chainId: number = DEFAULT_CHAIN_ID
 ): Promise<`0x${string}`[]> {
   try {
     // Try to get binary data from SDK response first
-    const response = await hermesClient.getLatestPriceUpdates(priceIds);
+    const response = await getHermesClient().getLatestPriceUpdates(priceIds);
     
     // Check if SDK response includes binary data
     if (response.binary && response.binary.data && Array.isArray(response.binary.data)) {
@@ -123,7 +156,7 @@ export async function fetchBinaryPriceUpdates(
       id.startsWith("0x") ? id.slice(2) : id
     );
     const idsParam = cleanIds.join(",");
-    const url = `${HERMES_BINARY_API}${chainId}?ids=${idsParam}`;
+    const url = `${getHermesUrl()}/v2/updates/price/${chainId}?ids=${idsParam}`;
     console.log("Fetching binary from Hermes (fallback):", url);
     const apiResponse = await fetch(url);
 
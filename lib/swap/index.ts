@@ -0,0 +1,24 @@
+/**
+ * Swap Providers
+ *
+ * Public API of lib/swap: the SwapProvider interface, the 1inch and Uniswap v3 providers,
+ * and best-price quote routing across them (used by the agent swap executor).
+ */
+
+export {
+  SWAP_PROVIDERS,
+  getSwapProvider,
+  getSwapProviders,
+  type ProviderQuoteParams,
+  type ProviderSwapParams,
+  type SwapProvider,
+  type SwapProviderId,
+} from "./swap-provider";
+export { oneInchProvider } from "./oneinch-provider";
+export { uniswapV3Provider } from "./uniswap-v3-provider";
+export {
+  getBestSwapQuote,
+  getGasCostInToken,
+  type ProviderQuote,
+  type QuoteRoutingResult,
+} from "./quote-routing";
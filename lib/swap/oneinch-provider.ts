@@ -0,0 +1,48 @@
+/**
+ * 1inch Swap Provider
+ *
+ * Swaps through the 1inch Aggregation API. Allowances and approvals go through the
+ * 1inch approve API for the Aggregation Router v6.
+ */
+
+import { getApprovalTx, getSwapQuote, getSwapTx, getTokenAllowance } from "@/lib/1inch/1inch-service";
+import { get1inchRouterAddress } from "@/lib/1inch/1inch-contract";
+import { isSupportedChain } from "@/lib/chains/chain-registry";
+import type { SwapProvider } from "./swap-provider";
+
+export const oneInchProvider: SwapProvider = {
+  id: "1inch",
+  name: "1inch",
+  supportsPermit: true,
+
+  isSupported: (chainId) => isSupportedChain(chainId) && get1inchRouterAddress(chainId) !== null,
+
+  getSpender: (chainId) => get1inchRouterAddress(chainId),
+
+  getAllowance: (tokenAddress, walletAddress, chainId) => getTokenAllowance(tokenAddress, walletAddress, chainId),
+
+  getApprovalTx: (tokenAddress, amount, chainId) => getApprovalTx(tokenAddress, amount, chainId),
+
+  getQuote: (params) =>
+    getSwapQuote({
+      fromTokenAddress: params.fromTokenAddress,
+      toTokenAddress: params.toTokenAddress,
+      amount: params.amount,
+      fromAddress: params.fromAddress,
+      slippage: params.slippage,
+      chainId: params.chainId,
+    }),
+
+  getSwapTx: (params) =>
+    getSwapTx({
+      fromTokenAddress: params.fromTokenAddress,
+      toTokenAddress: params.toTokenAddress,
+      amount: params.amount,
+      fromAddress: params.fromAddress,
+      slippage: params.slippage,
+      chainId: params.chainId,
+      minReturn: params.minReturn,
+      permit: params.permit,
+      usePermit2: params.usePermit2,
+    }),
+};
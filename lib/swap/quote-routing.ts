@@ -0,0 +1,103 @@
+/**
+ * Quote Routing
+ *
+ * Quotes a swap with every available provider and picks the best output net of gas:
+ * each quote's estimated gas is priced at the current gas price and converted into the
+ * toToken with the Pyth price of the native token. When gas can't be priced (no feed for
+ * the toToken, RPC failure), quotes are compared on their gross output.
+ */
+
+import { formatUnits } from "viem";
+import type { SwapQuote } from "@/lib/1inch/1inch-service";
+import { getOraclePairPrice } from "@/lib/1inch/oracle-price";
+import { createChainPublicClient } from "@/lib/chains/chain-registry";
+import { NATIVE_TOKEN_ADDRESS } from "@/lib/tokens/token-registry";
+import type { ProviderQuoteParams, SwapProvider, SwapProviderId } from "./swap-provider";
+
+export interface ProviderQuote {
+  provider: SwapProvider;
+  quote: SwapQuote;
+  gasCost?: string; // Estimated gas cost in toToken wei (when it could be priced)
+  netOutput: string; // Output minus gasCost, in toToken wei
+}
+
+export interface QuoteRoutingResult {
+  best: ProviderQuote;
+  quotes: ProviderQuote[]; // Every successful quote, best first
+  failures: { provider: SwapProviderId; error: string }[];
+}
+
+/**
+ * Price an amount of gas in a token
+ * @param nativePrice Price of the native token in the token (token per native token)
+ * @returns Gas cost in token wei
+ */
+export function getGasCostInToken(
+  gasUnits: bigint,
+  gasPrice: bigint,
+  nativePrice: number,
+  tokenDecimals: number
+): bigint {
+  const gasCostNative = Number(formatUnits(gasUnits * gasPrice, 18));
+  return BigInt(Math.floor(gasCostNative * nativePrice * 10 ** tokenDecimals));
+}
+
+/**
+ * Quote a swap with several providers and pick the best net-of-gas output
+ * @throws If no provider returns a quote (with every provider's error)
+ */
+export async function getBestSwapQuote(
+  params: ProviderQuoteParams,
+  providers: SwapProvider[]
+): Promise<QuoteRoutingResult> {
+  const settled = await Promise.allSettled(providers.map((provider) => provider.getQuote(params)));
+
+  const failures: QuoteRoutingResult["failures"] = [];
+  const quotes: ProviderQuote[] = [];
+  settled.forEach((result, index) => {
+    const provider = providers[index];
+    if (result.status === "fulfilled") {
+      quotes.push({ provider, quote: result.value, netOutput: result.value.toTokenAmount });
+    } else {
+      failures.push({ provider: provider.id, error: result.reason?.message || "Unknown error" });
+    }
+  });
+
+  if (quotes.length === 0) {
+    throw new Error(
+      failures.length === 1
+        ? failures[0].error
+        : `No swap quote available (${failures.map((failure) => `${failure.provider}: ${failure.error}`).join("; ")})`
+    );
+  }
+
+  // Gas only matters when there is a choice
+  if (quotes.length > 1) {
+    try {
+      const [gasPrice, nativePrice] = await Promise.all([
+        createChainPublicClient(params.chainId, params.rpcUrl).getGasPrice(),
+        getOraclePairPrice(NATIVE_TOKEN_ADDRESS, params.toTokenAddress, params.chainId),
+      ]);
+
+      if (nativePrice) {
+        for (const providerQuote of quotes) {
+          const gasCost = getGasCostInToken(
+            BigInt(providerQuote.quote.estimatedGas),
+            gasPrice,
+            nativePrice.price,
+            providerQuote.quote.toToken.decimals
+          );
+          providerQuote.gasCost = gasCost.toString();
+          providerQuote.netOutput = (BigInt(providerQuote.quote.toTokenAmount) - gasCost).toString();
+        }
+      }
+    } catch (error) {
+      console.error("Error pricing swap gas, comparing gross output:", error);
+    }
+
+    const output = (providerQuote: ProviderQuote) => BigInt(providerQuote.netOutput);
+    quotes.sort((a, b) => (output(b) > output(a) ? 1 : output(b) < output(a) ? -1 : 0));
+  }
+
+  return { best: quotes[0], quotes, failures };
+}
@@ -0,0 +1,72 @@
+/**
+ * Swap Providers
+ *
+ * Common interface for the venues an agent can swap through. Each provider quotes a swap,
+ * builds its transaction and handles the approval of its own spender contract:
+ * - "1inch": 1inch Aggregation API (see lib/1inch)
+ * - "uniswap-v3": Uniswap v3 pools, quoted on-chain with QuoterV2 and swapped through SwapRouter02
+ *
+ * Quotes share the 1inch SwapQuote shape, so oracle checks and minimum-output validation
+ * work the same for every provider.
+ */
+
+import { Address } from "viem";
+import type { SwapQuote, SwapTx } from "@/lib/1inch/1inch-service";
+import { oneInchProvider } from "./oneinch-provider";
+import { uniswapV3Provider } from "./uniswap-v3-provider";
+
+export type SwapProviderId = "1inch" | "uniswap-v3";
+
+export interface ProviderQuoteParams {
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  amount: string; // fromToken amount in wei
+  fromAddress: Address;
+  slippage: number; // Percentage (e.g., 1 for 1%)
+  chainId: number;
+  rpcUrl?: string; // RPC URL for on-chain quotes and allowance reads (optional)
+}
+
+export interface ProviderSwapParams extends ProviderQuoteParams {
+  quote: SwapQuote; // Quote from the same provider
+  minReturn?: string; // Minimum output in wei; replaces the slippage tolerance
+  permit?: string; // Encoded permit (only for providers with supportsPermit)
+  usePermit2?: boolean;
+}
+
+export interface SwapProvider {
+  id: SwapProviderId;
+  name: string;
+  // Accepts a permit for its spender with the swap (see permit.ts) instead of an approval transaction
+  supportsPermit: boolean;
+  isSupported(chainId: number): boolean;
+  // Contract that needs an allowance to pull the fromToken, or null if not deployed on the chain
+  getSpender(chainId: number): Address | null;
+  getAllowance(tokenAddress: string, walletAddress: string, chainId: number, rpcUrl?: string): Promise<string>;
+  // amount is in wei, or "unlimited" for the maximum
+  getApprovalTx(tokenAddress: string, amount: string, chainId: number): Promise<SwapTx>;
+  getQuote(params: ProviderQuoteParams): Promise<SwapQuote>;
+  getSwapTx(params: ProviderSwapParams): Promise<SwapTx>;
+}
+
+export const SWAP_PROVIDERS: Record<SwapProviderId, SwapProvider> = {
+  "1inch": oneInchProvider,
+  "uniswap-v3": uniswapV3Provider,
+};
+
+/**
+ * Get a swap provider by ID
+ */
+export function getSwapProvider(id: SwapProviderId): SwapProvider {
+  return SWAP_PROVIDERS[id];
+}
+
+/**
+ * Get the providers available on a chain
+ * @param ids Providers to consider (default: all)
+ */
+export function getSwapProviders(chainId: number, ids?: SwapProviderId[]): SwapProvider[] {
+  return (ids ?? (Object.keys(SWAP_PROVIDERS) as SwapProviderId[]))
+    .map((id) => SWAP_PROVIDERS[id])
+    .filter((provider) => provider?.isSupported(chainId));
+}
@@ -0,0 +1,225 @@
+/**
+ * Uniswap v3 Swap Provider
+ *
+ * Swaps directly through Uniswap v3 pools, without an aggregator API: every fee tier of the
+ * pair is quoted on-chain with QuoterV2 and the best single-pool route is swapped through
+ * SwapRouter02 (exactInputSingle). Available on chains with Uniswap v3 contracts in the
+ * chain registry (Base).
+ *
+ * Selling the native token wraps it in the router (the swap sends value); buying the
+ * native token isn't supported, since the router would pay out WETH.
+ */
+
+import { Address, encodeFunctionData, erc20Abi, maxUint256, parseAbi } from "viem";
+import type { SwapQuote, SwapTx } from "@/lib/1inch/1inch-service";
+import { createChainPublicClient, getChainConfig, isSupportedChain } from "@/lib/chains/chain-registry";
+import { NATIVE_TOKEN_ADDRESS, getToken, getTokenAddress, getTokenDecimals } from "@/lib/tokens/token-registry";
+import type { ProviderQuoteParams, SwapProvider } from "./swap-provider";
+
+const QUOTER_V2_ABI = parseAbi([
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+]);
+
+const SWAP_ROUTER_02_ABI = parseAbi([
+  "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)",
+]);
+
+// Pool fee tiers, in hundredths of a basis point
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+// QuoterV2 only estimates the pool swap; add the transaction and router overhead
+const SWAP_GAS_OVERHEAD = 60_000;
+
+// Gas limit headroom over the estimate, in percent
+const GAS_LIMIT_BUFFER = 20;
+
+// Route recorded in SwapQuote.protocols (1inch format: routes > hops > parts)
+interface UniswapV3Route {
+  name: "UNISWAP_V3";
+  part: number;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  fee: number;
+}
+
+function getContracts(chainId: number) {
+  const contracts = getChainConfig(chainId).uniswapV3;
+  if (!contracts) {
+    throw new Error(`Uniswap v3 is not available on chain ${chainId}`);
+  }
+  return contracts;
+}
+
+/**
+ * Map the native token to the wrapped token the pools hold
+ */
+function getPoolToken(token: string, chainId: number): Address {
+  if (token.toLowerCase() !== NATIVE_TOKEN_ADDRESS.toLowerCase()) {
+    return token as Address;
+  }
+
+  const wrapped = getTokenAddress("WETH", chainId);
+  if (!wrapped) {
+    throw new Error(`No wrapped native token configured on chain ${chainId}`);
+  }
+  return wrapped;
+}
+
+async function getQuoteToken(token: string, chainId: number, rpcUrl?: string): Promise<SwapQuote["fromToken"]> {
+  const known = getToken(token, chainId);
+  return {
+    address: token,
+    symbol: known?.symbol ?? token,
+    name: known?.name ?? token,
+    decimals: known?.decimals ?? (await getTokenDecimals(token, chainId, rpcUrl)),
+  };
+}
+
+/**
+ * Quote every fee tier and keep the best output
+ * @throws If no pool can fill the swap
+ */
+async function quoteBestPool(params: ProviderQuoteParams): Promise<{ fee: number; amountOut: bigint; gas: number }> {
+  const { chainId, rpcUrl } = params;
+  if (params.toTokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase()) {
+    throw new Error("Uniswap v3 swaps can't pay out the native token; use the wrapped token instead");
+  }
+
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const { quoter } = getContracts(chainId);
+  const tokenIn = getPoolToken(params.fromTokenAddress, chainId);
+  const tokenOut = params.toTokenAddress as Address;
+
+  // Tiers without a pool (or without liquidity) revert
+  const quotes = await Promise.allSettled(
+    FEE_TIERS.map(async (fee) => {
+      const { result } = await publicClient.simulateContract({
+        address: quoter,
+        abi: QUOTER_V2_ABI,
+        functionName: "quoteExactInputSingle",
+        args: [{ tokenIn, tokenOut, amountIn: BigInt(params.amount), fee, sqrtPriceLimitX96: BigInt(0) }],
+      });
+      const [amountOut, , , gasEstimate] = result;
+      return { fee, amountOut, gas: Number(gasEstimate) + SWAP_GAS_OVERHEAD };
+    })
+  );
+
+  const best = quotes
+    .flatMap((quote) => (quote.status === "fulfilled" && quote.value.amountOut > BigInt(0) ? [quote.value] : []))
+    .reduce<{ fee: number; amountOut: bigint; gas: number } | null>(
+      (current, quote) => (!current || quote.amountOut > current.amountOut ? quote : current),
+      null
+    );
+
+  if (!best) {
+    throw new Error("No Uniswap v3 pool for this pair");
+  }
+  return best;
+}
+
+export const uniswapV3Provider: SwapProvider = {
+  id: "uniswap-v3",
+  name: "Uniswap v3",
+  supportsPermit: false,
+
+  isSupported: (chainId) => isSupportedChain(chainId) && getChainConfig(chainId).uniswapV3 !== undefined,
+
+  getSpender: (chainId) => getChainConfig(chainId).uniswapV3?.swapRouter ?? null,
+
+  getAllowance: async (tokenAddress, walletAddress, chainId, rpcUrl) => {
+    const allowance = await createChainPublicClient(chainId, rpcUrl).readContract({
+      address: tokenAddress as Address,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [walletAddress as Address, getContracts(chainId).swapRouter],
+    });
+    return allowance.toString();
+  },
+
+  getApprovalTx: async (tokenAddress, amount, chainId) => {
+    const { swapRouter } = getContracts(chainId);
+    return {
+      from: "",
+      to: tokenAddress,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [swapRouter, amount === "unlimited" ? maxUint256 : BigInt(amount)],
+      }),
+      value: "0",
+      gas: 0, // Estimated by the wallet
+      gasPrice: "0",
+    };
+  },
+
+  getQuote: async (params) => {
+    const { chainId, rpcUrl } = params;
+    const [pool, fromToken, toToken] = await Promise.all([
+      quoteBestPool(params),
+      getQuoteToken(params.fromTokenAddress, chainId, rpcUrl),
+      getQuoteToken(params.toTokenAddress, chainId, rpcUrl),
+    ]);
+
+    const route: UniswapV3Route = {
+      name: "UNISWAP_V3",
+      part: 100,
+      fromTokenAddress: params.fromTokenAddress,
+      toTokenAddress: params.toTokenAddress,
+      fee: pool.fee,
+    };
+
+    return {
+      fromToken,
+      toToken,
+      fromTokenAmount: params.amount,
+      toTokenAmount: pool.amountOut.toString(),
+      protocols: [[[route]]],
+      estimatedGas: pool.gas,
+    };
+  },
+
+  getSwapTx: async (params): Promise<SwapTx> => {
+    const { chainId, rpcUrl, quote } = params;
+    const { swapRouter } = getContracts(chainId);
+    const route = quote.protocols[0]?.[0]?.[0] as UniswapV3Route | undefined;
+    const fee = route?.name === "UNISWAP_V3" ? route.fee : (await quoteBestPool(params)).fee;
+
+    // Without an explicit minimum, apply the slippage tolerance to the quote (in basis points)
+    const amountOutMinimum = params.minReturn
+      ? BigInt(params.minReturn)
+      : (BigInt(quote.toTokenAmount) * BigInt(Math.round((100 - params.slippage) * 100))) / BigInt(10000);
+
+    const sellsNative = params.fromTokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+    const value = sellsNative ? BigInt(params.amount) : BigInt(0);
+    const data = encodeFunctionData({
+      abi: SWAP_ROUTER_02_ABI,
+      functionName: "exactInputSingle",
+      args: [
+        {
+          tokenIn: getPoolToken(params.fromTokenAddress, chainId),
+          tokenOut: params.toTokenAddress as Address,
+          fee,
+          recipient: params.fromAddress,
+          amountIn: BigInt(params.amount),
+          amountOutMinimum,
+          sqrtPriceLimitX96: BigInt(0),
+        },
+      ],
+    });
+
+    const publicClient = createChainPublicClient(chainId, rpcUrl);
+    const [gas, gasPrice] = await Promise.all([
+      publicClient.estimateGas({ account: params.fromAddress, to: swapRouter, data, value }),
+      publicClient.getGasPrice(),
+    ]);
+
+    return {
+      from: params.fromAddress,
+      to: swapRouter,
+      data,
+      value: value.toString(),
+      gas: Math.ceil(Number(gas) * (1 + GAS_LIMIT_BUFFER / 100)),
+      gasPrice: gasPrice.toString(),
+    };
+  },
+};
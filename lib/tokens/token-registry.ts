@@ -0,0 +1,108 @@
+/**
+ * Token Registry
+ *
+ * Supported tokens per chain (symbol, address, decimals, Pyth feed; configured in the
+ * chain registry) and decimals lookup for arbitrary ERC20 addresses.
+ * Use it wherever human-readable amounts are scaled to token units.
+ */
+
+import { Address, isAddress, parseAbi } from "viem";
+import {
+  CHAINS,
+  NATIVE_TOKEN_ADDRESS,
+  createChainPublicClient,
+  type ChainToken,
+} from "@/lib/chains/chain-registry";
+
+export { NATIVE_TOKEN_ADDRESS };
+
+export interface TokenInfo extends ChainToken {
+  chainId: number;
+}
+
+// Supported tokens of every chain (configured in the chain registry)
+export const TOKENS: TokenInfo[] = Object.values(CHAINS).flatMap((chain) =>
+  chain.tokens.map((token) => ({ ...token, chainId: chain.id }))
+);
+
+const ERC20_DECIMALS_ABI = parseAbi(["function decimals() external view returns (uint8)"]);
+
+// Decimals read on-chain, keyed by chainId:address
+const decimalsCache = new Map<string, number>();
+
+/**
+ * Get the known tokens on a chain
+ */
+export function getTokens(chainId: number): TokenInfo[] {
+  return TOKENS.filter((token) => token.chainId === chainId);
+}
+
+/**
+ * Find a known token by symbol or address
+ * @returns Token info, or null if the token isn't in the registry
+ */
+export function getToken(symbolOrAddress: string, chainId: number): TokenInfo | null {
+  const key = symbolOrAddress.toLowerCase();
+  const byAddress = isAddress(symbolOrAddress, { strict: false });
+
+  return (
+    getTokens(chainId).find((token) =>
+      byAddress ? token.address.toLowerCase() === key : token.symbol.toLowerCase() === key
+    ) ?? null
+  );
+}
+
+/**
+ * Get token address by symbol
+ */
+export function getTokenAddress(symbol: string, chainId: number): Address | null {
+  return getToken(symbol, chainId)?.address ?? null;
+}
+
+/**
+ * Get the Pyth feed symbol that prices a token (e.g. WETH -> ETH)
+ * Tokens outside the registry are assumed to share their feed's symbol
+ */
+export function getTokenPriceFeed(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  const token = TOKENS.find((t) => t.symbol === upper);
+  return token?.priceFeed ?? upper;
+}
+
+/**
+ * Get token decimals
+ * Known tokens come from the registry; other addresses are read on-chain (and cached)
+ * @param token Token symbol or address
+ * @param chainId Chain ID
+ * @param rpcUrl Optional RPC URL for on-chain lookups
+ */
+export async function getTokenDecimals(
+  token: string,
+  chainId: number,
+  rpcUrl?: string
+): Promise<number> {
+  const known = getToken(token, chainId);
+  if (known) {
+    return known.decimals;
+  }
+
+  if (!isAddress(token, { strict: false })) {
+    throw new Error(`Unknown token "${token}" on chain ${chainId}`);
+  }
+
+  const cacheKey = `${chainId}:${token.toLowerCase()}`;
+  const cached = decimalsCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const publicClient = createChainPublicClient(chainId, rpcUrl);
+  const decimals = await publicClient.readContract({
+    address: token,
+    abi: ERC20_DECIMALS_ABI,
+    functionName: "decimals",
+  });
+
+  decimalsCache.set(cacheKey, Number(decimals));
+  return Number(decimals);
+}
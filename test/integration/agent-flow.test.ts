@@ -0,0 +1,494 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { Address, erc20Abi, parseAbi, parseEther, parseEventLogs } from "viem";
+import {
+  CHAIN_ID,
+  FORK_TESTS_ENABLED,
+  MOCK_PYTH_UPDATE_FEE,
+  createHarness,
+  type IntegrationHarness,
+} from "./harness";
+import {
+  TRADING_AGENT_REGISTRY_ABI,
+  generateAgentId,
+  getAgentRegistryAddress,
+  prepareStrategy,
+  type CreateAgentParams,
+} from "@/lib/agent/agent-registry";
+import { monitorAgent } from "@/lib/agent/agent-monitor";
+import { executeAgentTrigger } from "@/lib/agent/agent-executor";
+import { executeAgentSwap } from "@/lib/1inch/agent-swap-executor";
+import {
+  getMockOneInchState,
+  getMockQuoteAmount,
+  injectMockOneInchFailure,
+  resetMockOneInch,
+  setMockOneInchAllowance,
+} from "@/lib/mocks/mock-1inch";
+import { resetMockHermes, setMockPricePath } from "@/lib/mocks/mock-hermes";
+import { PRICE_FEED_IDS } from "@/lib/privy/pyth-service";
+
+const ETH_FEED_ID = PRICE_FEED_IDS.ETH_USD as `0x${string}`;
+
+describe.skipIf(!FORK_TESTS_ENABLED)("agent flow on an Anvil fork", () => {
+  let harness: IntegrationHarness;
+
+  // Unique per run so repeated runs against a long-lived fork don't collide
+  const label = `it-agent-${Date.now()}`;
+  const agentId = generateAgentId(label);
+  const params: CreateAgentParams = {
+    agentName: label,
+    ensLabel: label,
+    priceFeedSymbol: "ETH",
+    triggerPrice: 3500,
+    triggerAbove: true,
+    tokenIn: "WETH",
+    tokenOut: "USDC",
+    amountIn: 0.5,
+    cooldownPeriod: 3600,
+  };
+
+  const balanceOf = (token: Address, owner: Address) =>
+    harness.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  beforeEach(() => {
+    resetMockHermes();
+    resetMockOneInch();
+  });
+
+  it("registers an agent with the prepared strategy", async () => {
+    const strategy = await prepareStrategy(params, CHAIN_ID);
+    await harness.write(getAgentRegistryAddress(CHAIN_ID), TRADING_AGENT_REGISTRY_ABI, "createAgent", [
+      agentId,
+      params.ensLabel,
+      strategy,
+    ]);
+
+    const agent = await harness.publicClient.readContract({
+      address: getAgentRegistryAddress(CHAIN_ID),
+      abi: TRADING_AGENT_REGISTRY_ABI,
+      functionName: "getAgent",
+      args: [agentId],
+    });
+
+    expect(agent.exists).toBe(true);
+    expect(agent.owner).toBe(harness.owner.account.address);
+    expect(agent.strategy.priceFeedId).toBe(ETH_FEED_ID);
+    expect(agent.strategy.triggerPrice).toBe(BigInt(3500e8));
+    expect(agent.strategy.tokenIn).toBe(harness.tokens.WETH);
+    expect(agent.strategy.tokenOut).toBe(harness.tokens.USDC);
+    expect(agent.strategy.amountIn).toBe(parseEther("0.5"));
+    expect(agent.strategy.isActive).toBe(true);
+  });
+
+  it("does not execute while the on-chain price is below the trigger", async () => {
+    await harness.pushPrices([ETH_FEED_ID]);
+
+    const result = await monitorAgent(agentId, CHAIN_ID, harness.rpcUrl, harness.keeper);
+
+    expect(result.triggerMet).toBe(false);
+    expect(result.executed).toBe(false);
+    expect(result.currentPrice).toBe(BigInt(3000e8));
+  });
+
+  it("executes the trigger with the keeper once the price crosses it", async () => {
+    setMockPricePath("ETH", { kind: "constant", price: 4000 });
+    await harness.pushPrices([ETH_FEED_ID]);
+
+    const result = await monitorAgent(agentId, CHAIN_ID, harness.rpcUrl, harness.keeper);
+
+    expect(result.triggerMet).toBe(true);
+    expect(result.executed).toBe(true);
+    expect(result.feePaid).toBe(MOCK_PYTH_UPDATE_FEE);
+
+    const receipt = await harness.publicClient.getTransactionReceipt({
+      hash: result.txHash as `0x${string}`,
+    });
+    expect(receipt.status).toBe("success");
+
+    const [event] = parseEventLogs({
+      abi: TRADING_AGENT_REGISTRY_ABI,
+      eventName: "TriggerExecuted",
+      logs: receipt.logs,
+    });
+    expect(event.args.agentId).toBe(agentId);
+    expect(event.args.price).toBe(BigInt(4000e8));
+
+    const agent = await harness.publicClient.readContract({
+      address: getAgentRegistryAddress(CHAIN_ID),
+      abi: TRADING_AGENT_REGISTRY_ABI,
+      functionName: "getAgent",
+      args: [agentId],
+    });
+    expect(agent.strategy.lastExecuted).toBeGreaterThan(BigInt(0));
+  });
+
+  it("refuses to execute again during the cooldown", async () => {
+    setMockPricePath("ETH", { kind: "constant", price: 4000 });
+
+    const result = await executeAgentTrigger({
+      agentId,
+      chainId: CHAIN_ID,
+      account: harness.keeper.account,
+      rpcUrl: harness.rpcUrl,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe("cooldown");
+    expect(result.txHash).toBeUndefined();
+  });
+
+  it("swaps through the 1inch router and moves balances", async () => {
+    const wallet = harness.owner.account.address;
+    const amount = parseEther("0.5");
+    await harness.write(harness.tokens.WETH, erc20Abi, "approve", [harness.router, amount]);
+
+    const wethBefore = await balanceOf(harness.tokens.WETH, wallet);
+    const usdcBefore = await balanceOf(harness.tokens.USDC, wallet);
+
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.5,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+      },
+      (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) =>
+        harness.owner.sendTransaction(tx)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe("1inch");
+    expect(result.approvalTxHash).toBeUndefined();
+    const receipt = await harness.publicClient.waitForTransactionReceipt({
+      hash: result.txHash as `0x${string}`,
+    });
+    expect(receipt.status).toBe("success");
+
+    const expectedOut = getMockQuoteAmount(harness.tokens.WETH, harness.tokens.USDC, amount);
+    expect(result.outputAmount).toBe(expectedOut.toString());
+    // The mock quote is priced at the mock oracle price minus its 0.3% fee
+    expect(result.priceDeviation).toBeCloseTo(-0.3, 2);
+    expect(await balanceOf(harness.tokens.WETH, wallet)).toBe(wethBefore - amount);
+    expect(await balanceOf(harness.tokens.USDC, wallet)).toBe(usdcBefore + expectedOut);
+  });
+
+  it("approves the router before swapping when the allowance is insufficient", async () => {
+    const wallet = harness.owner.account.address;
+    const amount = parseEther("0.2");
+    await harness.write(harness.tokens.WETH, erc20Abi, "approve", [harness.router, BigInt(0)]);
+    setMockOneInchAllowance("0");
+
+    const wethBefore = await balanceOf(harness.tokens.WETH, wallet);
+
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.2,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        approvalAmount: "exact",
+      },
+      (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) =>
+        harness.owner.sendTransaction(tx)
+    );
+
+    expect(result.success).toBe(true);
+    const approvalReceipt = await harness.publicClient.getTransactionReceipt({
+      hash: result.approvalTxHash as `0x${string}`,
+    });
+    expect(approvalReceipt.status).toBe("success");
+
+    const receipt = await harness.publicClient.waitForTransactionReceipt({
+      hash: result.txHash as `0x${string}`,
+    });
+    expect(receipt.status).toBe("success");
+    expect(await balanceOf(harness.tokens.WETH, wallet)).toBe(wethBefore - amount);
+
+    // An exact approval is fully spent by the swap
+    const allowance = await harness.publicClient.readContract({
+      address: harness.tokens.WETH,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [wallet, harness.router],
+    });
+    expect(allowance).toBe(BigInt(0));
+  });
+
+  it("approves the router with an EIP-2612 permit inside the swap transaction", async () => {
+    const wallet = harness.owner.account.address;
+    const amount = parseEther("5");
+    setMockOneInchAllowance("0");
+
+    const tokenBefore = await balanceOf(harness.tokens.PERMIT, wallet);
+    const usdcBefore = await balanceOf(harness.tokens.USDC, wallet);
+    const sent: Address[] = [];
+
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: harness.tokens.PERMIT,
+        toToken: "USDC",
+        amount: 5,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        signTypedData: (typedData) => harness.owner.signTypedData(typedData as any),
+      },
+      (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) => {
+        sent.push(tx.to);
+        return harness.owner.sendTransaction(tx);
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.permitKind).toBe("eip2612");
+    expect(result.approvalTxHash).toBeUndefined();
+    expect(sent).toEqual([harness.router]);
+
+    const receipt = await harness.publicClient.waitForTransactionReceipt({
+      hash: result.txHash as `0x${string}`,
+    });
+    expect(receipt.status).toBe("success");
+
+    const expectedOut = getMockQuoteAmount(harness.tokens.PERMIT, harness.tokens.USDC, amount);
+    expect(await balanceOf(harness.tokens.PERMIT, wallet)).toBe(tokenBefore - amount);
+    expect(await balanceOf(harness.tokens.USDC, wallet)).toBe(usdcBefore + expectedOut);
+  });
+
+  it("aborts the swap when the quote deviates from the oracle price", async () => {
+    const wallet = harness.owner.account.address;
+    // The mock 1inch API keeps quoting ETH at $3000
+    setMockPricePath("ETH", { kind: "constant", price: 3300 });
+    const wethBefore = await balanceOf(harness.tokens.WETH, wallet);
+
+    let sent = false;
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        maxPriceDeviation: 2,
+      },
+      async () => {
+        sent = true;
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("from the oracle price");
+    expect(result.priceDeviation).toBeLessThan(-2);
+    expect(result.oraclePrice).toBeCloseTo(3300, 6);
+    expect(sent).toBe(false);
+    expect(await balanceOf(harness.tokens.WETH, wallet)).toBe(wethBefore);
+  });
+
+  it("bounds the swap output by the oracle price with an oracle tolerance", async () => {
+    const wallet = harness.owner.account.address;
+    const amount = parseEther("0.1");
+    await harness.write(harness.tokens.WETH, erc20Abi, "approve", [harness.router, amount]);
+    const usdcBefore = await balanceOf(harness.tokens.USDC, wallet);
+
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        oracleTolerance: 1,
+      },
+      (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) =>
+        harness.owner.sendTransaction(tx)
+    );
+
+    expect(result.success).toBe(true);
+    // 0.1 WETH at the $3000 mock oracle price, minus 1%
+    expect(result.minReturnAmount).toBe("297000000");
+    const receipt = await harness.publicClient.waitForTransactionReceipt({
+      hash: result.txHash as `0x${string}`,
+    });
+    expect(receipt.status).toBe("success");
+    expect(await balanceOf(harness.tokens.USDC, wallet)).toBe(
+      usdcBefore + getMockQuoteAmount(harness.tokens.WETH, harness.tokens.USDC, amount)
+    );
+  });
+
+  it("rejects quotes below the oracle-derived minimum output", async () => {
+    const wallet = harness.owner.account.address;
+
+    let sent = false;
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        // The mock quote is 0.3% below the oracle price
+        oracleTolerance: 0.1,
+      },
+      async () => {
+        sent = true;
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Quote does not meet minimum output requirements");
+    expect(result.minReturnAmount).toBe("299700000");
+    expect(sent).toBe(false);
+  });
+
+  it("reports 1inch API failures without sending a transaction", async () => {
+    const wallet = harness.owner.account.address;
+    injectMockOneInchFailure({ endpoint: "quote", status: 500, error: "Internal error" });
+    const wethBefore = await balanceOf(harness.tokens.WETH, wallet);
+
+    let sent = false;
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+      },
+      async () => {
+        sent = true;
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(sent).toBe(false);
+    expect(await balanceOf(harness.tokens.WETH, wallet)).toBe(wethBefore);
+  });
+
+  it("simulates the swap and reports the revert reason without sending it", async () => {
+    const wallet = harness.owner.account.address;
+    const routerAbi = parseAbi(["function setRate(address srcToken, address dstToken, uint256 rate)"]);
+    const quoteRate = getMockQuoteAmount(harness.tokens.WETH, harness.tokens.USDC, parseEther("1"));
+    await harness.write(harness.tokens.WETH, erc20Abi, "approve", [harness.router, parseEther("0.1")]);
+    // The router now fills below the quote's minimum return
+    await harness.write(harness.router, routerAbi, "setRate", [
+      harness.tokens.WETH,
+      harness.tokens.USDC,
+      quoteRate / BigInt(2),
+    ]);
+
+    let sent = false;
+    try {
+      const result = await executeAgentSwap(
+        {
+          agentId,
+          fromToken: "WETH",
+          toToken: "USDC",
+          amount: 0.1,
+          slippage: 1,
+          chainId: CHAIN_ID,
+          walletAddress: wallet,
+          rpcUrl: harness.rpcUrl,
+        },
+        async () => {
+          sent = true;
+        }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("slippage");
+      expect(result.error).toContain("Return amount is not enough");
+      expect(sent).toBe(false);
+    } finally {
+      await harness.write(harness.router, routerAbi, "setRate", [harness.tokens.WETH, harness.tokens.USDC, quoteRate]);
+    }
+  });
+
+  it("defers the swap when its gas cost exceeds the agent's max gas cost", async () => {
+    const wallet = harness.owner.account.address;
+    const wethBefore = await balanceOf(harness.tokens.WETH, wallet);
+
+    let sent = false;
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+        maxGasCost: { type: "usd", value: 0.000001 },
+      },
+      async () => {
+        sent = true;
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.deferred).toBe(true);
+    expect(result.error).toContain("deferred to the next run");
+    expect(result.gasCostUsd).toBeGreaterThan(0.000001);
+    expect(sent).toBe(false);
+    expect(await balanceOf(harness.tokens.WETH, wallet)).toBe(wethBefore);
+  });
+
+  it("retries rate-limited 1inch requests before swapping", async () => {
+    const wallet = harness.owner.account.address;
+    const amount = parseEther("0.1");
+    await harness.write(harness.tokens.WETH, erc20Abi, "approve", [harness.router, amount]);
+    injectMockOneInchFailure({ endpoint: "quote", status: 429, error: "Too Many Requests", remaining: 1 });
+
+    const result = await executeAgentSwap(
+      {
+        agentId,
+        fromToken: "WETH",
+        toToken: "USDC",
+        amount: 0.1,
+        slippage: 1,
+        chainId: CHAIN_ID,
+        walletAddress: wallet,
+        rpcUrl: harness.rpcUrl,
+      },
+      (tx: { to: Address; data: `0x${string}`; value: bigint; gas?: bigint }) =>
+        harness.owner.sendTransaction(tx)
+    );
+
+    expect(result.success).toBe(true);
+    expect(getMockOneInchState().failures).toHaveLength(0);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Integration Test Contracts
+ *
+ * Compiles the Solidity fixtures in ./contracts (and Pyth's MockPyth) with solc-js,
+ * so the harness needs no Foundry build step
+ */
+
+import fs from "fs";
+import path from "path";
+import type { Abi, Hex } from "viem";
+
+const CONTRACTS_DIR = path.join(__dirname, "contracts");
+const NODE_MODULES_DIR = path.join(__dirname, "..", "..", "node_modules");
+
+export interface CompiledContract {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+export type FixtureName = "MockERC20" | "MockPermitERC20" | "MockAggregationRouter" | "MockPyth";
+
+let compiled: Record<FixtureName, CompiledContract> | null = null;
+
+/**
+ * Resolve imports from node_modules (e.g. @pythnetwork/pyth-sdk-solidity)
+ */
+function findImport(importPath: string): { contents: string } | { error: string } {
+  const file = path.join(NODE_MODULES_DIR, importPath);
+  if (!fs.existsSync(file)) {
+    return { error: `File not found: ${importPath}` };
+  }
+  return { contents: fs.readFileSync(file, "utf8") };
+}
+
+/**
+ * Compile the fixture contracts (cached for the test run)
+ */
+export async function compileFixtures(): Promise<Record<FixtureName, CompiledContract>> {
+  if (compiled) return compiled;
+
+  const solc = (await import("solc")).default;
+
+  const sources: Record<string, { content: string }> = {};
+  for (const file of fs.readdirSync(CONTRACTS_DIR)) {
+    if (file.endsWith(".sol")) {
+      sources[file] = { content: fs.readFileSync(path.join(CONTRACTS_DIR, file), "utf8") };
+    }
+  }
+
+  const input = {
+    language: "Solidity",
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImport }));
+  const errors = (output.errors || []).filter((e: any) => e.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(`Fixture compilation failed:\n${errors.map((e: any) => e.formattedMessage).join("\n")}`);
+  }
+
+  const get = (file: string, name: string): CompiledContract => {
+    const contract = output.contracts[file]?.[name];
+    if (!contract) {
+      throw new Error(`Compiled contract ${name} not found in ${file}`);
+    }
+    return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+  };
+
+  compiled = {
+    MockERC20: get("MockERC20.sol", "MockERC20"),
+    MockPermitERC20: get("MockPermitERC20.sol", "MockPermitERC20"),
+    MockAggregationRouter: get("MockAggregationRouter.sol", "MockAggregationRouter"),
+    MockPyth: get("@pythnetwork/pyth-sdk-solidity/MockPyth.sol", "MockPyth"),
+  };
+  return compiled;
+}
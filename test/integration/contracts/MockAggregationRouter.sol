@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20Like {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+interface IERC20PermitLike {
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external;
+}
+
+/// @notice Stand-in for the 1inch AggregationRouterV6 swap entry point.
+/// Fills ERC20 -> ERC20 swaps from its own balance at rates set by the test,
+/// and enforces minReturnAmount like the real router.
+/// permitAndCall supports EIP-2612 permits only (no Permit2).
+contract MockAggregationRouter {
+    struct SwapDescription {
+        address srcToken;
+        address dstToken;
+        address srcReceiver;
+        address dstReceiver;
+        uint256 amount;
+        uint256 minReturnAmount;
+        uint256 flags;
+    }
+
+    // dstToken units paid per 1e18 srcToken units
+    mapping(address => mapping(address => uint256)) public rates;
+
+    function setRate(address srcToken, address dstToken, uint256 rate) external {
+        rates[srcToken][dstToken] = rate;
+    }
+
+    /// @notice Mirrors AggregationRouterV6.permitAndCall: `permit` is the token address followed by
+    /// the encoded permit(owner, spender, value, deadline, v, r, s) arguments; `action` is the swap call.
+    function permitAndCall(bytes calldata permit, bytes calldata action) external payable {
+        address token = address(bytes20(permit[:20]));
+        (bool permitted, ) = token.call(abi.encodePacked(IERC20PermitLike.permit.selector, permit[20:]));
+        require(permitted, "Permit failed");
+
+        (bool success, bytes memory result) = address(this).delegatecall(action);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function swap(
+        address,
+        SwapDescription calldata desc,
+        bytes calldata
+    ) external payable returns (uint256 returnAmount, uint256 spentAmount) {
+        uint256 rate = rates[desc.srcToken][desc.dstToken];
+        require(rate > 0, "No rate for pair");
+
+        returnAmount = (desc.amount * rate) / 1e18;
+        require(returnAmount >= desc.minReturnAmount, "Return amount is not enough");
+
+        require(IERC20Like(desc.srcToken).transferFrom(msg.sender, address(this), desc.amount), "Transfer in failed");
+        require(IERC20Like(desc.dstToken).transfer(desc.dstReceiver, returnAmount), "Transfer out failed");
+        spentAmount = desc.amount;
+    }
+}
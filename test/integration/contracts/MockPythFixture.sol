@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.20;
+
+// Compiles Pyth's MockPyth, which accepts the update data served by lib/mocks/mock-hermes
+import "@pythnetwork/pyth-sdk-solidity/MockPyth.sol";
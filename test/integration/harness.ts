@@ -0,0 +1,311 @@
+/**
+ * Anvil Integration Harness
+ *
+ * Forks Base Sepolia with Anvil (so the deployed TradingAgentRegistry is available) and swaps
+ * the registry's external dependencies for local fixtures:
+ * - Pyth: MockPyth runtime code is installed at the Pyth address, so the registry accepts
+ *   the update data served by the mock Hermes
+ * - WETH / USDC: mintable MockERC20 code is installed at the token addresses
+ * - 1inch router: MockAggregationRouter fills swaps at the mock 1inch quote rate
+ * - Permit token: a freshly deployed EIP-2612 token for the gasless approval path
+ * - Hermes and 1inch APIs: served locally by mock-server
+ *
+ * Agent stores (strategies, history, price samples) are written to a temporary directory.
+ * The suite needs network access to the forked RPC and an anvil binary, so it only runs when
+ * ANVIL_FORK_URL is set (FORK_TESTS_ENABLED); otherwise it is skipped.
+ *
+ * Environment variables:
+ * - ANVIL_FORK_URL: Base Sepolia RPC URL to fork (required; e.g. https://sepolia.base.org)
+ * - ANVIL_FORK_BLOCK: Optional block number to pin the fork to
+ * - ANVIL_BIN: Path to the anvil binary (default: anvil on PATH)
+ * - ANVIL_PORT: Port for the local node (default: 8546)
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Abi,
+  Address,
+  Hex,
+  PublicClient,
+  TestClient,
+  Transport,
+  WalletClient,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeDeployData,
+  encodeFunctionData,
+  http,
+  parseEther,
+  parseUnits,
+  toHex,
+} from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { compileFixtures, type CompiledContract, type FixtureName } from "./contracts";
+import { startMockServer, type MockServer } from "./mock-server";
+import { createKeeper, type KeeperConfig } from "@/lib/agent/agent-keeper";
+import { get1inchRouterAddress } from "@/lib/1inch/1inch-contract";
+import { getMockQuoteAmount } from "@/lib/mocks/mock-1inch";
+import { getPythContractAddress } from "@/lib/privy/pyth-contract";
+import { fetchBinaryPriceUpdates } from "@/lib/privy/pyth-service";
+import { getTokenAddress } from "@/lib/tokens/token-registry";
+
+export const CHAIN_ID = baseSepolia.id;
+
+// The fork tests run only when a fork URL is given
+export const FORK_TESTS_ENABLED = Boolean(process.env.ANVIL_FORK_URL);
+
+const DEFAULT_ANVIL_PORT = 8546;
+
+// Well-known Anvil dev keys (accounts 0 and 1)
+const OWNER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const KEEPER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+// MockPyth storage layout: priceFeeds (slot 0), singleUpdateFeeInWei (slot 1), validTimePeriod (slot 2)
+const PYTH_FEE_SLOT = toHex(1, { size: 32 });
+const PYTH_VALID_TIME_SLOT = toHex(2, { size: 32 });
+export const MOCK_PYTH_UPDATE_FEE = BigInt(1);
+const MOCK_PYTH_VALID_TIME_PERIOD = BigInt(3600);
+
+const ROUTER_LIQUIDITY = parseUnits("1000000", 6);
+const OWNER_WETH = parseEther("10");
+const OWNER_PERMIT_TOKEN = parseEther("100");
+
+const ANVIL_READY_TIMEOUT_MS = 60_000;
+
+export interface IntegrationHarness {
+  rpcUrl: string;
+  publicClient: PublicClient<Transport, typeof baseSepolia>;
+  testClient: TestClient<"anvil", Transport, typeof baseSepolia>;
+  owner: WalletClient<Transport, typeof baseSepolia, PrivateKeyAccount>; // Funded agent owner
+  keeper: KeeperConfig;
+  contracts: Record<FixtureName, CompiledContract>;
+  tokens: { WETH: Address; USDC: Address; PERMIT: Address };
+  router: Address;
+  pyth: Address;
+  mockServer: MockServer;
+  write: (address: Address, abi: Abi, functionName: string, args: unknown[], value?: bigint) => Promise<Hex>;
+  pushPrices: (priceIds: Hex[]) => Promise<void>; // Push the mock Hermes prices to MockPyth
+  stop: () => Promise<void>;
+}
+
+async function waitForRpc(rpcUrl: string, anvil: ChildProcess): Promise<void> {
+  const deadline = Date.now() + ANVIL_READY_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (anvil.exitCode !== null) {
+      throw new Error(`anvil exited with code ${anvil.exitCode}`);
+    }
+    try {
+      const response = await fetch(rpcUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+      });
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+
+  throw new Error(`anvil did not start within ${ANVIL_READY_TIMEOUT_MS / 1000}s`);
+}
+
+/**
+ * Start an Anvil fork of Base Sepolia
+ */
+async function startAnvil(): Promise<{ rpcUrl: string; process: ChildProcess }> {
+  const forkUrl = process.env.ANVIL_FORK_URL;
+  if (!forkUrl) {
+    throw new Error("Set ANVIL_FORK_URL to a Base Sepolia RPC URL to run the fork tests");
+  }
+
+  const port = parseInt(process.env.ANVIL_PORT || String(DEFAULT_ANVIL_PORT));
+  const args = [
+    "--fork-url",
+    forkUrl,
+    "--chain-id",
+    String(CHAIN_ID),
+    "--port",
+    String(port),
+    "--silent",
+  ];
+  if (process.env.ANVIL_FORK_BLOCK) {
+    args.push("--fork-block-number", process.env.ANVIL_FORK_BLOCK);
+  }
+
+  const anvil = spawn(process.env.ANVIL_BIN || "anvil", args, { stdio: "ignore" });
+  const spawnError = new Promise<never>((_, reject) => anvil.once("error", reject));
+  const rpcUrl = `http://127.0.0.1:${port}`;
+
+  try {
+    await Promise.race([waitForRpc(rpcUrl, anvil), spawnError]);
+  } catch (error) {
+    anvil.kill();
+    throw error;
+  }
+
+  return { rpcUrl, process: anvil };
+}
+
+/**
+ * Start the fork, install the fixtures and point the app at the mock APIs
+ */
+export async function createHarness(): Promise<IntegrationHarness> {
+  const contracts = await compileFixtures();
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-trade-it-"));
+  const mockServer = await startMockServer();
+
+  process.env.HERMES_URL = mockServer.hermesUrl;
+  process.env.ONEINCH_API_URL = mockServer.oneInchUrl;
+  process.env.ONEINCH_API_KEY = process.env.ONEINCH_API_KEY || "integration-test";
+  process.env.AGENT_STRATEGY_PATH = path.join(dataDir, "agent-strategies.json");
+  process.env.AGENT_HISTORY_PATH = path.join(dataDir, "agent-history.json");
+  process.env.PRICE_HISTORY_PATH = path.join(dataDir, "price-history.json");
+
+  let anvil: ChildProcess | null = null;
+  const stop = async () => {
+    anvil?.kill();
+    await mockServer.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  try {
+    const started = await startAnvil();
+    anvil = started.process;
+    const { rpcUrl } = started;
+
+    const transport = http(rpcUrl);
+    const publicClient = createPublicClient({ chain: baseSepolia, transport });
+    const testClient = createTestClient({ chain: baseSepolia, mode: "anvil", transport });
+    const owner = createWalletClient({
+      account: privateKeyToAccount(OWNER_KEY),
+      chain: baseSepolia,
+      transport,
+    });
+    const keeperAccount = privateKeyToAccount(KEEPER_KEY);
+
+    // Send a call from the owner and wait for it to succeed
+    const write = async (
+      address: Address,
+      abi: Abi,
+      functionName: string,
+      args: unknown[],
+      value?: bigint
+    ): Promise<Hex> => {
+      const hash = await owner.sendTransaction({
+        to: address,
+        data: encodeFunctionData({ abi, functionName, args }),
+        value,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        throw new Error(`${functionName} reverted (${hash})`);
+      }
+      return hash;
+    };
+
+    // Deploy a fixture at a fresh address
+    const deploy = async (contract: CompiledContract, args: unknown[] = []): Promise<Address> => {
+      const hash = await owner.sendTransaction({
+        data: encodeDeployData({ abi: contract.abi, bytecode: contract.bytecode, args }),
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (!receipt.contractAddress) {
+        throw new Error(`Failed to deploy fixture (${hash})`);
+      }
+      return receipt.contractAddress;
+    };
+
+    // Deploy a fixture, then copy its runtime code (including immutables) to the target address
+    const install = async (contract: CompiledContract, target: Address, args: unknown[] = []) => {
+      const code = await publicClient.getCode({ address: await deploy(contract, args) });
+      if (!code) {
+        throw new Error(`Failed to deploy fixture for ${target}`);
+      }
+      await testClient.setCode({ address: target, bytecode: code });
+    };
+
+    const tokens = {
+      WETH: getTokenAddress("WETH", CHAIN_ID)!,
+      USDC: getTokenAddress("USDC", CHAIN_ID)!,
+      PERMIT: await deploy(contracts.MockPermitERC20, ["Permit Token", 18]),
+    };
+    const router = get1inchRouterAddress(CHAIN_ID)!;
+    const pyth = getPythContractAddress(CHAIN_ID);
+
+    await install(contracts.MockERC20, tokens.WETH, [18]);
+    await install(contracts.MockERC20, tokens.USDC, [6]);
+    await install(contracts.MockAggregationRouter, router);
+    await install(contracts.MockPyth, pyth, [MOCK_PYTH_VALID_TIME_PERIOD, MOCK_PYTH_UPDATE_FEE]);
+
+    // Constructor state is not copied with the code
+    await testClient.setStorageAt({
+      address: pyth,
+      index: PYTH_FEE_SLOT,
+      value: toHex(MOCK_PYTH_UPDATE_FEE, { size: 32 }),
+    });
+    await testClient.setStorageAt({
+      address: pyth,
+      index: PYTH_VALID_TIME_SLOT,
+      value: toHex(MOCK_PYTH_VALID_TIME_PERIOD, { size: 32 }),
+    });
+
+    await write(tokens.WETH, contracts.MockERC20.abi, "mint", [owner.account.address, OWNER_WETH]);
+    await write(tokens.PERMIT, contracts.MockERC20.abi, "mint", [owner.account.address, OWNER_PERMIT_TOKEN]);
+    await write(tokens.USDC, contracts.MockERC20.abi, "mint", [router, ROUTER_LIQUIDITY]);
+
+    // Fill at exactly the mock 1inch quote rate
+    for (const src of [tokens.WETH, tokens.PERMIT]) {
+      await write(router, contracts.MockAggregationRouter.abi, "setRate", [
+        src,
+        tokens.USDC,
+        getMockQuoteAmount(src, tokens.USDC, parseEther("1")),
+      ]);
+    }
+
+    // MockPyth ignores updates that are not newer than the stored price,
+    // so consecutive pushes wait for the next publish second
+    let lastPushTime = 0;
+    const pushPrices = async (priceIds: Hex[]) => {
+      const waitMs = (lastPushTime + 1) * 1000 - Date.now();
+      if (waitMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+      lastPushTime = Math.floor(Date.now() / 1000);
+
+      const updateData = await fetchBinaryPriceUpdates(priceIds, CHAIN_ID);
+      await write(
+        pyth,
+        contracts.MockPyth.abi,
+        "updatePriceFeeds",
+        [updateData],
+        MOCK_PYTH_UPDATE_FEE * BigInt(updateData.length)
+      );
+    };
+
+    return {
+      rpcUrl,
+      publicClient,
+      testClient,
+      owner,
+      keeper: createKeeper(keeperAccount),
+      contracts,
+      tokens,
+      router,
+      pyth,
+      mockServer,
+      write,
+      pushPrices,
+      stop,
+    };
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Mock API Server
+ *
+ * Serves the mock Hermes and mock 1inch APIs (lib/mocks) over HTTP so the code under test
+ * reaches them through HERMES_URL and ONEINCH_API_URL, as it would in production.
+ * The server runs in the test process, so tests script prices and failures directly
+ * with setMockPricePath / injectMockOneInchFailure.
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { buildMockPriceUpdate } from "@/lib/mocks/mock-hermes";
+import { handleMockOneInchRequest } from "@/lib/mocks/mock-1inch";
+
+export interface MockServer {
+  hermesUrl: string;
+  oneInchUrl: string;
+  close: () => Promise<void>;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function handleHermes(url: URL, res: http.ServerResponse) {
+  const match = url.pathname.match(/^\/hermes\/v2\/updates\/price\/(latest|\d+)$/);
+  if (!match) {
+    return sendJson(res, 404, { error: "Not found" });
+  }
+
+  const ids = [...url.searchParams.getAll("ids[]"), ...url.searchParams.getAll("ids")];
+  const publishTime = match[1] === "latest" ? Math.floor(Date.now() / 1000) : parseInt(match[1]);
+  const { response, unknownIds } = buildMockPriceUpdate(ids, publishTime, {
+    encoding: url.searchParams.get("encoding") === "base64" ? "base64" : "hex",
+    parsed: url.searchParams.get("parsed") !== "false",
+  });
+
+  if (!response) {
+    return sendJson(res, 404, { error: `Price ids not found: ${unknownIds.join(", ")}` });
+  }
+  sendJson(res, 200, response);
+}
+
+/**
+ * Start the mock API server on a free local port
+ */
+export async function startMockServer(): Promise<MockServer> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (url.pathname.startsWith("/hermes/")) {
+      return handleHermes(url, res);
+    }
+    if (url.pathname.startsWith("/1inch/")) {
+      const { status, body } = handleMockOneInchRequest(
+        url.pathname.slice("/1inch".length),
+        url.searchParams
+      );
+      return sendJson(res, status, body);
+    }
+    sendJson(res, 404, { error: "Not found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    hermesUrl: `${baseUrl}/hermes`,
+    oneInchUrl: `${baseUrl}/1inch`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
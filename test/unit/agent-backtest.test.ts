@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  parsePriceCsv,
+  runBacktest,
+  validateBacktestStrategy,
+  type BacktestStrategy,
+} from "@/lib/agent/agent-backtest";
+
+const FEEDS = ["ETH", "BTC", "USDC"];
+
+describe("agent backtests", () => {
+  const strategy: BacktestStrategy = {
+    priceFeedSymbol: "ETH",
+    triggerPrice: 3500,
+    triggerAbove: true,
+    tokenIn: "WETH",
+    tokenOut: "USDC",
+    amountIn: 1,
+    cooldownPeriod: 3600,
+  };
+
+  const series = {
+    ETH: [
+      { timestamp: 0, price: 3000 },
+      { timestamp: 1800, price: 3600 },
+      { timestamp: 3600, price: 3700 },
+      { timestamp: 5400, price: 3800 },
+      { timestamp: 7200, price: 3400 },
+    ],
+  };
+
+  it("validates strategies before fetching prices", () => {
+    expect(validateBacktestStrategy(strategy, FEEDS)).toBeNull();
+    expect(validateBacktestStrategy({ ...strategy, priceFeedSymbol: "DOGE" }, FEEDS)).toBe(
+      "Unsupported price feed: DOGE"
+    );
+    expect(validateBacktestStrategy({ ...strategy, amountIn: -1 }, FEEDS)).toBe("Amount must be a non-negative number");
+    expect(validateBacktestStrategy({ ...strategy, triggerAbove: "yes" as unknown as boolean }, FEEDS)).toBe(
+      "triggerAbove must be a boolean"
+    );
+    expect(validateBacktestStrategy({ ...strategy, tokenIn: "DAI", tokenOut: "USDC" }, FEEDS)).toMatch(
+      /tokenIn or tokenOut to match the ETH price feed/
+    );
+  });
+
+  it("parses CSV rows in seconds, milliseconds and ISO dates", () => {
+    const points = parsePriceCsv(
+      "timestamp,price\n1700000060000,3010\n2023-11-14T22:13:20Z,3000\n1700000120, 3020\nbad row\n"
+    );
+
+    expect(points).toEqual([
+      { timestamp: 1700000000, price: 3000 },
+      { timestamp: 1700000060, price: 3010 },
+      { timestamp: 1700000120, price: 3020 },
+    ]);
+  });
+
+  it("sells on the trigger and respects the cooldown", () => {
+    const report = runBacktest(strategy, series, { initialBalance: 2 });
+
+    expect(report.side).toBe("sell");
+    expect(report.fills.map((fill) => fill.timestamp)).toEqual([1800, 5400]);
+    expect(report.initialValue).toBe(6000);
+    expect(report.finalValue).toBe(3600 + 3800);
+    expect(report.holdValue).toBe(6800);
+    expect(report.pnl).toBe(1400);
+    expect(report.maxDrawdownPercent).toBe(0);
+  });
+
+  it("tracks the drawdown of the portfolio value", () => {
+    const report = runBacktest({ ...strategy, triggerPrice: 10000 }, series, { initialBalance: 1 });
+
+    expect(report.fills).toHaveLength(0);
+    expect(report.maxDrawdownPercent).toBeCloseTo(((3800 - 3400) / 3800) * 100);
+  });
+
+  it("needs enough data for every feed", () => {
+    expect(() => runBacktest(strategy, { ETH: series.ETH.slice(0, 1) })).toThrow("Not enough ETH price data");
+    expect(() =>
+      runBacktest(
+        { ...strategy, conditions: { kind: "price", feed: "BTC", operator: "above", value: 1 } },
+        series
+      )
+    ).toThrow("Missing price data for BTC");
+  });
+});
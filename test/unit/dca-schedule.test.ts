@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceDcaSchedule,
+  applyDcaSettings,
+  createDcaSchedule,
+  getDcaMessage,
+  getRemainingBudget,
+  isDcaDue,
+  markDcaOrderPending,
+  settleDcaOrder,
+  validateDcaSettings,
+  type PendingDcaOrder,
+} from "@/lib/agent/dca-schedule";
+
+const NOW = 1_700_000_000;
+
+describe("DCA schedules", () => {
+  const settings = { intervalSeconds: 3600, budget: 1 };
+  const order: PendingDcaOrder = { orderHash: "0x01", amount: 0.25, amountWei: "250000000000000000" };
+
+  it("is due immediately and while the budget covers a swap", () => {
+    const schedule = createDcaSchedule(settings, NOW);
+
+    expect(isDcaDue(schedule, 0.25, NOW)).toBe(true);
+    expect(isDcaDue({ ...schedule, spent: 0.9 }, 0.25, NOW)).toBe(false);
+    expect(getRemainingBudget({ ...schedule, spent: 2 })).toBe(0);
+  });
+
+  it("anchors the next run to the previous slot", () => {
+    const schedule = createDcaSchedule(settings, NOW);
+
+    const onTime = advanceDcaSchedule(schedule, 0.25, NOW + 60);
+    expect(onTime).toMatchObject({ spent: 0.25, executions: 1, lastRunAt: NOW + 60, nextRunAt: NOW + 3600 });
+
+    // A run more than an interval late starts a new slot from now
+    const late = advanceDcaSchedule(schedule, 0.25, NOW + 7200);
+    expect(late.nextRunAt).toBe(NOW + 7200 + 3600);
+  });
+
+  it("keeps spending when settings are re-applied", () => {
+    const schedule = advanceDcaSchedule(createDcaSchedule(settings, NOW), 0.25, NOW);
+    const updated = applyDcaSettings(schedule, { intervalSeconds: 600, budget: 2, maxPrice: 3000 }, NOW + 10);
+
+    expect(updated).toMatchObject({ intervalSeconds: 600, budget: 2, maxPrice: 3000, spent: 0.25, executions: 1 });
+    expect(applyDcaSettings(undefined, settings, NOW)).toEqual(createDcaSchedule(settings, NOW));
+  });
+
+  it("isn't due while a Fusion order is pending", () => {
+    const pending = markDcaOrderPending(createDcaSchedule(settings, NOW), order, NOW);
+
+    expect(pending.pendingOrder).toEqual(order);
+    expect(pending.spent).toBe(0);
+    expect(pending.nextRunAt).toBe(NOW + 3600);
+    expect(isDcaDue(pending, 0.25, NOW + 3600)).toBe(false);
+  });
+
+  it("isn't due while pulled funds are outstanding", () => {
+    const schedule = createDcaSchedule(settings, NOW);
+    const pendingPull = { tokenIn: "0x1", tokenOut: "0x2", amount: 0.25, amountWei: "1", startedAt: NOW };
+
+    expect(isDcaDue({ ...schedule, pendingPull }, 0.25, NOW)).toBe(false);
+  });
+
+  it("resumes a completed schedule when settings are re-applied", () => {
+    const completed = { ...createDcaSchedule(settings, NOW), spent: 1, completedAt: NOW };
+    const updated = applyDcaSettings(completed, { ...settings, budget: 2 }, NOW + 10);
+
+    expect(updated.completedAt).toBeUndefined();
+    expect(updated.spent).toBe(1);
+    expect(isDcaDue(updated, 0.25, NOW + 10)).toBe(true);
+  });
+
+  it("counts a pending order only once it fills", () => {
+    const pending = markDcaOrderPending(createDcaSchedule(settings, NOW), order, NOW);
+
+    const filled = settleDcaOrder(pending, true, NOW + 100);
+    expect(filled.pendingOrder).toBeUndefined();
+    expect(filled).toMatchObject({ spent: 0.25, executions: 1, lastRunAt: NOW + 100, nextRunAt: NOW + 3600 });
+
+    const unfilled = settleDcaOrder(pending, false, NOW + 100);
+    expect(unfilled.pendingOrder).toBeUndefined();
+    expect(unfilled).toMatchObject({ spent: 0, executions: 0 });
+    expect(isDcaDue(unfilled, 0.25, NOW + 3600)).toBe(true);
+  });
+
+  it("validates settings", () => {
+    expect(validateDcaSettings(settings, 0.25)).toBeNull();
+    expect(validateDcaSettings({ ...settings, intervalSeconds: 30 }, 0.25)).toBe("Interval must be at least one minute");
+    expect(validateDcaSettings({ ...settings, budget: 0.1 }, 0.25)).toBe("Budget must cover at least one swap");
+    expect(validateDcaSettings({ ...settings, maxPrice: 0 }, 0.25)).toBe("Price ceiling must be a positive number");
+  });
+
+  it("builds the signed message with the chain ID and nonce last", () => {
+    const lines = getDcaMessage("0xabc", settings, 8453, 42).split("\n");
+
+    expect(lines[0]).toBe("Set DCA schedule for agent 0xabc:");
+    expect(JSON.parse(lines[1])).toEqual(settings);
+    expect(lines.slice(2)).toEqual(["Chain ID: 8453", "Nonce: 42"]);
+  });
+});
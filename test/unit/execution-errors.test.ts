@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  RpcRequestError,
+  TimeoutError,
+  encodeErrorResult,
+  parseAbi,
+  type Hex,
+} from "viem";
+import {
+  PYTH_ERRORS_ABI,
+  classifyRevertReason,
+  decodeExecutionError,
+  isRevertError,
+} from "@/lib/agent/execution-errors";
+
+const REGISTRY_ABI = parseAbi([
+  "function checkAndExecuteTrigger(bytes32 agentId, bytes[] priceUpdate) payable",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+const ERROR_STRING_ABI = parseAbi(["error Error(string)"]);
+
+const requireMessage = (message: string) =>
+  encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: "Error", args: [message] });
+
+// Revert surfaced by simulateContract
+const simulationRevert = (data: Hex) =>
+  new ContractFunctionRevertedError({ abi: REGISTRY_ABI, functionName: "checkAndExecuteTrigger", data });
+
+// Revert surfaced by a plain eth_call (raw data in the RPC error)
+const callRevert = (data: Hex) =>
+  new RpcRequestError({ body: {}, url: "http://localhost:8545", error: { code: 3, message: "execution reverted", data } });
+
+describe("execution errors", () => {
+  it("classifies reasons by exact error name or require message", () => {
+    expect(classifyRevertReason("InsufficientFee")).toBe("insufficient-fee");
+    expect(classifyRevertReason("ERC20: insufficient allowance")).toBe("insufficient-allowance");
+    expect(classifyRevertReason("Return amount is not enough")).toBe("slippage");
+    expect(classifyRevertReason("Fee recipient not set")).toBe("reverted");
+    expect(classifyRevertReason("toString")).toBe("reverted");
+  });
+
+  it("decodes custom errors of the called contract", () => {
+    const data = encodeErrorResult({
+      abi: REGISTRY_ABI,
+      errorName: "ERC20InsufficientBalance",
+      args: ["0x0000000000000000000000000000000000000001", BigInt(0), BigInt(1)],
+    });
+
+    expect(decodeExecutionError(simulationRevert(data), REGISTRY_ABI)).toEqual({
+      code: "insufficient-balance",
+      message: "Insufficient balance: ERC20InsufficientBalance",
+      reason: "ERC20InsufficientBalance",
+    });
+  });
+
+  it("decodes Pyth errors bubbled up through the registry", () => {
+    const data = encodeErrorResult({ abi: PYTH_ERRORS_ABI, errorName: "InsufficientFee" });
+
+    expect(decodeExecutionError(simulationRevert(data), [...REGISTRY_ABI, ...PYTH_ERRORS_ABI]).code).toBe(
+      "insufficient-fee"
+    );
+    expect(decodeExecutionError(callRevert(data), PYTH_ERRORS_ABI).code).toBe("insufficient-fee");
+  });
+
+  it("keeps unrecognized reverts as reverted with their reason", () => {
+    expect(decodeExecutionError(callRevert(requireMessage("Fee too low")))).toEqual({
+      code: "reverted",
+      message: "Transaction would revert: Fee too low",
+      reason: "Fee too low",
+    });
+    expect(decodeExecutionError(callRevert("0xdeadbeef")).reason).toBe("Unknown error 0xdeadbeef");
+    expect(decodeExecutionError(callRevert(requireMessage("ERC20: insufficient allowance"))).code).toBe(
+      "insufficient-allowance"
+    );
+  });
+
+  it("decodes the mock ERC-20 balance revert", () => {
+    expect(decodeExecutionError(callRevert(requireMessage("ERC20: insufficient balance")))).toEqual({
+      code: "insufficient-balance",
+      message: "Insufficient balance: ERC20: insufficient balance",
+      reason: "ERC20: insufficient balance",
+    });
+  });
+
+  it("separates node failures from reverts", () => {
+    const unreachable = new HttpRequestError({ url: "http://localhost:8545", status: 502 });
+    const timeout = new TimeoutError({ body: {}, url: "http://localhost:8545" });
+
+    expect(isRevertError(unreachable)).toBe(false);
+    expect(decodeExecutionError(unreachable).code).toBe("rpc-error");
+    expect(decodeExecutionError(timeout).code).toBe("rpc-error");
+    expect(decodeExecutionError(new Error("socket hang up"))).toEqual({
+      code: "rpc-error",
+      message: "Request to the node failed: socket hang up",
+      reason: "socket hang up",
+    });
+  });
+
+  it("reports senders that can't pay for value and gas", () => {
+    expect(decodeExecutionError(new InsufficientFundsError()).code).toBe("insufficient-balance");
+  });
+});
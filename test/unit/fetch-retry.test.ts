@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchWithRetry, parseRetryAfter } from "@/lib/1inch/fetch-retry";
+
+const QUOTE_URL = "https://api.1inch.dev/swap/v6.0/8453/quote";
+
+// Responds with each status in turn
+function stubFetch(...statuses: number[]) {
+  const fetchMock = vi.fn(async () => new Response(null, { status: statuses.shift() ?? 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("1inch request retry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("parses Retry-After in seconds or as a date", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter("not a date")).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() - 60_000).toUTCString())).toBe(0);
+  });
+
+  it("retries rate limits and server errors with backoff", async () => {
+    const fetchMock = stubFetch(429, 503, 200);
+
+    const { response, retries } = await fetchWithRetry(QUOTE_URL, {}, { baseDelayMs: 1 });
+
+    expect(response.status).toBe(200);
+    expect(retries).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns the last response once attempts run out", async () => {
+    const fetchMock = stubFetch(500, 500, 500, 200);
+
+    const { response, retries } = await fetchWithRetry(QUOTE_URL, {}, { maxAttempts: 2, baseDelayMs: 1 });
+
+    expect(response.status).toBe(500);
+    expect(retries).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries POST requests only on rate limits", async () => {
+    const fetchMock = stubFetch(500);
+
+    const { response } = await fetchWithRetry(QUOTE_URL, { method: "POST" }, { baseDelayMs: 1 });
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors for GET and rethrows the last one", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchWithRetry(QUOTE_URL, {}, { baseDelayMs: 1 })).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(fetchWithRetry(QUOTE_URL, { method: "POST" }, { baseDelayMs: 1 })).rejects.toThrow("fetch failed");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+});
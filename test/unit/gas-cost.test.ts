@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { checkGasCost, formatGasCostLimit, hasTokenUsdPrice } from "@/lib/agent/gas-cost";
+import { CHAIN_IDS } from "@/lib/chains/chain-registry";
+
+describe("gas cost limits", () => {
+  it("describes limits", () => {
+    expect(formatGasCostLimit({ type: "usd", value: 5 })).toBe("$5");
+    expect(formatGasCostLimit({ type: "percent", value: 1 })).toBe("1% of trade value");
+  });
+
+  it("knows which tokens can be valued for a percentage cap", () => {
+    expect(hasTokenUsdPrice("WETH", CHAIN_IDS.BASE_SEPOLIA)).toBe(true);
+    expect(hasTokenUsdPrice("0x4200000000000000000000000000000000000006", CHAIN_IDS.BASE_SEPOLIA)).toBe(true);
+    expect(hasTokenUsdPrice("DAI", CHAIN_IDS.BASE_SEPOLIA)).toBe(false);
+    expect(hasTokenUsdPrice("0x000000000000000000000000000000000000dEaD", CHAIN_IDS.BASE_SEPOLIA)).toBe(false);
+  });
+
+  it("skips a percentage cap when the trade can't be valued, without pricing gas", async () => {
+    const check = await checkGasCost({
+      gasUnits: BigInt(200_000),
+      notionalUsd: null,
+      limit: { type: "percent", value: 1 },
+      chainId: CHAIN_IDS.BASE_SEPOLIA,
+      rpcUrl: "http://127.0.0.1:1",
+    });
+
+    expect(check.allowed).toBe(true);
+    expect(check.gasCostUsd).toBeUndefined();
+    expect(check.skipped).toMatch(/no Pyth price/);
+  });
+});
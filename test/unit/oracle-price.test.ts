@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseEther, parseUnits } from "viem";
+import {
+  getOracleMinReturn,
+  getOraclePriceAge,
+  getPriceDeviation,
+  getQuotePrice,
+  type OraclePairPrice,
+} from "@/lib/1inch/oracle-price";
+import type { SwapQuote } from "@/lib/1inch/1inch-service";
+
+describe("oracle price checks", () => {
+  it("derives the minimum output from the oracle price minus the tolerance", () => {
+    // 1 WETH at 3000 USDC, 1% below the oracle
+    expect(getOracleMinReturn(parseEther("1"), 18, 6, 3000, 1)).toBe(parseUnits("2970", 6));
+    // 3000 USDC at 1/3000 WETH, no tolerance
+    expect(getOracleMinReturn(parseUnits("3000", 6), 6, 18, 1 / 3000, 0)).toBeLessThanOrEqual(parseEther("1"));
+    expect(getOracleMinReturn(parseUnits("3000", 6), 6, 18, 1 / 3000, 0)).toBeGreaterThan(parseEther("0.999999"));
+    // Basis-point tolerances
+    expect(getOracleMinReturn(parseEther("1"), 18, 6, 3000, 0.25)).toBe(parseUnits("2992.5", 6));
+  });
+
+  it("measures the age of the oldest price in a pair", () => {
+    const price: OraclePairPrice = { price: 3000, fromPriceUsd: 3000, toPriceUsd: 1, publishTime: 1_000 };
+
+    expect(getOraclePriceAge(price, 1_045)).toBe(45);
+    // Clock skew never gives a negative age
+    expect(getOraclePriceAge(price, 990)).toBe(0);
+  });
+
+  it("compares quote prices with the oracle", () => {
+    const quote = {
+      fromToken: { address: "0x1", symbol: "WETH", decimals: 18, name: "Wrapped Ether" },
+      toToken: { address: "0x2", symbol: "USDC", decimals: 6, name: "USD Coin" },
+      fromTokenAmount: parseEther("2").toString(),
+      toTokenAmount: parseUnits("5820", 6).toString(),
+      protocols: [],
+      estimatedGas: 0,
+    } satisfies SwapQuote;
+
+    expect(getQuotePrice(quote)).toBe(2910);
+    expect(getPriceDeviation(2910, 3000)).toBeCloseTo(-3);
+  });
+});
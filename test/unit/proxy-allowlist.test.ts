@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { validateProxyRequest } from "@/lib/1inch/proxy-allowlist";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+describe("1inch proxy allowlist", () => {
+  const quote = { src: WETH, dst: USDC, amount: "1000000000000000000" };
+
+  it("accepts allowlisted endpoints and sets their cache TTL", () => {
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/quote", { ...quote, slippage: "1" })).toEqual({
+      success: true,
+      cacheTtlMs: 5_000,
+    });
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/swap", { ...quote, from: WETH })).toEqual({
+      success: true,
+      cacheTtlMs: undefined,
+    });
+  });
+
+  it("rejects other endpoints and methods with 403", () => {
+    expect(validateProxyRequest("GET", "/fusion/orders/v2.0/8453/order/active", {})).toMatchObject({
+      success: false,
+      status: 403,
+    });
+    expect(validateProxyRequest("POST", "/swap/v6.0/8453/quote", quote)).toMatchObject({ status: 403 });
+  });
+
+  it("rejects unsupported chains and invalid parameters with 400", () => {
+    expect(validateProxyRequest("GET", "/swap/v6.0/999999/quote", quote)).toEqual({
+      success: false,
+      status: 400,
+      error: "Unsupported chain ID: 999999",
+    });
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/quote", { ...quote, slippage: "51" }).error).toBe(
+      "Invalid parameter: slippage"
+    );
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/quote", { ...quote, referrer: WETH }).error).toBe(
+      "Parameter not allowed: referrer"
+    );
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/swap", quote).error).toBe("Missing parameter: from");
+  });
+
+  it("validates order submission bodies", () => {
+    const order = { orderHash: "0x1234", signature: "0xabcd", data: {} };
+
+    expect(validateProxyRequest("POST", "/orderbook/v4.1/8453", {}, order).success).toBe(true);
+    expect(validateProxyRequest("POST", "/orderbook/v4.1/8453", {}, { ...order, signature: "nope" }).error).toBe(
+      "Invalid request body"
+    );
+    expect(validateProxyRequest("GET", "/swap/v6.0/8453/tokens", {}, order).error).toBe("Request body not allowed");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { getCachedProxyResponse, getProxyCacheKey, setCachedProxyResponse } from "@/lib/1inch/proxy-cache";
+
+describe("1inch proxy cache", () => {
+  it("normalizes parameter order and case in keys", () => {
+    expect(getProxyCacheKey("/swap/v6.0/8453/quote", { src: "0xAbC", amount: "1" })).toBe(
+      getProxyCacheKey("/swap/v6.0/8453/quote", { amount: "1", src: "0xabc" })
+    );
+    expect(getProxyCacheKey("/swap/v6.0/8453/quote", { amount: "1" })).not.toBe(
+      getProxyCacheKey("/swap/v6.0/8453/quote", { amount: "2" })
+    );
+  });
+
+  it("serves entries until they expire", () => {
+    const key = getProxyCacheKey("/swap/v6.0/8453/tokens", {});
+    setCachedProxyResponse(key, { tokens: {} }, 5_000, 1_000);
+
+    expect(getCachedProxyResponse(key, 5_999)).toEqual({ body: { tokens: {} }, cachedAt: 1_000, expiresAt: 6_000 });
+    expect(getCachedProxyResponse(key, 6_000)).toBeNull();
+    expect(getCachedProxyResponse(key, 1_000)).toBeNull();
+  });
+
+  it("evicts the oldest entries beyond the size limit", () => {
+    for (let i = 0; i <= 500; i++) {
+      setCachedProxyResponse(`eviction-${i}`, i, 60_000, 0);
+    }
+
+    expect(getCachedProxyResponse("eviction-0", 1)).toBeNull();
+    expect(getCachedProxyResponse("eviction-1", 1)?.body).toBe(1);
+    expect(getCachedProxyResponse("eviction-500", 1)?.body).toBe(500);
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkProxyRateLimit, getProxyClientId, getProxyRateLimit } from "@/lib/1inch/proxy-rate-limit";
+
+describe("1inch proxy rate limiting", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("identifies clients by the entry the trusted proxy appended", () => {
+    const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7" });
+
+    expect(getProxyClientId(headers)).toBe("203.0.113.7");
+
+    vi.stubEnv("ONEINCH_PROXY_TRUSTED_HOPS", "2");
+    expect(getProxyClientId(headers)).toBe("6.6.6.6");
+  });
+
+  it("rejects missing or malformed client IPs", () => {
+    expect(getProxyClientId(new Headers())).toBeNull();
+    expect(getProxyClientId(new Headers({ "x-forwarded-for": "1.1.1.1, not-an-ip" }))).toBeNull();
+
+    vi.stubEnv("ONEINCH_PROXY_TRUSTED_HOPS", "3");
+    expect(getProxyClientId(new Headers({ "x-forwarded-for": "1.1.1.1, 2.2.2.2" }))).toBeNull();
+  });
+
+  it("prefers the platform's client IP header when configured", () => {
+    vi.stubEnv("ONEINCH_PROXY_CLIENT_IP_HEADER", "x-real-ip");
+
+    expect(getProxyClientId(new Headers({ "x-real-ip": "2001:db8::1", "x-forwarded-for": "1.1.1.1" }))).toBe(
+      "2001:db8::1"
+    );
+    expect(getProxyClientId(new Headers({ "x-forwarded-for": "1.1.1.1" }))).toBeNull();
+  });
+
+  it("limits requests per client per window", () => {
+    vi.stubEnv("ONEINCH_PROXY_RATE_LIMIT", "2");
+    const now = 1_000_000;
+
+    expect(getProxyRateLimit()).toBe(2);
+    expect(checkProxyRateLimit("10.0.0.1", now)).toMatchObject({ allowed: true, remaining: 1, resetAt: now + 60_000 });
+    expect(checkProxyRateLimit("10.0.0.1", now + 1)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(checkProxyRateLimit("10.0.0.1", now + 2)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(checkProxyRateLimit("10.0.0.2", now + 2).allowed).toBe(true);
+    expect(checkProxyRateLimit("10.0.0.1", now + 60_000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it("falls back to the default limit", () => {
+    vi.stubEnv("ONEINCH_PROXY_RATE_LIMIT", "-5");
+    expect(getProxyRateLimit()).toBe(60);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { parseEther, parseUnits } from "viem";
+import type { SwapQuote } from "@/lib/1inch/1inch-service";
+import { getOraclePairPrice } from "@/lib/1inch/oracle-price";
+import { getBestSwapQuote, getGasCostInToken } from "@/lib/swap/quote-routing";
+import type { ProviderQuoteParams, SwapProvider, SwapProviderId } from "@/lib/swap/swap-provider";
+
+// Gas is priced at 1 gwei with ETH at 3000 USDC
+vi.mock("@/lib/chains/chain-registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/chains/chain-registry")>()),
+  createChainPublicClient: () => ({ getGasPrice: async () => BigInt(1e9) }),
+}));
+vi.mock("@/lib/1inch/oracle-price", () => ({ getOraclePairPrice: vi.fn() }));
+
+const params: ProviderQuoteParams = {
+  fromTokenAddress: "0x4200000000000000000000000000000000000006",
+  toTokenAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  amount: parseEther("1").toString(),
+  fromAddress: "0x0000000000000000000000000000000000000001",
+  slippage: 1,
+  chainId: 84532,
+};
+
+function createQuote(toTokenAmount: bigint, estimatedGas: number): SwapQuote {
+  return {
+    fromToken: { address: params.fromTokenAddress, symbol: "WETH", decimals: 18, name: "Wrapped Ether" },
+    toToken: { address: params.toTokenAddress, symbol: "USDC", decimals: 6, name: "USD Coin" },
+    fromTokenAmount: params.amount,
+    toTokenAmount: toTokenAmount.toString(),
+    protocols: [],
+    estimatedGas,
+  };
+}
+
+// Provider that only quotes (routing never builds transactions)
+function createProvider(id: SwapProviderId, quote: SwapQuote | Error): SwapProvider {
+  return {
+    id,
+    name: id,
+    supportsPermit: false,
+    isSupported: () => true,
+    getSpender: () => null,
+    getAllowance: async () => "0",
+    getApprovalTx: async () => {
+      throw new Error("Not used");
+    },
+    getQuote: async () => {
+      if (quote instanceof Error) throw quote;
+      return quote;
+    },
+    getSwapTx: async () => {
+      throw new Error("Not used");
+    },
+  };
+}
+
+describe("quote routing", () => {
+  beforeEach(() => {
+    vi.mocked(getOraclePairPrice).mockResolvedValue({
+      price: 3000,
+      fromPriceUsd: 3000,
+      toPriceUsd: 1,
+      publishTime: 0,
+    });
+  });
+
+  it("prices gas in the output token", () => {
+    // 1,000,000 gas at 1 gwei = 0.001 ETH = 3 USDC
+    expect(getGasCostInToken(BigInt(1_000_000), BigInt(1e9), 3000, 6)).toBe(parseUnits("3", 6));
+  });
+
+  it("picks the best output net of gas", async () => {
+    const cheapGas = createProvider("1inch", createQuote(parseUnits("2999", 6), 100_000));
+    const expensiveGas = createProvider("uniswap-v3", createQuote(parseUnits("3000", 6), 2_000_000));
+
+    const result = await getBestSwapQuote(params, [expensiveGas, cheapGas]);
+
+    expect(result.best.provider.id).toBe("1inch");
+    expect(result.best.gasCost).toBe(parseUnits("0.3", 6).toString());
+    expect(result.best.netOutput).toBe(parseUnits("2998.7", 6).toString());
+    expect(result.quotes.map((quote) => quote.provider.id)).toEqual(["1inch", "uniswap-v3"]);
+  });
+
+  it("compares gross output when gas can't be priced", async () => {
+    vi.mocked(getOraclePairPrice).mockResolvedValue(null);
+    const cheapGas = createProvider("1inch", createQuote(parseUnits("2999", 6), 100_000));
+    const expensiveGas = createProvider("uniswap-v3", createQuote(parseUnits("3000", 6), 2_000_000));
+
+    const result = await getBestSwapQuote(params, [cheapGas, expensiveGas]);
+
+    expect(result.best.provider.id).toBe("uniswap-v3");
+    expect(result.best.gasCost).toBeUndefined();
+  });
+
+  it("reports failed providers and throws when none quotes", async () => {
+    const working = createProvider("1inch", createQuote(parseUnits("3000", 6), 100_000));
+    const failing = createProvider("uniswap-v3", new Error("No pool"));
+
+    const result = await getBestSwapQuote(params, [working, failing]);
+    expect(result.best.provider.id).toBe("1inch");
+    expect(result.failures).toEqual([{ provider: "uniswap-v3", error: "No pool" }]);
+
+    await expect(getBestSwapQuote(params, [failing])).rejects.toThrow("No pool");
+    await expect(
+      getBestSwapQuote(params, [failing, createProvider("1inch", new Error("Rate limited"))])
+    ).rejects.toThrow("No swap quote available (uniswap-v3: No pool; 1inch: Rate limited)");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeCondition,
+  evaluateCondition,
+  getConditionFeeds,
+  getConditionsMessage,
+  getTriggerDistances,
+  getWindowKey,
+  isOneShotCondition,
+  updateExtremes,
+  validateCondition,
+  type StrategyCondition,
+} from "@/lib/agent/strategy-conditions";
+
+const FEEDS = ["ETH", "BTC", "USDC"];
+
+describe("strategy conditions", () => {
+  const ethBelow: StrategyCondition = { kind: "price", feed: "eth", operator: "below", value: 2800 };
+  const btcAbove: StrategyCondition = { kind: "price", feed: "BTC", operator: "above", value: 60000 };
+
+  it("combines price thresholds with AND and OR", () => {
+    const and: StrategyCondition = { kind: "group", combinator: "and", conditions: [ethBelow, btcAbove] };
+    const or: StrategyCondition = { ...and, combinator: "or" };
+
+    expect(evaluateCondition(and, { prices: { ETH: 2700, BTC: 61000 } })).toBe(true);
+    expect(evaluateCondition(and, { prices: { ETH: 2700, BTC: 59000 } })).toBe(false);
+    expect(evaluateCondition(or, { prices: { ETH: 2700, BTC: 59000 } })).toBe(true);
+    expect(describeCondition(and)).toBe("ETH < 2800 AND BTC > 60000");
+    expect(getConditionFeeds(and)).toEqual(["ETH", "BTC"]);
+  });
+
+  it("never satisfies a condition with a missing price", () => {
+    expect(evaluateCondition(ethBelow, { prices: { BTC: 1 } })).toBe(false);
+    expect(evaluateCondition({ kind: "group", combinator: "and", conditions: [] }, { prices: {} })).toBe(false);
+  });
+
+  it("fires crosses operators only when the previous check was on the other side", () => {
+    const crosses: StrategyCondition = {
+      kind: "ratio",
+      baseFeed: "ETH",
+      quoteFeed: "BTC",
+      operator: "crossesAbove",
+      value: 0.05,
+    };
+
+    expect(evaluateCondition(crosses, { prices: { ETH: 3100, BTC: 60000 } })).toBe(false);
+    expect(
+      evaluateCondition(crosses, { prices: { ETH: 3100, BTC: 60000 }, previousPrices: { ETH: 2900, BTC: 60000 } })
+    ).toBe(true);
+    expect(
+      evaluateCondition(crosses, { prices: { ETH: 3200, BTC: 60000 }, previousPrices: { ETH: 3100, BTC: 60000 } })
+    ).toBe(false);
+  });
+
+  it("evaluates percent moves against the window reference price", () => {
+    const drop: StrategyCondition = { kind: "percentChange", feed: "ETH", direction: "down", percent: 5, windowSeconds: 3600 };
+    const windowPrices = { [getWindowKey("eth", 3600)]: 3000 };
+
+    expect(getWindowKey("eth", 3600)).toBe("ETH:3600");
+    expect(evaluateCondition(drop, { prices: { ETH: 2850 }, windowPrices })).toBe(true);
+    expect(evaluateCondition(drop, { prices: { ETH: 2900 }, windowPrices })).toBe(false);
+    expect(evaluateCondition(drop, { prices: { ETH: 2000 } })).toBe(false);
+    expect(describeCondition(drop)).toBe("ETH down 5% in 1h");
+  });
+
+  it("trails a long stop below the running high", () => {
+    const stop: StrategyCondition = { kind: "trailingStop", feed: "ETH", side: "long", trailPercent: 10 };
+    let extremes = updateExtremes({}, { ETH: 3000 });
+    extremes = updateExtremes(extremes, { ETH: 3500 });
+    extremes = updateExtremes(extremes, { ETH: 3200 });
+
+    expect(extremes.ETH).toEqual({ high: 3500, low: 3000 });
+    expect(evaluateCondition(stop, { prices: { ETH: 3200 }, extremes })).toBe(false);
+    expect(evaluateCondition(stop, { prices: { ETH: 3150 }, extremes })).toBe(true);
+  });
+
+  it("closes take-profit/stop-loss pairs on either side, once", () => {
+    const long: StrategyCondition = { kind: "takeProfitStopLoss", feed: "ETH", takeProfit: 4000, stopLoss: 2500 };
+    const short: StrategyCondition = { ...long, takeProfit: 2500, stopLoss: 4000 };
+
+    expect(evaluateCondition(long, { prices: { ETH: 4100 } })).toBe(true);
+    expect(evaluateCondition(long, { prices: { ETH: 2400 } })).toBe(true);
+    expect(evaluateCondition(long, { prices: { ETH: 3000 } })).toBe(false);
+    expect(evaluateCondition(short, { prices: { ETH: 2400 } })).toBe(true);
+    expect(isOneShotCondition({ kind: "group", combinator: "or", conditions: [ethBelow, long] })).toBe(true);
+    expect(isOneShotCondition(ethBelow)).toBe(false);
+  });
+
+  it("reports the nearer take-profit/stop-loss price as the trigger distance", () => {
+    const long: StrategyCondition = { kind: "takeProfitStopLoss", feed: "ETH", takeProfit: 4000, stopLoss: 2500 };
+    const [distance] = getTriggerDistances(long, { prices: { ETH: 2750 } });
+
+    expect(distance.target).toBe(2500);
+    expect(distance.distancePercent).toBeCloseTo(-9.09, 2);
+  });
+
+  it("validates condition trees", () => {
+    expect(validateCondition({ kind: "group", combinator: "and", conditions: [ethBelow, btcAbove] }, FEEDS)).toBeNull();
+    expect(validateCondition({ ...ethBelow, feed: "DOGE" }, FEEDS)).toBe("Unsupported price feed: DOGE");
+    expect(validateCondition({ ...ethBelow, value: -1 }, FEEDS)).toBe("Condition values must be positive numbers");
+    expect(validateCondition({ kind: "group", combinator: "and", conditions: [] }, FEEDS)).toBe(
+      "Condition groups must contain at least one condition"
+    );
+    expect(
+      validateCondition({ kind: "trailingStop", feed: "ETH", side: "long", trailPercent: 100 }, FEEDS)
+    ).toBe("Trailing percent must be between 0 and 100");
+    expect(
+      validateCondition({ kind: "takeProfitStopLoss", feed: "ETH", takeProfit: 3000, stopLoss: 3000 }, FEEDS)
+    ).toBe("Take-profit and stop-loss must differ");
+    expect(validateCondition({ kind: "nope" } as unknown as StrategyCondition, FEEDS)).toBe("Invalid condition");
+  });
+
+  it("builds the signed message with the chain ID and nonce last", () => {
+    const lines = getConditionsMessage("0xabc", ethBelow, 84532, 1700000000000).split("\n");
+
+    expect(lines[0]).toBe("Set strategy conditions for agent 0xabc:");
+    expect(JSON.parse(lines[1])).toEqual(ethBelow);
+    expect(lines.slice(2)).toEqual(["Chain ID: 84532", "Nonce: 1700000000000"]);
+  });
+});
@@ -0,0 +1,16 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Anvil-fork integration tests (see test/integration/harness.ts)
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    include: ["test/integration/**/*.test.ts"],
+    fileParallelism: false,
+    testTimeout: 60_000,
+    hookTimeout: 180_000,
+  },
+});